@@ -686,6 +686,69 @@ app.patch("/api/l2vpn/1.0/:serviceId", validateToken, async (req, res) => {
   }
 });
 
+// Forward a read-only L2VPN request to the SDX API and relay the JSON response
+async function forwardL2VPNGet(req, res, l2vpnUrl, description) {
+  try {
+    if (!isProduction) {
+      console.log(`L2VPN ${description} request received`);
+      console.log("Fetching from:", l2vpnUrl);
+    }
+
+    const response = await fetch(l2vpnUrl, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        ...(req.token && { Authorization: `Bearer ${req.token}` }),
+      },
+    });
+
+    if (!isProduction) {
+      console.log(`SDX L2VPN ${description} response status:`, response.status);
+    }
+
+    const responseText = await response.text();
+    let responseData;
+
+    try {
+      responseData = JSON.parse(responseText);
+    } catch (parseError) {
+      console.error(`Failed to parse L2VPN ${description} response:`, responseText);
+      return res.status(response.ok ? 502 : response.status).json({
+        error: "Invalid response from SDX API",
+        ...(!isProduction && { details: responseText }),
+      });
+    }
+
+    if (!response.ok) {
+      console.error(`L2VPN ${description} fetch failed:`, response.status, responseData);
+      return res.status(response.status).json({
+        error: `Failed to fetch L2VPN ${description}`,
+        status: response.status,
+        ...responseData,
+      });
+    }
+
+    res.status(response.status).json(responseData);
+  } catch (error) {
+    console.error(`L2VPN ${description} endpoint error:`, error.message);
+    res.status(500).json({
+      error: `Internal server error while fetching L2VPN ${description}`,
+      ...(!isProduction && { message: error.message }),
+    });
+  }
+}
+
+// L2VPN detail endpoint
+app.get("/api/l2vpn/1.0/:serviceId", validateToken, (req, res) =>
+  forwardL2VPNGet(
+    req,
+    res,
+    `${SDX_API_CONFIG.baseUrl}/l2vpn/1.0/${encodeURIComponent(req.params.serviceId)}`,
+    "detail"
+  )
+);
+
 // L2VPN list endpoint
 app.get("/api/l2vpn/1.0", validateToken, async (req, res) => {
   try {
@@ -891,6 +954,7 @@ app.get("/", (req, res) => {
       "POST /api/verify-code": "Verify email code",
       "GET /api/topology": "Get network topology",
       "GET /api/l2vpn/1.0": "List L2VPN connections",
+      "GET /api/l2vpn/1.0/:serviceId": "Get L2VPN connection",
       "POST /api/l2vpn/1.0": "Create L2VPN connection",
       "PATCH /api/l2vpn/1.0/:serviceId": "Update L2VPN connection",
       "DELETE /api/l2vpn/1.0/:serviceId": "Delete L2VPN connection",
@@ -7,14 +7,23 @@ import { LoginPage } from "@/components/pages/LoginPage";
 import { EmailValidationPage } from "@/components/pages/EmailValidationPage";
 import { TokenPage } from "@/components/pages/TokenPage";
 import { Dashboard } from "@/components/pages/Dashboard";
+import { L2VPNDetailPage } from "@/components/pages/L2VPNDetailPage";
 import { ORCIDCallbackPage } from "@/components/pages/ORCIDCallbackPage";
 import { CILogonCallbackPage } from "@/components/pages/CILogonCallbackPage";
+import { OAuthCallbackPage } from "@/components/pages/OAuthCallbackPage";
 import { TokenExpiryNotification } from "@/components/TokenExpiryNotification";
 import { config } from "@/lib/config";
 import { Provider } from "@/lib/config";
 import { TokenStorage } from "@/lib/token-storage";
 import { useTokenRefresh } from "@/hooks/useTokenRefresh";
 import { SessionManager } from "@/lib/session";
+import { onSessionExpired } from "@/lib/token-refresh";
+import {
+  findProviderByCallbackPath,
+  getProvider,
+  isProvider,
+  listProviders,
+} from "@/lib/providers/registry";
 
 type Page =
   | "landing"
@@ -22,8 +31,14 @@ type Page =
   | "email-validation"
   | "token"
   | "dashboard"
-  | "orcid-callback"
-  | "cilogon-callback";
+  | "l2vpn-detail"
+  | "callback";
+
+// Providers with a callback page of their own; the others use OAuthCallbackPage
+const CALLBACK_PAGES: Partial<Record<Provider, typeof ORCIDCallbackPage>> = {
+  orcid: ORCIDCallbackPage,
+  cilogon: CILogonCallbackPage,
+};
 
 function App() {
   const [currentPage, setCurrentPage] = useState<Page>("landing");
@@ -31,6 +46,10 @@ function App() {
     Provider | undefined
   >();
   const [loginProvider, setLoginProvider] = useState<Provider | undefined>();
+  const [callbackProvider, setCallbackProvider] = useState<
+    Provider | undefined
+  >();
+  const [l2vpnDetailId, setL2vpnDetailId] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => {
     // Initialize authentication state on component mount
     return SessionManager.isAuthenticated();
@@ -52,22 +71,27 @@ function App() {
       // Determine base path based on environment
       const isProduction = import.meta.env.PROD;
       const basePath = isProduction ? "/multi-provider-authe" : "";
+      const l2vpnDetailPrefix = `${basePath}/dashboard/l2vpn/`;
+      const detailIdFromPath = path.startsWith(l2vpnDetailPrefix)
+        ? decodeURIComponent(path.slice(l2vpnDetailPrefix.length))
+        : null;
 
       // Update session activity
       SessionManager.updateActivity();
 
-      // Handle ORCID callback
-      if (path === `${basePath}/auth/callback/orcid`) {
-        setCurrentPage("orcid-callback");
-      }
-      // Handle CILogon callback
-      else if (path === `${basePath}/auth/callback/cilogon`) {
-        setCurrentPage("cilogon-callback");
+      const callbackPlugin = path.startsWith(basePath)
+        ? findProviderByCallbackPath(path.slice(basePath.length))
+        : null;
+
+      // Handle identity provider callbacks
+      if (callbackPlugin) {
+        setCallbackProvider(callbackPlugin.id);
+        setCurrentPage("callback");
       }
       // Handle login page
       else if (path === `${basePath}/login`) {
-        const provider = searchParams.get("provider") as Provider;
-        if (provider && ["cilogon", "orcid"].includes(provider)) {
+        const provider = searchParams.get("provider");
+        if (isProvider(provider) && getProvider(provider).signIn) {
           setLoginProvider(provider);
         }
         setCurrentPage("login");
@@ -77,17 +101,19 @@ function App() {
         // Redirect token route to dashboard (token management is now a modal)
         setCurrentPage("dashboard");
         window.history.replaceState({}, "", `${basePath}/dashboard`);
-      } else if (path === `${basePath}/dashboard`) {
+      } else if (path === `${basePath}/dashboard` || detailIdFromPath) {
         // Check authentication before allowing dashboard access
         console.log("Dashboard accessed, checking authentication...");
         console.log(
           "Current localStorage session:",
           localStorage.getItem("sdx_user_session")
         );
-        console.log("Available tokens:", {
-          orcid: !!TokenStorage.getToken("orcid"),
-          cilogon: !!TokenStorage.getToken("cilogon"),
-        });
+        console.log(
+          "Available tokens:",
+          Object.fromEntries(
+            listProviders().map(({ id }) => [id, !!TokenStorage.getToken(id)])
+          )
+        );
 
         const isAuth = SessionManager.isAuthenticated();
         const isEmailVerified = SessionManager.isEmailVerified();
@@ -97,7 +123,12 @@ function App() {
         if (isAuth && isEmailVerified) {
           console.log("Dashboard authenticated, setting state");
           setIsAuthenticated(true);
-          setCurrentPage("dashboard");
+          if (detailIdFromPath) {
+            setL2vpnDetailId(detailIdFromPath);
+            setCurrentPage("l2vpn-detail");
+          } else {
+            setCurrentPage("dashboard");
+          }
         } else if (isAuth && !isEmailVerified) {
           console.log(
             "Authenticated but email not verified, redirecting to email validation"
@@ -183,6 +214,34 @@ function App() {
     setCurrentPage(page);
   };
 
+  // Silent refresh failed in the API layer: send the user back through login.
+  // Forms with unsaved work persist themselves and are restored afterwards.
+  useEffect(() => {
+    return onSessionExpired(({ provider }) => {
+      toast.warning(
+        "Your session has expired. Please sign in again; your in-progress work has been kept."
+      );
+      setIsAuthenticated(false);
+      if (provider) {
+        setSelectedProvider(provider);
+        navigateTo("login", provider);
+      } else {
+        navigateTo("landing");
+      }
+    });
+  }, []);
+
+  const handleViewL2VPN = (serviceId: string) => {
+    const basePath = import.meta.env.PROD ? "/multi-provider-authe" : "";
+    window.history.pushState(
+      {},
+      "",
+      `${basePath}/dashboard/l2vpn/${encodeURIComponent(serviceId)}`
+    );
+    setL2vpnDetailId(serviceId);
+    setCurrentPage("l2vpn-detail");
+  };
+
   const handleLogin = (provider: Provider) => {
     setSelectedProvider(provider);
     navigateTo("login", provider);
@@ -272,6 +331,10 @@ function App() {
     }, 100);
   };
 
+  const ProviderCallbackPage = callbackProvider
+    ? CALLBACK_PAGES[callbackProvider]
+    : undefined;
+
   return (
     <div
       className="min-h-screen"
@@ -316,6 +379,17 @@ function App() {
             onBack={handleBackToLanding}
             onNavigateToTokens={handleNavigateToTokens}
             onLogout={handleLogout}
+            onViewL2VPN={handleViewL2VPN}
+          />
+        )}
+
+      {currentPage === "l2vpn-detail" &&
+        l2vpnDetailId &&
+        isAuthenticated &&
+        SessionManager.isEmailVerified() && (
+          <L2VPNDetailPage
+            serviceId={l2vpnDetailId}
+            onBack={() => navigateTo("dashboard")}
           />
         )}
 
@@ -338,21 +412,22 @@ function App() {
         />
       )}
 
-      {currentPage === "orcid-callback" && (
-        <ORCIDCallbackPage
-          onBack={handleBackToLanding}
-          onNavigateToDashboard={handleNavigateToDashboard}
-          onNavigateToEmailValidation={handleNavigateToEmailValidation}
-        />
-      )}
-
-      {currentPage === "cilogon-callback" && (
-        <CILogonCallbackPage
-          onBack={handleBackToLanding}
-          onNavigateToDashboard={handleNavigateToDashboard}
-          onNavigateToEmailValidation={handleNavigateToEmailValidation}
-        />
-      )}
+      {currentPage === "callback" &&
+        callbackProvider &&
+        (ProviderCallbackPage ? (
+          <ProviderCallbackPage
+            onBack={handleBackToLanding}
+            onNavigateToDashboard={handleNavigateToDashboard}
+            onNavigateToEmailValidation={handleNavigateToEmailValidation}
+          />
+        ) : (
+          <OAuthCallbackPage
+            provider={callbackProvider}
+            onBack={handleBackToLanding}
+            onNavigateToDashboard={handleNavigateToDashboard}
+            onNavigateToEmailValidation={handleNavigateToEmailValidation}
+          />
+        ))}
     </div>
   );
 }
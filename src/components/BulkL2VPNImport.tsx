@@ -0,0 +1,360 @@
+import { useState, useRef, useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Upload } from "lucide-react";
+import { L2VPN } from "@/lib/types";
+import { ApiService } from "@/lib/api";
+import { SdxAuthError, getErrorMessage } from "@/lib/api-errors";
+import { getCurrentOwnership } from "@/lib/identity-links";
+import {
+  BulkImportEntry,
+  CSV_COLUMNS,
+  checkBulkImport,
+  detectBulkFormat,
+  parseBulkImport,
+} from "@/lib/l2vpn-bulk";
+
+type RowStatus = "pending" | "submitting" | "created" | "failed" | "skipped";
+
+interface RowResult {
+  status: RowStatus;
+  message?: string;
+}
+
+interface BulkL2VPNImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called once a run has created at least one L2VPN
+  onImported: () => void;
+  availablePorts?: Array<{ id: string; vlan_range?: number[] }>;
+  existingL2VPNs?: L2VPN[];
+}
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  pending: "text-muted-foreground",
+  submitting: "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]",
+  created: "text-green-600 dark:text-green-400",
+  failed: "text-red-600 dark:text-red-400",
+  skipped: "text-amber-600 dark:text-amber-400",
+};
+
+export function BulkL2VPNImport({
+  isOpen,
+  onClose,
+  onImported,
+  availablePorts = [],
+  existingL2VPNs = [],
+}: BulkL2VPNImportProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [entries, setEntries] = useState<BulkImportEntry[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  // L2VPNs as of the dry run; the list reloads after an import
+  const [baseline, setBaseline] = useState<L2VPN[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const stopRequested = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const checks = useMemo(
+    () => checkBulkImport(entries, availablePorts, baseline),
+    [entries, availablePorts, baseline]
+  );
+
+  const submittable = entries.filter(
+    (entry, i) => entry.request && checks[i].errors.length === 0
+  );
+  const finished = Object.values(results).filter(
+    (result) => result.status !== "pending" && result.status !== "submitting"
+  ).length;
+  const hasRun = Object.keys(results).length > 0;
+
+  const reset = () => {
+    setFileName(null);
+    setEntries([]);
+    setParseError(null);
+    setResults({});
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setEntries([]);
+    setParseError(null);
+    setResults({});
+    setBaseline(existingL2VPNs);
+
+    const format = detectBulkFormat(file.name);
+    if (!format) {
+      setParseError("Unsupported file type. Use .json, .yaml, .yml or .csv.");
+      return;
+    }
+
+    try {
+      const parsed = parseBulkImport(await file.text(), format);
+      if (parsed.length === 0) {
+        setParseError("The file does not contain any L2VPN definitions.");
+        return;
+      }
+      setEntries(parsed);
+    } catch (error) {
+      setParseError(getErrorMessage(error));
+    }
+  };
+
+  const updateResult = (index: number, result: RowResult) => {
+    setResults((previous) => ({ ...previous, [index]: result }));
+  };
+
+  const handleSubmit = async () => {
+    let ownership: string;
+    try {
+      ownership = await getCurrentOwnership();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      return;
+    }
+
+    stopRequested.current = false;
+    setIsSubmitting(true);
+    setResults(
+      Object.fromEntries(
+        submittable.map((entry) => [entry.index, { status: "pending" as RowStatus }])
+      )
+    );
+
+    // One at a time, so the per-row results follow what the controller accepted
+    let created = 0;
+    let failed = 0;
+    let stopReason: string | null = null;
+
+    for (const entry of submittable) {
+      if (stopReason || stopRequested.current) {
+        updateResult(entry.index, {
+          status: "skipped",
+          message: stopReason ?? "Stopped by user",
+        });
+        continue;
+      }
+
+      updateResult(entry.index, { status: "submitting" });
+      try {
+        const response = await ApiService.createL2VPN({
+          ...entry.request!,
+          ownership,
+        });
+        created++;
+        updateResult(entry.index, {
+          status: "created",
+          message: response.service_id
+            ? `service_id ${response.service_id}`
+            : response.description ?? response.status,
+        });
+      } catch (error) {
+        failed++;
+        updateResult(entry.index, { status: "failed", message: getErrorMessage(error) });
+        // The session could not be refreshed, so every later row would fail too
+        if (error instanceof SdxAuthError) {
+          stopReason = "Session expired";
+        }
+      }
+    }
+
+    setIsSubmitting(false);
+    if (created > 0) onImported();
+
+    const summary = `${created} created, ${failed} failed`;
+    if (failed > 0 || stopReason) toast.warning(`Import finished: ${summary}`);
+    else toast.success(`Import finished: ${summary}`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[95vh] overflow-y-auto bg-gradient-to-br from-background via-background to-muted/20 border-2 border-[rgb(50,135,200)]/40 dark:border-[rgb(100,180,255)]/40 shadow-2xl backdrop-blur-sm">
+        <DialogHeader className="pb-4 border-b border-[rgb(50,135,200)]/20 dark:border-[rgb(100,180,255)]/20">
+          <DialogTitle className="text-2xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] flex items-center gap-3">
+            <Upload className="w-6 h-6" />
+            <span>Import L2VPNs</span>
+          </DialogTitle>
+          <DialogDescription className="text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] mt-2 text-sm font-medium">
+            JSON or YAML: a list of L2VPN requests (as exported from the list
+            view). CSV: one row per endpoint with columns{" "}
+            <span className="font-mono">{CSV_COLUMNS.join(", ")}</span>; rows
+            sharing a group (or, without one, a name) form one L2VPN. Nothing is created until you confirm
+            the dry run below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.yaml,.yml,.csv"
+              disabled={isSubmitting}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+              className="text-sm text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-2 file:border-[rgb(120,176,219)] file:bg-transparent file:text-[rgb(50,135,200)] dark:file:text-[rgb(100,180,255)] file:font-medium"
+            />
+            {fileName && entries.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {entries.length} definition(s), {submittable.length} ready to submit
+              </span>
+            )}
+          </div>
+
+          {parseError && (
+            <div className="p-3 rounded-lg border-2 border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20 text-sm text-red-800 dark:text-red-200">
+              <span className="font-semibold">Could not read {fileName}:</span>{" "}
+              {parseError}
+            </div>
+          )}
+
+          {hasRun && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+                <span>Progress</span>
+                <span>
+                  {finished} / {Object.keys(results).length}
+                </span>
+              </div>
+              <Progress value={(finished / Object.keys(results).length) * 100} />
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <div className="rounded-md border border-[rgb(200,220,240)] dark:border-blue-500/20 max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Endpoints</TableHead>
+                    <TableHead>Dry run</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry, i) => {
+                    const check = checks[i];
+                    const result = results[entry.index];
+                    return (
+                      <TableRow key={entry.index} className="align-top">
+                        <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                          {entry.source}
+                        </TableCell>
+                        <TableCell className="text-sm font-medium">
+                          {entry.request?.name ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono break-all whitespace-normal">
+                          {entry.request?.endpoints.map((endpoint, epIdx) => (
+                            <div key={epIdx}>
+                              {endpoint.port_id} ({endpoint.vlan})
+                            </div>
+                          )) ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-normal">
+                          {check.errors.length === 0 ? (
+                            <span className="text-green-600 dark:text-green-400 font-medium">
+                              ✓ Valid
+                            </span>
+                          ) : (
+                            check.errors.map((error) => (
+                              <div key={error} className="text-red-600 dark:text-red-400">
+                                {error}
+                              </div>
+                            ))
+                          )}
+                          {check.warnings.map((warning) => (
+                            <div key={warning} className="text-amber-600 dark:text-amber-400">
+                              {warning}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-normal">
+                          {result ? (
+                            <div className={STATUS_STYLES[result.status]}>
+                              <span className="font-semibold capitalize">{result.status}</span>
+                              {result.message && <div>{result.message}</div>}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">
+                              {check.errors.length > 0 ? "Will be skipped" : "—"}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-3 pt-4 border-t-2 border-[rgb(200,220,240)] dark:border-blue-500/20">
+          {isSubmitting ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                stopRequested.current = true;
+              }}
+              className="border-2 border-red-300 dark:border-red-500/50 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 font-medium"
+            >
+              Stop after current
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              className="border-2 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20 font-medium"
+            >
+              {hasRun ? "Close" : "Cancel"}
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting || hasRun || submittable.length === 0}
+            className="bg-[rgb(50,135,200)] hover:bg-[rgb(64,143,204)] dark:bg-[rgb(100,180,255)] dark:hover:bg-[rgb(120,200,255)] text-white px-6 shadow-lg font-semibold disabled:opacity-50"
+          >
+            {isSubmitting ? (
+              <span className="flex items-center gap-2">
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                Creating...
+              </span>
+            ) : (
+              `Create ${submittable.length} L2VPN${submittable.length === 1 ? "" : "s"}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
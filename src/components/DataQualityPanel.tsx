@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { downloadTextFile } from "@/lib/utils";
+import {
+  QUALITY_CHECKS,
+  QualityCheck,
+  QualityReport,
+} from "@/lib/topology-quality";
+
+interface DataQualityPanelProps {
+  report: QualityReport;
+}
+
+// Issues listed per check before "Show all"
+const ISSUES_SHOWN = 20;
+
+/**
+ * Issues found in the topology, grouped by check, with a JSON export for
+ * the OXP operators who maintain the topology descriptions
+ */
+export function DataQualityPanel({ report }: DataQualityPanelProps) {
+  const [expanded, setExpanded] = useState<QualityCheck | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const errorCount = report.issues.filter(
+    (issue) => issue.severity === "error"
+  ).length;
+  const warningCount = report.issues.length - errorCount;
+
+  const groups = (Object.keys(QUALITY_CHECKS) as QualityCheck[])
+    .map((check) => ({
+      check,
+      issues: report.issues.filter((issue) => issue.check === check),
+    }))
+    .filter((group) => group.issues.length > 0);
+
+  const handleExport = () => {
+    const date = report.generated_at.slice(0, 10);
+    downloadTextFile(
+      JSON.stringify(report, null, 2),
+      `topology-quality-${date}.json`,
+      "application/json"
+    );
+  };
+
+  const toggle = (check: QualityCheck) => {
+    setExpanded(expanded === check ? null : check);
+    setShowAll(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm">
+          {report.issues.length === 0 ? (
+            <span className="text-green-700 dark:text-green-400">
+              No issues found
+            </span>
+          ) : (
+            <>
+              <span className="text-red-700 dark:text-red-400">
+                {errorCount} error{errorCount !== 1 ? "s" : ""}
+              </span>
+              {" · "}
+              <span className="text-amber-700 dark:text-amber-300">
+                {warningCount} warning{warningCount !== 1 ? "s" : ""}
+              </span>
+            </>
+          )}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          className="h-7 px-2 text-xs border-[rgb(120,176,219)] text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]"
+        >
+          <Download className="w-3.5 h-3.5 mr-1" />
+          Export JSON
+        </Button>
+      </div>
+
+      <ul className="space-y-2">
+        {groups.map(({ check, issues }) => {
+          const { label, severity } = QUALITY_CHECKS[check];
+          const isOpen = expanded === check;
+          const shown = showAll ? issues : issues.slice(0, ISSUES_SHOWN);
+          return (
+            <li
+              key={check}
+              className="rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20"
+            >
+              <button
+                onClick={() => toggle(check)}
+                className="w-full flex items-center gap-2 p-3 text-left text-sm"
+              >
+                {isOpen ? (
+                  <ChevronDown className="w-4 h-4 shrink-0" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 shrink-0" />
+                )}
+                <span className="flex-1 font-medium">{label}</span>
+                <span
+                  className={`px-2 py-0.5 rounded-md text-xs font-semibold ${
+                    severity === "error"
+                      ? "bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300"
+                      : "bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300"
+                  }`}
+                >
+                  {issues.length}
+                </span>
+              </button>
+              {isOpen && (
+                <div className="px-3 pb-3 space-y-2">
+                  <ul className="space-y-1.5">
+                    {shown.map((issue, index) => (
+                      <li
+                        key={`${issue.subject}|${index}`}
+                        className="text-xs border-t border-border pt-1.5"
+                      >
+                        <div>{issue.message}</div>
+                        <div className="text-muted-foreground break-all">
+                          {issue.subject}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  {issues.length > ISSUES_SHOWN && (
+                    <button
+                      onClick={() => setShowAll(!showAll)}
+                      className="text-xs font-medium text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:underline"
+                    >
+                      {showAll ? "Show fewer" : `Show all ${issues.length}`}
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <p className="text-xs text-muted-foreground">
+        Checked {report.counts.nodes} nodes, {report.counts.ports} ports and{" "}
+        {report.counts.links} links
+        {report.topology_version
+          ? ` of topology version ${report.topology_version}`
+          : ""}
+        .
+      </p>
+    </div>
+  );
+}
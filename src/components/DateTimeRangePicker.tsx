@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { DateRange } from "react-day-picker";
+import { CalendarDays } from "lucide-react";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  TimeZoneMode,
+  combineDateTime,
+  formatScheduleTime,
+  parseScheduleTime,
+  splitDateTime,
+  toSdxTimestamp,
+} from "@/lib/scheduling";
+
+interface DateTimeRangePickerProps {
+  // UTC ISO-8601 strings, "" when unset
+  startTime: string;
+  endTime: string;
+  onChange: (startTime: string, endTime: string) => void;
+  mode: TimeZoneMode;
+  onModeChange: (mode: TimeZoneMode) => void;
+}
+
+const DEFAULT_START_CLOCK = "00:00";
+const DEFAULT_END_CLOCK = "23:59";
+
+// Next quarter hour from now, as an HH:mm clock in the given mode
+function nextQuarterHour(mode: TimeZoneMode): string {
+  const next = new Date(Math.ceil(Date.now() / (15 * 60 * 1000)) * 15 * 60 * 1000);
+  return splitDateTime(next, mode).time;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+export function DateTimeRangePicker({
+  startTime,
+  endTime,
+  onChange,
+  mode,
+  onModeChange,
+}: DateTimeRangePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const start = parseScheduleTime(startTime);
+  const end = parseScheduleTime(endTime);
+  const startParts = start ? splitDateTime(start, mode) : null;
+  const endParts = end ? splitDateTime(end, mode) : null;
+
+  // Clocks entered before a day is picked
+  const [startClock, setStartClock] = useState(DEFAULT_START_CLOCK);
+  const [endClock, setEndClock] = useState(DEFAULT_END_CLOCK);
+
+  const today = splitDateTime(new Date(), mode).day;
+
+  const emit = (startDay?: Date, startAt?: string, endDay?: Date, endAt?: string) => {
+    onChange(
+      startDay && startAt
+        ? toSdxTimestamp(combineDateTime(startDay, startAt, mode))
+        : "",
+      endDay && endAt ? toSdxTimestamp(combineDateTime(endDay, endAt, mode)) : ""
+    );
+  };
+
+  const handleRangeSelect = (range: DateRange | undefined) => {
+    let clock = startParts?.time ?? startClock;
+    // A start "today" at a clock that has already passed would be rejected
+    if (range?.from && isSameDay(range.from, today) && !startParts) {
+      clock = nextQuarterHour(mode);
+      setStartClock(clock);
+    }
+    emit(range?.from, clock, range?.to, endParts?.time ?? endClock);
+  };
+
+  const handleStartClock = (clock: string) => {
+    setStartClock(clock);
+    if (startParts) emit(startParts.day, clock, endParts?.day, endParts?.time);
+  };
+
+  const handleEndClock = (clock: string) => {
+    setEndClock(clock);
+    if (endParts) emit(startParts?.day, startParts?.time, endParts.day, clock);
+  };
+
+  const summary =
+    start || end
+      ? `${start ? formatScheduleTime(start, mode) : "Now"} → ${
+          end ? formatScheduleTime(end, mode) : "Until deleted"
+        }`
+      : "Starts immediately, no end date";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full justify-start gap-2 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] bg-white dark:bg-gray-800 text-left font-normal text-base"
+        >
+          <CalendarDays className="w-4 h-4 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]" />
+          <span className="truncate">{summary}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <div className="flex items-center justify-between gap-2 px-3 pt-3">
+          <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+            Times in
+          </span>
+          <div className="flex rounded-md border border-[rgb(200,220,240)] dark:border-blue-500/30 overflow-hidden">
+            {(["local", "utc"] as TimeZoneMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onModeChange(option)}
+                className={`px-3 py-1 text-xs font-medium ${
+                  mode === option
+                    ? "bg-[rgb(50,135,200)] text-white"
+                    : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                }`}
+              >
+                {option === "utc"
+                  ? "UTC"
+                  : `Local (${Intl.DateTimeFormat().resolvedOptions().timeZone})`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={{ from: startParts?.day, to: endParts?.day }}
+          onSelect={handleRangeSelect}
+          disabled={{ before: today }}
+          defaultMonth={startParts?.day ?? today}
+        />
+
+        <div className="grid grid-cols-2 gap-3 px-3 pb-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Start time</Label>
+            <Input
+              type="time"
+              value={startParts?.time ?? startClock}
+              onChange={(e) => handleStartClock(e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">End time</Label>
+            <Input
+              type="time"
+              value={endParts?.time ?? endClock}
+              onChange={(e) => handleEndClock(e.target.value)}
+              className="h-8"
+            />
+          </div>
+        </div>
+
+        <div className="border-t border-[rgb(200,220,240)] dark:border-blue-500/20 px-3 py-2 space-y-2">
+          <p className="text-xs font-mono text-muted-foreground">
+            Sent as {startTime || "(now)"} → {endTime || "(no end)"}
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange("", "")}
+              disabled={!start && !end}
+            >
+              Clear
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => setOpen(false)}
+              className="bg-[rgb(50,135,200)] hover:bg-[rgb(64,143,204)] text-white"
+            >
+              Done
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
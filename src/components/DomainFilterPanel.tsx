@@ -0,0 +1,128 @@
+import { Button } from "@/components/ui/button";
+import { DomainSummary } from "@/lib/topology-domains";
+
+interface DomainFilterPanelProps {
+  // Domains discovered in the current topology
+  domains: DomainSummary[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+/**
+ * Toggle which OXP domains are drawn on the map. At least one domain stays
+ * selected: an empty selection would mean "no filter" to the processor.
+ */
+export function DomainFilterPanel({
+  domains,
+  selected,
+  onChange,
+}: DomainFilterPanelProps) {
+  const discovered = new Set(domains.map((summary) => summary.domain));
+  const missing = selected.filter((domain) => !discovered.has(domain));
+  const visibleCount = selected.length - missing.length;
+
+  const toggle = (domain: string) => {
+    if (selected.includes(domain)) {
+      if (selected.length === 1) return;
+      onChange(selected.filter((entry) => entry !== domain));
+    } else {
+      onChange([...selected, domain]);
+    }
+  };
+
+  if (domains.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Load the topology to see which domains it contains.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+          {visibleCount} of {domains.length} shown
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(domains.map((summary) => summary.domain))}
+          className="h-7 px-2 text-xs text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]"
+        >
+          Select all
+        </Button>
+      </div>
+
+      {visibleCount === 0 && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">
+          None of the selected domains are in the current topology, so the
+          map is empty.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {domains.map((summary) => {
+          const checked = selected.includes(summary.domain);
+          return (
+            <li key={summary.domain}>
+              <label
+                className={`flex items-center gap-3 p-3 rounded-xl border-2 cursor-pointer transition-all duration-200 ${
+                  checked
+                    ? "border-[rgb(120,176,219)] dark:border-blue-400/50 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5"
+                    : "border-[rgb(200,220,240)] dark:border-blue-500/20 opacity-70"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => toggle(summary.domain)}
+                  disabled={checked && selected.length === 1}
+                  className="accent-[rgb(50,135,200)]"
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-medium truncate">
+                    {summary.domain}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {summary.node_count} node
+                    {summary.node_count !== 1 ? "s" : ""} ·{" "}
+                    {summary.port_count} ports · {summary.link_count} link
+                    {summary.link_count !== 1 ? "s" : ""}
+                  </div>
+                </div>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+
+      {missing.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Selected but not in the current topology:
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {missing.map((domain) => (
+              <button
+                key={domain}
+                type="button"
+                onClick={() => toggle(domain)}
+                disabled={selected.length === 1}
+                className="px-2 py-0.5 rounded-md text-xs border border-[rgb(200,220,240)] dark:border-blue-500/30 text-muted-foreground hover:bg-muted disabled:opacity-50"
+                title="Remove from selection"
+              >
+                {domain} ×
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Links are drawn when both ends are in a shown domain. The selection
+        is saved and included in the page URL.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { L2VPN } from "@/lib/types";
+import {
+  ScheduleState,
+  TimeZoneMode,
+  formatScheduleTime,
+  scheduleState,
+  scheduleWindow,
+  splitDateTime,
+} from "@/lib/scheduling";
+
+interface L2VPNScheduleCalendarProps {
+  l2vpns: L2VPN[];
+  onViewL2VPN?: (serviceId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_OPTIONS = [7, 30, 90];
+
+const STATE_STYLES: Record<ScheduleState, { bar: string; label: string }> = {
+  scheduled: { bar: "bg-[rgb(50,135,200)]", label: "Scheduled" },
+  active: { bar: "bg-green-600", label: "Active" },
+  expired: { bar: "bg-gray-400 dark:bg-gray-500", label: "Expired" },
+};
+
+function startOfDay(date: Date, mode: TimeZoneMode): Date {
+  if (mode === "utc") {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    );
+  }
+  return splitDateTime(date, "local").day;
+}
+
+function formatTick(date: Date, mode: TimeZoneMode): string {
+  const { day } = splitDateTime(date, mode);
+  return day.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/**
+ * Timeline of the user's L2VPNs: one row per connection, a bar for the
+ * window it is (or was) provisioned in, and a marker for the current time
+ */
+export function L2VPNScheduleCalendar({
+  l2vpns,
+  onViewL2VPN,
+}: L2VPNScheduleCalendarProps) {
+  const [mode, setMode] = useState<TimeZoneMode>("local");
+  const [rangeDays, setRangeDays] = useState(30);
+  // Offset of the view from its default position, in days
+  const [offsetDays, setOffsetDays] = useState(0);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The current time sits a quarter of the way in, so upcoming work dominates
+  const viewStart = useMemo(() => {
+    const anchor = startOfDay(now, mode).getTime();
+    return anchor - Math.floor(rangeDays / 4) * DAY_MS + offsetDays * DAY_MS;
+  }, [now, mode, rangeDays, offsetDays]);
+  const viewEnd = viewStart + rangeDays * DAY_MS;
+
+  const rows = useMemo(
+    () =>
+      l2vpns
+        .map((l2vpn) => ({
+          l2vpn,
+          window: scheduleWindow(l2vpn),
+          state: scheduleState(l2vpn, now),
+        }))
+        .filter(({ window }) => {
+          const start = window.start?.getTime() ?? -Infinity;
+          const end = window.end?.getTime() ?? Infinity;
+          return start < viewEnd && end > viewStart;
+        })
+        .sort(
+          (a, b) =>
+            (a.window.start?.getTime() ?? 0) - (b.window.start?.getTime() ?? 0)
+        ),
+    [l2vpns, now, viewStart, viewEnd]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<ScheduleState, number> = {
+      scheduled: 0,
+      active: 0,
+      expired: 0,
+    };
+    l2vpns.forEach((l2vpn) => result[scheduleState(l2vpn, now)]++);
+    return result;
+  }, [l2vpns, now]);
+
+  const tickStep = Math.max(1, Math.ceil(rangeDays / 8));
+  const ticks = Array.from(
+    { length: Math.floor(rangeDays / tickStep) + 1 },
+    (_, i) => viewStart + i * tickStep * DAY_MS
+  );
+
+  const toPercent = (time: number) =>
+    Math.min(100, Math.max(0, ((time - viewStart) / (viewEnd - viewStart)) * 100));
+  const nowPercent = toPercent(now.getTime());
+  const nowVisible = now.getTime() >= viewStart && now.getTime() <= viewEnd;
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setOffsetDays((days) => days - Math.ceil(rangeDays / 2))}
+          className="h-8 px-2"
+          title="Earlier"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setOffsetDays(0)}
+          className="h-8 px-3 text-xs"
+        >
+          Today
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setOffsetDays((days) => days + Math.ceil(rangeDays / 2))}
+          className="h-8 px-2"
+          title="Later"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <div className="flex rounded-md border border-[rgb(200,220,240)] dark:border-blue-500/30 overflow-hidden ml-2">
+          {RANGE_OPTIONS.map((days) => (
+            <button
+              key={days}
+              type="button"
+              onClick={() => setRangeDays(days)}
+              className={`px-3 py-1 text-xs font-medium ${
+                rangeDays === days
+                  ? "bg-[rgb(50,135,200)] text-white"
+                  : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+              }`}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+        <div className="flex rounded-md border border-[rgb(200,220,240)] dark:border-blue-500/30 overflow-hidden ml-auto">
+          {(["local", "utc"] as TimeZoneMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 text-xs font-medium ${
+                mode === option
+                  ? "bg-[rgb(50,135,200)] text-white"
+                  : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+              }`}
+            >
+              {option === "utc" ? "UTC" : "Local"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 text-xs">
+        {(Object.keys(STATE_STYLES) as ScheduleState[]).map((state) => (
+          <span key={state} className="flex items-center gap-1.5">
+            <span className={`inline-block w-3 h-3 rounded-sm ${STATE_STYLES[state].bar}`} />
+            <span className="text-muted-foreground">
+              {STATE_STYLES[state].label} ({counts[state]})
+            </span>
+          </span>
+        ))}
+      </div>
+
+      {/* Timeline */}
+      <div className="rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 p-3">
+        <div className="flex">
+          <div className="w-40 shrink-0" />
+          <div className="relative flex-1 h-5">
+            {ticks.map((tick) => (
+              <span
+                key={tick}
+                className="absolute -translate-x-1/2 text-[10px] text-muted-foreground whitespace-nowrap"
+                style={{ left: `${toPercent(tick)}%` }}
+              >
+                {formatTick(new Date(tick), mode)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No L2VPNs in this period.
+          </p>
+        ) : (
+          <div className="divide-y divide-[rgb(200,220,240)]/60 dark:divide-blue-500/10">
+            {rows.map(({ l2vpn, window, state }) => {
+              const left = window.start ? toPercent(window.start.getTime()) : 0;
+              const right = window.end ? toPercent(window.end.getTime()) : 100;
+              const title = `${l2vpn.name || l2vpn.service_id}\n${formatScheduleTime(
+                window.start,
+                mode
+              )} → ${window.end ? formatScheduleTime(window.end, mode) : "until deleted"}`;
+
+              return (
+                <div key={l2vpn.service_id} className="flex items-center py-1.5">
+                  <button
+                    type="button"
+                    onClick={() => onViewL2VPN?.(l2vpn.service_id)}
+                    disabled={!onViewL2VPN}
+                    className="w-40 shrink-0 pr-2 text-left text-xs font-medium text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] truncate enabled:hover:underline"
+                    title={l2vpn.service_id}
+                  >
+                    {l2vpn.name || l2vpn.service_id}
+                  </button>
+                  <div className="relative flex-1 h-5">
+                    {ticks.map((tick) => (
+                      <span
+                        key={tick}
+                        className="absolute top-0 bottom-0 w-px bg-[rgb(200,220,240)]/70 dark:bg-blue-500/10"
+                        style={{ left: `${toPercent(tick)}%` }}
+                      />
+                    ))}
+                    <div
+                      className={`absolute top-1 bottom-1 rounded ${STATE_STYLES[state].bar} ${
+                        window.end ? "" : "rounded-r-none opacity-80"
+                      }`}
+                      style={{
+                        left: `${left}%`,
+                        width: `${Math.max(right - left, 0.5)}%`,
+                      }}
+                      title={title}
+                    />
+                    {nowVisible && (
+                      <span
+                        className="absolute top-0 bottom-0 w-0.5 bg-red-500"
+                        style={{ left: `${nowPercent}%` }}
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        L2VPNs without a scheduled start are shown from their creation date;
+        open-ended bars run until the L2VPN is deleted. The red line marks{" "}
+        {formatScheduleTime(now, mode)}.
+      </p>
+    </div>
+  );
+}
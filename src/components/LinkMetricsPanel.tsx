@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { TopologyLink } from "@/lib/types";
+import {
+  LinkMetricSample,
+  formatMetric,
+  getLinkMetrics,
+  getUtilization,
+} from "@/lib/link-metrics";
+import { listLinkMetrics } from "@/lib/topology-history";
+
+interface LinkMetricsPanelProps {
+  link: TopologyLink;
+}
+
+const chartConfig = {
+  utilization: { label: "Utilization (%)", color: "rgb(50,135,200)" },
+  latency: { label: "Latency", color: "#a855f7" },
+  packet_loss: { label: "Packet loss", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+function formatTick(capturedAt: number): string {
+  return new Date(capturedAt).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Utilization, latency and packet loss of one link over the recorded
+ * topology history, with its current values on top
+ */
+export function LinkMetricsPanel({ link }: LinkMetricsPanelProps) {
+  const [samples, setSamples] = useState<LinkMetricSample[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    listLinkMetrics(link.id)
+      .then((result) => !cancelled && setSamples(result))
+      .catch((error) => {
+        console.warn("Link metrics history is unavailable:", error);
+        if (!cancelled) setSamples([]);
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [link.id]);
+
+  const current = getLinkMetrics(link);
+  const currentUtilization = getUtilization(current);
+
+  const data = useMemo(
+    () =>
+      samples.map((sample) => ({
+        captured_at: sample.captured_at,
+        utilization: getUtilization(sample),
+        latency: sample.latency,
+        packet_loss: sample.packet_loss,
+      })),
+    [samples]
+  );
+
+  const tiles = [
+    {
+      label: "Utilization",
+      value: formatMetric(currentUtilization, "%"),
+      detail: `${formatMetric(current.residual_bandwidth)} of ${formatMetric(
+        current.bandwidth
+      )} free`,
+    },
+    { label: "Latency", value: formatMetric(current.latency) },
+    { label: "Packet loss", value: formatMetric(current.packet_loss) },
+    { label: "Availability", value: formatMetric(current.availability) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {tiles.map((tile) => (
+          <div
+            key={tile.label}
+            className="p-3 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20"
+          >
+            <div className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+              {tile.label}
+            </div>
+            <div className="text-xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
+              {tile.value}
+            </div>
+            {tile.detail && (
+              <div className="text-xs text-muted-foreground">{tile.detail}</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading metrics history...</p>
+      ) : data.length < 2 ? (
+        <p className="text-sm text-muted-foreground">
+          Charts appear once this link has been seen in at least two topology
+          snapshots ({data.length} so far).
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Utilization
+            </div>
+            <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+              <AreaChart data={data} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="captured_at"
+                  tickFormatter={formatTick}
+                  tickLine={false}
+                  minTickGap={24}
+                />
+                <YAxis domain={[0, 100]} width={32} tickLine={false} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        new Date(payload[0]?.payload.captured_at).toLocaleString()
+                      }
+                    />
+                  }
+                />
+                <Area
+                  dataKey="utilization"
+                  type="stepAfter"
+                  stroke="var(--color-utilization)"
+                  fill="var(--color-utilization)"
+                  fillOpacity={0.25}
+                  connectNulls
+                />
+              </AreaChart>
+            </ChartContainer>
+          </div>
+          {(["latency", "packet_loss"] as const).map((key) => (
+            <div key={key} className="space-y-1">
+              <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                {chartConfig[key].label}
+              </div>
+              <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+                <LineChart data={data} margin={{ left: 0, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="captured_at"
+                    tickFormatter={formatTick}
+                    tickLine={false}
+                    minTickGap={24}
+                  />
+                  <YAxis width={32} tickLine={false} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) =>
+                          new Date(payload[0]?.payload.captured_at).toLocaleString()
+                        }
+                      />
+                    }
+                  />
+                  <Line
+                    dataKey={key}
+                    type="stepAfter"
+                    stroke={`var(--color-${key})`}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TopologyLink } from "@/lib/types";
+import {
+  LinkMetrics,
+  formatMetric,
+  getLinkMetrics,
+  getUtilization,
+} from "@/lib/link-metrics";
+
+interface LinkRankingsProps {
+  links: TopologyLink[];
+}
+
+type Ranking = "congested" | "unavailable";
+type SortKey = "utilization" | "latency" | "packet_loss" | "availability";
+
+interface RankedLink extends LinkMetrics {
+  link: TopologyLink;
+  utilization: number | null;
+}
+
+interface SortOrder {
+  key: SortKey;
+  descending: boolean;
+}
+
+const RANKINGS: Record<Ranking, SortOrder & { label: string }> = {
+  congested: { label: "Top congested", key: "utilization", descending: true },
+  unavailable: {
+    label: "Least available",
+    key: "availability",
+    descending: false,
+  },
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "utilization", label: "Utilization" },
+  { key: "latency", label: "Latency" },
+  { key: "packet_loss", label: "Packet loss" },
+  { key: "availability", label: "Availability" },
+];
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * Links ranked by congestion or availability. Links without the metric are
+ * left out of a ranking; any column can be clicked to re-sort.
+ */
+export function LinkRankings({ links }: LinkRankingsProps) {
+  const [ranking, setRanking] = useState<Ranking>("congested");
+  const [sort, setSort] = useState<SortOrder>(RANKINGS.congested);
+  const [showAll, setShowAll] = useState(false);
+
+  const ranked = useMemo(() => {
+    const rows: RankedLink[] = links.map((link) => {
+      const metrics = getLinkMetrics(link);
+      return { link, ...metrics, utilization: getUtilization(metrics) };
+    });
+    const rankingKey = RANKINGS[ranking].key;
+
+    return rows
+      .filter((row) => row[rankingKey] !== null)
+      .sort((a, b) => {
+        const left = a[sort.key];
+        const right = b[sort.key];
+        // Unknown values sort last in either direction
+        if (left === null) return right === null ? 0 : 1;
+        if (right === null) return -1;
+        return sort.descending ? right - left : left - right;
+      });
+  }, [links, ranking, sort]);
+
+  const visible = showAll ? ranked : ranked.slice(0, DEFAULT_LIMIT);
+
+  const selectRanking = (next: Ranking) => {
+    setRanking(next);
+    setSort(RANKINGS[next]);
+    setShowAll(false);
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => ({
+      key,
+      descending: current.key === key ? !current.descending : true,
+    }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex rounded-md border border-[rgb(200,220,240)] dark:border-blue-500/30 overflow-hidden w-fit">
+        {(Object.keys(RANKINGS) as Ranking[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => selectRanking(option)}
+            className={`px-3 py-1 text-xs font-medium ${
+              ranking === option
+                ? "bg-[rgb(50,135,200)] text-white"
+                : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+            }`}
+          >
+            {RANKINGS[option].label}
+          </button>
+        ))}
+      </div>
+
+      {ranked.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No link reports {ranking === "congested" ? "bandwidth" : "availability"}{" "}
+          figures.
+        </p>
+      ) : (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="text-xs">Link</TableHead>
+                {COLUMNS.map((column) => (
+                  <TableHead key={column.key} className="text-xs text-right">
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.key)}
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                    >
+                      {column.label}
+                      {sort.key === column.key &&
+                        (sort.descending ? (
+                          <ArrowDown className="w-3 h-3" />
+                        ) : (
+                          <ArrowUp className="w-3 h-3" />
+                        ))}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((row) => (
+                <TableRow key={row.link.id}>
+                  <TableCell
+                    className="text-xs font-medium max-w-[10rem] truncate"
+                    title={row.link.id}
+                  >
+                    {row.link.name || row.link.id}
+                  </TableCell>
+                  <TableCell
+                    className="text-xs text-right"
+                    title={`${formatMetric(row.residual_bandwidth)} of ${formatMetric(row.bandwidth)} free`}
+                  >
+                    {formatMetric(row.utilization, "%")}
+                  </TableCell>
+                  <TableCell className="text-xs text-right">
+                    {formatMetric(row.latency)}
+                  </TableCell>
+                  <TableCell className="text-xs text-right">
+                    {formatMetric(row.packet_loss)}
+                  </TableCell>
+                  <TableCell className="text-xs text-right">
+                    {formatMetric(row.availability)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {ranked.length > DEFAULT_LIMIT && (
+        <button
+          type="button"
+          onClick={() => setShowAll((value) => !value)}
+          className="text-xs font-medium text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:underline"
+        >
+          {showAll ? "Show top 10" : `Show all ${ranked.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Link2, Loader2, Unlink, UserCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Provider } from "@/lib/types";
+import { TokenStorage, calculateOwnership } from "@/lib/token-storage";
+import { IdentityLinks, LinkedIdentity } from "@/lib/identity-links";
+import { getErrorMessage } from "@/lib/api-errors";
+import {
+  IdentityProviderPlugin,
+  listProviders,
+} from "@/lib/providers/registry";
+
+interface LinkedIdentitiesProps {
+  // Called after an identity was linked, unlinked or made acting
+  onChange?: () => void;
+}
+
+/**
+ * The identities linked to this profile, one per sign-in provider, which of
+ * them acts for API calls, and the ownership hash the profile keeps
+ */
+export function LinkedIdentities({ onChange }: LinkedIdentitiesProps) {
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [acting, setActing] = useState<Provider | null>(null);
+  const [ownerSub, setOwnerSub] = useState<string | null>(null);
+  const [ownership, setOwnership] = useState<string | null>(null);
+  const [linking, setLinking] = useState<Provider | null>(null);
+
+  const load = () => {
+    setIdentities(IdentityLinks.getIdentities());
+    setActing(IdentityLinks.getActingIdentity()?.provider ?? null);
+    setOwnerSub(IdentityLinks.getOwnerSub());
+  };
+
+  useEffect(load, []);
+
+  useEffect(() => {
+    if (!ownerSub) {
+      setOwnership(null);
+      return;
+    }
+    let cancelled = false;
+    calculateOwnership(ownerSub).then((hash) => {
+      if (!cancelled) setOwnership(hash);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [ownerSub]);
+
+  const changed = () => {
+    load();
+    onChange?.();
+  };
+
+  const handleLink = async (plugin: IdentityProviderPlugin) => {
+    const { id: provider, label } = plugin;
+    setLinking(provider);
+    IdentityLinks.beginLink(provider);
+    try {
+      await plugin.startPopup!();
+      IdentityLinks.link(provider);
+      toast.success(`${label} identity linked`);
+      changed();
+    } catch (error) {
+      IdentityLinks.cancelLink();
+      toast.error(`Linking ${label} failed: ${getErrorMessage(error)}`);
+    } finally {
+      setLinking(null);
+    }
+  };
+
+  const handleUnlink = (provider: Provider, label: string) => {
+    try {
+      IdentityLinks.unlink(provider);
+      toast.success(`${label} identity unlinked`);
+      changed();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleAct = (provider: Provider, label: string) => {
+    IdentityLinks.setActingProvider(provider);
+    toast.success(`Now acting as your ${label} identity`);
+    changed();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="w-5 h-5" />
+          Linked Identities
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The acting identity authenticates API calls. Your L2VPNs stay owned
+          by the identity this profile started with, whichever linked provider
+          you sign in with.
+        </p>
+        {ownerSub && (
+          <p className="text-xs text-muted-foreground">
+            Ownership:{" "}
+            <span className="font-mono">{ownership ?? "…"}</span>
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {listProviders().map((plugin) => {
+          const { id: provider, label } = plugin;
+          const identity = identities.find(
+            (candidate) => candidate.provider === provider
+          );
+          const isActing = acting === provider;
+          const token = TokenStorage.getToken(provider);
+          const signedIn = !!token && TokenStorage.isTokenValid(token);
+
+          return (
+            <div
+              key={provider}
+              className={`p-3 rounded-lg border space-y-2 ${
+                isActing
+                  ? "border-[rgb(50,135,200)] bg-[rgb(236,244,250)] dark:border-[rgb(100,180,255)] dark:bg-blue-500/10"
+                  : ""
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-medium">{label}</div>
+                {isActing ? (
+                  <Badge className="text-xs bg-[rgb(50,135,200)] dark:bg-[rgb(100,180,255)] text-white">
+                    Acting
+                  </Badge>
+                ) : identity ? (
+                  <Badge variant="secondary" className="text-xs">
+                    Linked
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="text-xs">
+                    Not linked
+                  </Badge>
+                )}
+              </div>
+
+              {identity && (
+                <div className="text-sm space-y-0.5">
+                  {(identity.name || identity.email) && (
+                    <div>
+                      {[identity.name, identity.email]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground break-all">
+                    {identity.sub}
+                  </div>
+                  {identity.sub === ownerSub && (
+                    <div className="text-xs text-muted-foreground">
+                      Owns your L2VPNs
+                    </div>
+                  )}
+                  {!signedIn && (
+                    <div className="text-xs text-amber-700 dark:text-amber-300">
+                      {isActing
+                        ? "Not signed in; sign in again with any linked identity before making API calls"
+                        : "Not signed in"}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {identity && !isActing && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleAct(provider, label)}
+                    className="h-8"
+                  >
+                    <UserCheck className="w-3 h-3 mr-1" />
+                    Act as {label}
+                  </Button>
+                )}
+                {(!identity || !signedIn) && plugin.startPopup && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleLink(plugin)}
+                    disabled={linking !== null}
+                    className="h-8"
+                  >
+                    {linking === provider ? (
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    ) : (
+                      <Link2 className="w-3 h-3 mr-1" />
+                    )}
+                    {identity ? "Sign in again" : `Link ${label}`}
+                  </Button>
+                )}
+                {identity && identities.length > 1 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleUnlink(provider, label)}
+                    className="h-8 text-red-600 dark:text-red-400"
+                  >
+                    <Unlink className="w-3 h-3 mr-1" />
+                    Unlink
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
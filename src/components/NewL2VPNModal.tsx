@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { useForm, useFieldArray, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -22,12 +22,51 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { Trash2, Plus, ChevronDown, ChevronUp } from "lucide-react";
+import { Trash2, Plus, ChevronDown, ChevronUp, Save } from "lucide-react";
+import { L2VPN, L2VPNEndpoint, L2VPNRequest } from "@/lib/types";
+import {
+  PENDING_L2VPN_FORM_KEY,
+  loadPendingForm,
+  savePendingForm,
+} from "@/lib/form-persistence";
+import { onSessionExpired } from "@/lib/token-refresh";
+import { getCurrentOwnership } from "@/lib/identity-links";
+import {
+  L2VPNDraft,
+  L2VPNTemplate,
+  clearDraft,
+  deleteTemplate,
+  listTemplates,
+  loadDraft,
+  saveDraft,
+  saveTemplate,
+} from "@/lib/l2vpn-templates";
+import { ProcessedTopology } from "@/lib/topology-processor";
+import { findL2VPNPath } from "@/lib/path-finder";
+import {
+  TimeZoneMode,
+  toSdxTimestamp,
+  validateSchedule,
+} from "@/lib/scheduling";
+import { DateTimeRangePicker } from "@/components/DateTimeRangePicker";
+import { isSdxUrn, toPortUrn, toShortId } from "@/lib/sdx-urn";
+import {
+  checkEndpointVlan,
+  collectVlanUsage,
+  findVlanConflicts,
+  formatVlanRanges,
+  freeVlans,
+} from "@/lib/vlan-allocation";
 
 // Zod schema for form validation
 const endpointSchema = z
   .object({
-    port_id: z.string().min(1, "Port ID is required"),
+    port_id: z
+      .string()
+      .min(1, "Port ID is required")
+      .refine((value) => isSdxUrn(value, "port"), {
+        message: "Select a port from the list or enter its full port ID",
+      }),
     vlan_type: z.enum(["any", "number", "untagged", "VLAN range", "all"]),
     vlan_value: z.string().optional(),
   })
@@ -44,48 +83,101 @@ const endpointSchema = z
     }
   );
 
-const l2vpnSchema = z.object({
-  name: z
-    .string()
-    .min(1, "Connection name is required")
-    .max(50, "Name must be 50 characters or less"),
-  endpoints: z
-    .array(endpointSchema)
-    .min(2, "At least 2 endpoints are required"),
-  description: z
-    .string()
-    .max(255, "Description must be 255 characters or less")
-    .optional(),
-  start_time: z.string().optional(),
-  end_time: z.string().optional(),
-  min_bw: z.number().min(0).max(100).optional(),
-  min_bw_strict: z.boolean().optional(),
-  max_delay: z.number().min(0).max(1000).optional(),
-  max_delay_strict: z.boolean().optional(),
-  max_number_oxps: z.number().min(0).max(100).optional(),
-  max_number_oxps_strict: z.boolean().optional(),
-  notifications: z
-    .array(
-      z.object({
-        email: z.string().email("Invalid email address"),
-      })
-    )
-    .max(10, "Maximum 10 notification emails allowed")
-    .optional(),
-});
+const l2vpnSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Connection name is required")
+      .max(50, "Name must be 50 characters or less"),
+    endpoints: z
+      .array(endpointSchema)
+      .min(2, "At least 2 endpoints are required"),
+    description: z
+      .string()
+      .max(255, "Description must be 255 characters or less")
+      .optional(),
+    start_time: z.string().optional(),
+    end_time: z.string().optional(),
+    min_bw: z.number().min(0).max(100).optional(),
+    min_bw_strict: z.boolean().optional(),
+    max_delay: z.number().min(0).max(1000).optional(),
+    max_delay_strict: z.boolean().optional(),
+    max_number_oxps: z.number().min(0).max(100).optional(),
+    max_number_oxps_strict: z.boolean().optional(),
+    notifications: z
+      .array(
+        z.object({
+          email: z.string().email("Invalid email address"),
+        })
+      )
+      .max(10, "Maximum 10 notification emails allowed")
+      .optional(),
+  })
+  .superRefine((data, ctx) => {
+    const scheduleErrors = validateSchedule(data.start_time, data.end_time);
+    for (const [field, message] of Object.entries(scheduleErrors)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+    }
+  });
 
 type L2VPNFormData = z.infer<typeof l2vpnSchema>;
 
+// The name and schedule are specific to one request, so templates leave them out
+type L2VPNTemplateValues = Omit<L2VPNFormData, "name" | "start_time" | "end_time">;
+
+const DEFAULT_FORM_VALUES: L2VPNFormData = {
+  name: "",
+  endpoints: [
+    { port_id: "", vlan_type: "any", vlan_value: "" },
+    { port_id: "", vlan_type: "any", vlan_value: "" },
+  ],
+  description: "",
+  start_time: "",
+  end_time: "",
+  min_bw_strict: false,
+  max_delay_strict: false,
+  max_number_oxps_strict: false,
+  notifications: [],
+};
+
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+// Cleared number inputs hold NaN; drop them so stored values validate again
+function toStoredValues<T>(values: T): T {
+  return JSON.parse(
+    JSON.stringify(values, (_, value) =>
+      typeof value === "number" && isNaN(value) ? undefined : value
+    )
+  );
+}
+
+function isPristine(values: unknown): boolean {
+  return (
+    JSON.stringify(toStoredValues(values)) ===
+    JSON.stringify(DEFAULT_FORM_VALUES)
+  );
+}
+
+// VLAN as sent to the SDX API for a form endpoint
+function toVlanSpec(ep: L2VPNFormData["endpoints"][number]): string {
+  return ep.vlan_type === "number" || ep.vlan_type === "VLAN range"
+    ? ep.vlan_value || ""
+    : ep.vlan_type;
+}
+
 interface NewL2VPNModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (l2vpnData: any) => void;
+  onConfirm: (l2vpnData: L2VPNRequest) => void;
   availablePorts?: Array<{
     id: string;
     entities: string[];
     vlan_range?: number[];
   }>;
   inline?: boolean; // If true, renders inline without Dialog wrapper
+  topology?: ProcessedTopology | null; // Enables the path pre-check
+  existingL2VPNs?: L2VPN[]; // VLANs they hold are treated as taken
+  initialPortId?: string; // Pre-fills the first endpoint, e.g. from the port inventory
 }
 
 export function NewL2VPNModal({
@@ -94,6 +186,9 @@ export function NewL2VPNModal({
   onConfirm,
   availablePorts = [],
   inline = false,
+  topology = null,
+  existingL2VPNs = [],
+  initialPortId,
 }: NewL2VPNModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -112,26 +207,26 @@ export function NewL2VPNModal({
     handleSubmit,
     watch,
     setValue,
+    getValues,
     reset,
     formState: { errors },
   } = useForm<L2VPNFormData>({
     resolver: zodResolver(l2vpnSchema),
-    defaultValues: {
-      name: "",
-      endpoints: [
-        { port_id: "", vlan_type: "any", vlan_value: "" },
-        { port_id: "", vlan_type: "any", vlan_value: "" },
-      ],
-      description: "",
-      start_time: "",
-      end_time: "",
-      min_bw_strict: false,
-      max_delay_strict: false,
-      max_number_oxps_strict: false,
-      notifications: [],
-    },
+    defaultValues: DEFAULT_FORM_VALUES,
   });
 
+  // Templates and drafts are stored per user identity
+  const [ownership, setOwnership] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<
+    L2VPNTemplate<L2VPNTemplateValues>[]
+  >([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [draftOffer, setDraftOffer] = useState<L2VPNDraft<L2VPNFormData> | null>(
+    null
+  );
+  const restoredPendingForm = useRef(false);
+
   const {
     fields: endpointFields,
     append: appendEndpoint,
@@ -151,6 +246,75 @@ export function NewL2VPNModal({
   });
 
   const watchedEndpoints = watch("endpoints");
+  const [startTime, endTime] = watch(["start_time", "end_time"]);
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>("local");
+  const [
+    minBw,
+    minBwStrict,
+    maxDelay,
+    maxDelayStrict,
+    maxOxps,
+    maxOxpsStrict,
+  ] = watch([
+    "min_bw",
+    "min_bw_strict",
+    "max_delay",
+    "max_delay_strict",
+    "max_number_oxps",
+    "max_number_oxps_strict",
+  ]);
+
+  // Anticipate the controller's answer from the topology we already have
+  const selectedPortIds = watchedEndpoints.map((ep) => ep.port_id);
+  const pathCheckKey = JSON.stringify([
+    selectedPortIds,
+    minBw,
+    minBwStrict,
+    maxDelay,
+    maxDelayStrict,
+    maxOxps,
+    maxOxpsStrict,
+  ]);
+  const pathCheck = useMemo(() => {
+    if (!topology || selectedPortIds.some((portId) => !portId)) return null;
+    return findL2VPNPath(topology, selectedPortIds, {
+      ...(minBw !== undefined && {
+        min_bw: { value: minBw, strict: !!minBwStrict },
+      }),
+      ...(maxDelay !== undefined && {
+        max_delay: { value: maxDelay, strict: !!maxDelayStrict },
+      }),
+      ...(maxOxps !== undefined && {
+        max_number_oxps: { value: maxOxps, strict: !!maxOxpsStrict },
+      }),
+    });
+  }, [topology, pathCheckKey]);
+
+  // VLAN validation against the port's range and the user's existing L2VPNs
+  const vlanUsage = useMemo(
+    () => collectVlanUsage(existingL2VPNs),
+    [existingL2VPNs]
+  );
+  const endpointSpecs: L2VPNEndpoint[] = watchedEndpoints.map((ep) => ({
+    port_id: ep.port_id,
+    vlan: toVlanSpec(ep),
+  }));
+  const vlanChecks = endpointSpecs.map((endpoint) => {
+    const port = availablePorts.find((p) => p.id === endpoint.port_id);
+    // Leave empty values to the schema's "required" message
+    if (!port || !endpoint.vlan) return null;
+    return checkEndpointVlan(
+      endpoint,
+      port.vlan_range,
+      vlanUsage.get(endpoint.port_id)
+    );
+  });
+  const vlanConflicts = findVlanConflicts(endpointSpecs);
+  const vlanIssues = endpointSpecs.map(
+    (_, index) =>
+      vlanChecks[index]?.error ??
+      vlanConflicts.find((conflict) => conflict.index === index)?.message
+  );
 
   // Filter ports based on search term matching entities
   const getMatchingPorts = (searchTerm: string) => {
@@ -179,8 +343,7 @@ export function NewL2VPNModal({
 
   // Handle port selection from dropdown
   const handlePortSelect = (index: number, portId: string) => {
-    const shortPortId = portId.replace("urn:sdx:port:", "");
-    setSearchTerms((prev) => ({ ...prev, [index]: shortPortId }));
+    setSearchTerms((prev) => ({ ...prev, [index]: toShortId(portId) }));
     setValue(`endpoints.${index}.port_id`, portId);
     setShowDropdown((prev) => ({ ...prev, [index]: false }));
   };
@@ -201,29 +364,161 @@ export function NewL2VPNModal({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  // Replace the whole form, keeping the port search boxes in sync
+  const applyFormValues = (values: L2VPNFormData) => {
+    reset({ ...DEFAULT_FORM_VALUES, ...values });
+    setSearchTerms(
+      Object.fromEntries(
+        values.endpoints.map((ep, index) => [
+          index,
+          toShortId(ep.port_id),
+        ])
+      )
+    );
+  };
+
+  // Restore a form that was interrupted by an expired session
+  useEffect(() => {
+    const pending = loadPendingForm<L2VPNFormData>(PENDING_L2VPN_FORM_KEY);
+    if (!pending) return;
+
+    restoredPendingForm.current = true;
+    applyFormValues(pending);
+    toast.info("Restored your unsaved L2VPN request");
+  }, []);
+
+  // Start from a port picked elsewhere
+  useEffect(() => {
+    if (!isOpen || !initialPortId) return;
+    handlePortSelect(0, initialPortId);
+  }, [isOpen, initialPortId]);
+
+  // Load the user's templates and offer to resume their last draft
+  useEffect(() => {
+    let cancelled = false;
+
+    getCurrentOwnership()
+      .then((hash) => {
+        if (cancelled) return;
+        setOwnership(hash);
+        setTemplates(listTemplates<L2VPNTemplateValues>(hash));
+
+        const draft = loadDraft<L2VPNFormData>(hash);
+        if (draft && !restoredPendingForm.current && !isPristine(draft.values)) {
+          setDraftOffer(draft);
+        }
+      })
+      .catch((error) => {
+        console.warn("L2VPN templates unavailable:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Auto-save the draft; paused while an older draft is still on offer
+  useEffect(() => {
+    if (!ownership || draftOffer) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const subscription = watch((values) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (isPristine(values)) clearDraft(ownership);
+        else saveDraft(ownership, toStoredValues(values));
+      }, DRAFT_SAVE_DELAY_MS);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      subscription.unsubscribe();
+    };
+  }, [ownership, draftOffer, watch]);
+
+  const handleResumeDraft = () => {
+    if (!draftOffer) return;
+    applyFormValues(draftOffer.values);
+    setDraftOffer(null);
+    toast.info("Draft restored");
+  };
+
+  const handleDiscardDraft = () => {
+    if (ownership) clearDraft(ownership);
+    setDraftOffer(null);
+  };
+
+  const handleApplyTemplate = (id: string) => {
+    const template = templates.find((entry) => entry.id === id);
+    if (!template) return;
+
+    setSelectedTemplateId(id);
+    const { name, start_time, end_time } = getValues();
+    applyFormValues({ ...template.values, name, start_time, end_time });
+    toast.info(`Template "${template.name}" applied`);
+  };
+
+  const handleSaveTemplate = () => {
+    if (!ownership || templateName === null) return;
+
+    const { name: _name, start_time: _start, end_time: _end, ...values } =
+      getValues();
+    try {
+      const template = saveTemplate(ownership, templateName, toStoredValues(values));
+      setTemplates(listTemplates<L2VPNTemplateValues>(ownership));
+      setSelectedTemplateId(template.id);
+      setTemplateName(null);
+      toast.success(`Template "${template.name}" saved`);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!ownership || !selectedTemplateId) return;
+
+    const template = templates.find((entry) => entry.id === selectedTemplateId);
+    deleteTemplate(ownership, selectedTemplateId);
+    setTemplates(listTemplates<L2VPNTemplateValues>(ownership));
+    setSelectedTemplateId("");
+    if (template) toast.success(`Template "${template.name}" deleted`);
+  };
+
+  // Keep unsubmitted input if the session expires while editing
+  useEffect(() => {
+    return onSessionExpired(() => {
+      savePendingForm(PENDING_L2VPN_FORM_KEY, getValues());
+    });
+  }, [getValues]);
+
   const onSubmit = async (data: L2VPNFormData) => {
+    const vlanProblems = data.endpoints.flatMap((_, index) =>
+      vlanIssues[index] ? [`Endpoint ${index + 1}: ${vlanIssues[index]}`] : []
+    );
+    if (vlanProblems.length > 0) {
+      toast.error(`Fix VLAN conflicts first:\n${vlanProblems.join("\n")}`);
+      return;
+    }
+
     setIsLoading(true);
 
     try {
       // Transform data to match backend API format
-      const transformedData = {
+      const transformedData: L2VPNRequest = {
         name: data.name,
         endpoints: data.endpoints.map((ep) => ({
           port_id: ep.port_id,
-          vlan:
-            ep.vlan_type === "number" || ep.vlan_type === "VLAN range"
-              ? ep.vlan_value
-              : ep.vlan_type,
+          vlan: toVlanSpec(ep),
         })),
         ...(data.description && { description: data.description }),
         ...(data.start_time || data.end_time
           ? {
               scheduling: {
                 ...(data.start_time && {
-                  start_time: new Date(data.start_time).toISOString(),
+                  start_time: toSdxTimestamp(data.start_time),
                 }),
                 ...(data.end_time && {
-                  end_time: new Date(data.end_time).toISOString(),
+                  end_time: toSdxTimestamp(data.end_time),
                 }),
               },
             }
@@ -265,6 +560,10 @@ export function NewL2VPNModal({
       // Simulate API call - replace with actual API integration
       await new Promise((resolve) => setTimeout(resolve, 1500));
 
+      // Kept until the parent confirms the request was accepted, so a
+      // forced re-login does not lose it
+      savePendingForm(PENDING_L2VPN_FORM_KEY, data);
+      if (ownership) clearDraft(ownership);
       onConfirm(transformedData);
       toast.success(`L2VPN "${data.name}" request submitted successfully!`);
 
@@ -280,11 +579,14 @@ export function NewL2VPNModal({
 
   const getVlanRangeForPort = (portId: string) => {
     const port = availablePorts.find((p) => p.id === portId);
-    return port?.vlan_range?.join(", ") || "N/A";
+    if (!port) return "N/A";
+    return formatVlanRanges(freeVlans(port.vlan_range, vlanUsage.get(portId)));
   };
 
   const handleReset = () => {
-    reset();
+    reset(DEFAULT_FORM_VALUES);
+    setSearchTerms({});
+    setSelectedTemplateId("");
   };
 
   const formContent = (
@@ -303,6 +605,138 @@ export function NewL2VPNModal({
       )}
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {/* Saved Draft */}
+        {draftOffer && (
+          <div className="flex flex-wrap items-center gap-3 p-4 rounded-xl border-2 border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10">
+            <span className="text-sm font-medium text-amber-800 dark:text-amber-200">
+              📝 You have an unsaved draft
+              {draftOffer.values.name ? ` "${draftOffer.values.name}"` : ""} from{" "}
+              {new Date(draftOffer.saved_at).toLocaleString()}
+            </span>
+            <div className="ml-auto flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                onClick={handleResumeDraft}
+                className="bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                Resume
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleDiscardDraft}
+                className="border-amber-300 text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-500/20"
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Templates */}
+        {ownership && (
+          <div className="space-y-2 p-4 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20">
+            <Label className="text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] font-semibold text-sm">
+              Templates
+            </Label>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={selectedTemplateId}
+                onValueChange={handleApplyTemplate}
+                disabled={templates.length === 0}
+              >
+                <SelectTrigger className="flex-1 min-w-[200px] border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] bg-white dark:bg-gray-800">
+                  <SelectValue
+                    placeholder={
+                      templates.length === 0
+                        ? "No saved templates yet"
+                        : "Start from a template..."
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent className="bg-white dark:bg-gray-800 border-2 border-[rgb(50,135,200)] dark:border-[rgb(100,180,255)] shadow-lg">
+                  {templates.map((template) => (
+                    <SelectItem
+                      key={template.id}
+                      value={template.id}
+                      className="hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                    >
+                      {template.name} ({template.values.endpoints.length} endpoints)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplateId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDeleteTemplate}
+                  className="border-red-300 dark:border-red-500/50 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10"
+                  title="Delete the selected template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+              {templateName === null ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setTemplateName(
+                      templates.find((entry) => entry.id === selectedTemplateId)
+                        ?.name ?? ""
+                    )
+                  }
+                  className="border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                  title="Save endpoints, QoS and notifications for reuse"
+                >
+                  <Save className="w-4 h-4 mr-1" />
+                  Save as template
+                </Button>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Input
+                    autoFocus
+                    value={templateName}
+                    placeholder="Template name"
+                    onChange={(e) => setTemplateName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleSaveTemplate();
+                      } else if (e.key === "Escape") {
+                        setTemplateName(null);
+                      }
+                    }}
+                    className="h-8 w-48 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] bg-white dark:bg-gray-800"
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={handleSaveTemplate}
+                    disabled={!templateName.trim()}
+                    className="bg-[rgb(50,135,200)] hover:bg-[rgb(64,143,204)] text-white"
+                  >
+                    Save
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setTemplateName(null)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Connection Name */}
         <div className="space-y-2 p-5 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 shadow-sm hover:shadow-md transition-all duration-200">
           <Label
@@ -398,7 +832,11 @@ export function NewL2VPNModal({
                               value={searchTerms[index] || ""}
                               onChange={(e) => {
                                 handleSearchChange(index, e.target.value);
-                                field.onChange(e.target.value);
+                                // A typed short or full port ID still submits
+                                // the full URN
+                                field.onChange(
+                                  toPortUrn(e.target.value) ?? e.target.value
+                                );
                               }}
                               onFocus={() => {
                                 const filtered = getMatchingPorts(
@@ -429,10 +867,7 @@ export function NewL2VPNModal({
                                     (
                                       filteredPorts[index] || availablePorts
                                     ).map((port) => {
-                                      const shortPortId = port.id.replace(
-                                        "urn:sdx:port:",
-                                        ""
-                                      );
+                                      const shortPortId = toShortId(port.id);
                                       const entitiesText = port.entities
                                         ? port.entities.join(", ")
                                         : "No entities";
@@ -540,7 +975,7 @@ export function NewL2VPNModal({
                     <Input
                       placeholder={
                         portId
-                          ? `Available VLANs: ${getVlanRangeForPort(portId)}`
+                          ? `Free VLANs: ${getVlanRangeForPort(portId)}`
                           : vlanType === "number"
                           ? "Enter VLAN ID"
                           : "Enter VLAN Range"
@@ -556,6 +991,40 @@ export function NewL2VPNModal({
                     )}
                   </div>
                 )}
+
+                {/* VLAN availability and cross-endpoint conflicts */}
+                {vlanIssues[index] && (
+                  <div className="space-y-2 text-sm">
+                    <p className="text-red-500 dark:text-red-400 font-medium flex items-center gap-1">
+                      <span>⚠️</span> {vlanIssues[index]}
+                    </p>
+                    {vlanChecks[index]?.suggestions.length ? (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          Free:
+                        </span>
+                        {vlanChecks[index]!.suggestions.map((suggestion) => (
+                          <Button
+                            key={suggestion}
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              setValue(
+                                `endpoints.${index}.vlan_value`,
+                                suggestion,
+                                { shouldValidate: true }
+                              )
+                            }
+                            className="h-7 px-2 text-xs border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                          >
+                            {suggestion}
+                          </Button>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -578,30 +1047,31 @@ export function NewL2VPNModal({
           )}
         </div>
 
-        {/* Start and End Time */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="space-y-2 p-5 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 shadow-sm hover:shadow-md transition-all duration-200">
-            <Label className="text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] font-semibold text-sm">
-              Start Time (optional)
-            </Label>
-            <Input
-              type="date"
-              {...register("start_time")}
-              min={new Date().toISOString().split("T")[0]}
-              className="border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] focus:border-[rgb(50,135,200)] dark:focus:border-[rgb(100,180,255)] focus:ring-2 focus:ring-[rgb(50,135,200)]/30 dark:focus:ring-[rgb(100,180,255)]/30 bg-white dark:bg-gray-800 transition-all text-base"
-            />
-          </div>
-          <div className="space-y-2 p-5 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 shadow-sm hover:shadow-md transition-all duration-200">
-            <Label className="text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] font-semibold text-sm">
-              End Time (optional)
-            </Label>
-            <Input
-              type="date"
-              {...register("end_time")}
-              min={new Date().toISOString().split("T")[0]}
-              className="border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] focus:border-[rgb(50,135,200)] dark:focus:border-[rgb(100,180,255)] focus:ring-2 focus:ring-[rgb(50,135,200)]/30 dark:focus:ring-[rgb(100,180,255)]/30 bg-white dark:bg-gray-800 transition-all text-base"
-            />
-          </div>
+        {/* Scheduling */}
+        <div className="space-y-2 p-5 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 shadow-sm hover:shadow-md transition-all duration-200">
+          <Label className="text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] font-semibold text-sm">
+            Schedule (optional)
+          </Label>
+          <DateTimeRangePicker
+            startTime={startTime ?? ""}
+            endTime={endTime ?? ""}
+            onChange={(start, end) => {
+              setValue("start_time", start, { shouldValidate: true });
+              setValue("end_time", end, { shouldValidate: true });
+            }}
+            mode={timeZoneMode}
+            onModeChange={setTimeZoneMode}
+          />
+          <p className="text-xs text-muted-foreground">
+            Leave empty to provision immediately and keep the L2VPN until it
+            is deleted. Times are sent to the SDX controller in UTC.
+          </p>
+          {(errors.start_time || errors.end_time) && (
+            <p className="text-red-500 dark:text-red-400 text-sm font-medium mt-1 flex items-center gap-1">
+              <span>⚠️</span>{" "}
+              {errors.start_time?.message ?? errors.end_time?.message}
+            </p>
+          )}
         </div>
 
         {/* Advanced Options Toggle */}
@@ -751,6 +1221,80 @@ export function NewL2VPNModal({
           </div>
         )}
 
+        {/* Path pre-check */}
+        {pathCheck && (
+          <div
+            className={`space-y-3 p-5 rounded-xl border-2 shadow-md ${
+              pathCheck.feasible
+                ? "bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 border-[rgb(200,220,240)] dark:border-blue-500/20"
+                : "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800"
+            }`}
+          >
+            <h3 className="font-bold text-[rgb(50,135,200)] dark:text-[rgb(150,200,255)] text-base">
+              {pathCheck.feasible ? "Candidate Path" : "Request Looks Infeasible"}
+            </h3>
+
+            {pathCheck.feasible ? (
+              <>
+                <div className="grid grid-cols-3 gap-3 text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Estimated delay</div>
+                    <div className="font-semibold">
+                      {pathCheck.estimated_delay_ms?.toFixed(1)} ms
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Bottleneck bandwidth</div>
+                    <div className="font-semibold">
+                      {pathCheck.bottleneck_bw !== null
+                        ? `${pathCheck.bottleneck_bw} Gbps`
+                        : "Unknown"}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">OXPs</div>
+                    <div className="font-semibold">{pathCheck.domains.length}</div>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground break-all">
+                  {pathCheck.domains.join(" → ")}
+                </p>
+                {pathCheck.hops.length > 0 && (
+                  <ol className="space-y-1 text-xs font-mono">
+                    {pathCheck.hops.map((hop, index) => (
+                      <li key={`${hop.link_id}-${index}`} className="break-all">
+                        {index + 1}. {hop.link_id}
+                        <span className="text-muted-foreground">
+                          {hop.latency !== undefined && ` · ${hop.latency} ms`}
+                          {hop.residual_bandwidth !== undefined &&
+                            ` · ${hop.residual_bandwidth} Gbps free`}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            ) : (
+              <ul className="list-disc pl-5 space-y-1 text-sm text-red-800 dark:text-red-200">
+                {pathCheck.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+
+            {pathCheck.warnings.length > 0 && (
+              <ul className="list-disc pl-5 space-y-1 text-xs text-amber-700 dark:text-amber-300">
+                {pathCheck.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Computed from the current topology; the SDX controller makes the final decision.
+            </p>
+          </div>
+        )}
+
         {inline ? (
           <div className="flex gap-3 pt-6 border-t-2 border-[rgb(200,220,240)] dark:border-blue-500/20 mt-6">
             <Button
@@ -0,0 +1,382 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { L2VPN, TopologyResponse } from "@/lib/types";
+import { buildPortInventory, InventoryPort } from "@/lib/port-inventory";
+import { formatVlanRanges } from "@/lib/vlan-allocation";
+import { toShortId } from "@/lib/sdx-urn";
+
+interface PortInventoryProps {
+  topology: TopologyResponse;
+  l2vpns: L2VPN[];
+  onStartL2VPN: (portId: string) => void;
+  onSelectL2VPN?: (l2vpn: L2VPN) => void;
+}
+
+type SortKey = "name" | "node" | "free_vlans" | "utilization" | "l2vpns";
+type VlanFilter = "all" | "available" | "exhausted";
+
+const SORT_OPTIONS: Record<SortKey, string> = {
+  name: "Port",
+  node: "Node",
+  free_vlans: "Free VLANs",
+  utilization: "VLAN utilization",
+  l2vpns: "L2VPNs",
+};
+
+const ALL = "all";
+const PAGE_SIZE = 25;
+
+type Comparator = (a: InventoryPort, b: InventoryPort) => number;
+
+const COMPARATORS: Record<SortKey, Comparator> = {
+  name: (a, b) => toShortId(a.id).localeCompare(toShortId(b.id)),
+  node: (a, b) =>
+    a.node_name.localeCompare(b.node_name) || a.name.localeCompare(b.name),
+  free_vlans: (a, b) => a.free_vlan_count - b.free_vlan_count,
+  utilization: (a, b) => a.vlan_utilization - b.vlan_utilization,
+  l2vpns: (a, b) => a.l2vpns.length - b.l2vpns.length,
+};
+
+const distinct = (values: (string | null | undefined)[]) =>
+  [...new Set(values.filter((value): value is string => !!value))].sort();
+
+function FilterSelect({
+  value,
+  onChange,
+  label,
+  options,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  label: string;
+  options: { value: string; label: string }[];
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 text-xs border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] bg-white dark:bg-gray-800">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-white dark:bg-gray-800 border-2 border-[rgb(50,135,200)] dark:border-[rgb(100,180,255)] shadow-lg">
+        <SelectItem value={ALL} className="text-xs">
+          {label}
+        </SelectItem>
+        {options.map((option) => (
+          <SelectItem
+            key={option.value}
+            value={option.value}
+            className="text-xs hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+          >
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Every port of the topology, filterable and sortable, with the user's
+ * L2VPNs on each and a shortcut to request a new one from it
+ */
+export function PortInventory({
+  topology,
+  l2vpns,
+  onStartL2VPN,
+  onSelectL2VPN,
+}: PortInventoryProps) {
+  const [search, setSearch] = useState("");
+  const [domain, setDomain] = useState(ALL);
+  const [node, setNode] = useState(ALL);
+  const [status, setStatus] = useState(ALL);
+  const [state, setState] = useState(ALL);
+  const [type, setType] = useState(ALL);
+  const [vlans, setVlans] = useState<VlanFilter>("all");
+  const [sortKey, setSortKey] = useState<SortKey>("name");
+  const [descending, setDescending] = useState(false);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const ports = useMemo(
+    () => buildPortInventory(topology, l2vpns),
+    [topology, l2vpns]
+  );
+
+  const domains = useMemo(
+    () => distinct(ports.map((port) => port.domain)),
+    [ports]
+  );
+  const nodes = useMemo(() => {
+    const names = new Map<string, string>();
+    ports
+      .filter((port) => domain === ALL || port.domain === domain)
+      .forEach((port) => names.set(port.node_id, port.node_name));
+    return [...names.entries()]
+      .map(([value, label]) => ({ value, label }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [ports, domain]);
+  const statuses = useMemo(
+    () => distinct(ports.map((port) => port.status)),
+    [ports]
+  );
+  const states = useMemo(
+    () => distinct(ports.map((port) => port.state)),
+    [ports]
+  );
+  const types = useMemo(
+    () => distinct(ports.map((port) => port.type)),
+    [ports]
+  );
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return ports
+      .filter(
+        (port) =>
+          (domain === ALL || port.domain === domain) &&
+          (node === ALL || port.node_id === node) &&
+          (status === ALL || port.status === status) &&
+          (state === ALL || port.state === state) &&
+          (type === ALL || port.type === type) &&
+          (vlans === "all" ||
+            (vlans === "available"
+              ? port.free_vlan_count > 0
+              : port.free_vlan_count === 0)) &&
+          (!term ||
+            `${port.id} ${port.name} ${port.node_name}`
+              .toLowerCase()
+              .includes(term))
+      )
+      .sort((a, b) =>
+        descending ? COMPARATORS[sortKey](b, a) : COMPARATORS[sortKey](a, b)
+      );
+  }, [
+    ports,
+    search,
+    domain,
+    node,
+    status,
+    state,
+    type,
+    vlans,
+    sortKey,
+    descending,
+  ]);
+
+  const selectDomain = (value: string) => {
+    setDomain(value);
+    setNode(ALL);
+  };
+
+  const toOptions = (values: string[]) =>
+    values.map((value) => ({ value, label: value }));
+
+  return (
+    <div className="space-y-3">
+      <Input
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder="Search ports and nodes..."
+        className="h-8 text-sm border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)]"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <FilterSelect
+          value={domain}
+          onChange={selectDomain}
+          label="All domains"
+          options={toOptions(domains)}
+        />
+        <FilterSelect
+          value={node}
+          onChange={setNode}
+          label="All nodes"
+          options={nodes}
+        />
+        <FilterSelect
+          value={status}
+          onChange={setStatus}
+          label="Any status"
+          options={toOptions(statuses)}
+        />
+        <FilterSelect
+          value={state}
+          onChange={setState}
+          label="Any state"
+          options={toOptions(states)}
+        />
+        <FilterSelect
+          value={type}
+          onChange={setType}
+          label="Any type"
+          options={toOptions(types)}
+        />
+        <FilterSelect
+          value={vlans}
+          onChange={(value) => setVlans(value as VlanFilter)}
+          label="Any VLANs"
+          options={[
+            { value: "available", label: "VLANs free" },
+            { value: "exhausted", label: "No VLANs free" },
+          ]}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+          {filtered.length} of {ports.length} ports
+        </span>
+        <div className="flex items-center gap-1">
+          <Select
+            value={sortKey}
+            onValueChange={(value) => setSortKey(value as SortKey)}
+          >
+            <SelectTrigger className="h-7 w-36 text-xs border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] bg-white dark:bg-gray-800">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white dark:bg-gray-800 border-2 border-[rgb(50,135,200)] dark:border-[rgb(100,180,255)] shadow-lg">
+              {(Object.keys(SORT_OPTIONS) as SortKey[]).map((key) => (
+                <SelectItem key={key} value={key} className="text-xs">
+                  Sort by {SORT_OPTIONS[key].toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDescending(!descending)}
+            className="h-7 w-7 p-0 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]"
+            title={descending ? "Descending" : "Ascending"}
+          >
+            {descending ? (
+              <ArrowDown className="w-3.5 h-3.5" />
+            ) : (
+              <ArrowUp className="w-3.5 h-3.5" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No port matches these filters.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {filtered.slice(0, limit).map((port) => (
+            <li
+              key={port.id}
+              className="p-3 space-y-2 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div
+                    className="text-sm font-medium truncate"
+                    title={port.id}
+                  >
+                    {port.name}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {port.node_name}
+                    {port.domain ? ` · ${port.domain}` : ""}
+                  </div>
+                </div>
+                <span
+                  className={`shrink-0 px-2 py-0.5 rounded-md text-xs font-semibold ${
+                    port.down
+                      ? "bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300"
+                      : "bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300"
+                  }`}
+                  title={`status ${port.status ?? "unknown"}, state ${port.state ?? "unknown"}`}
+                >
+                  {port.status ?? "unknown"}
+                  {port.state && port.state !== "enabled"
+                    ? ` / ${port.state}`
+                    : ""}
+                </span>
+              </div>
+
+              <div className="text-xs space-y-1">
+                <div className="flex justify-between gap-2">
+                  <span className="text-muted-foreground">Free VLANs</span>
+                  <span
+                    className="truncate text-right"
+                    title={formatVlanRanges(port.free_vlans)}
+                  >
+                    {formatVlanRanges(port.free_vlans)}
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={`h-full ${
+                      port.vlan_utilization >= 90
+                        ? "bg-red-500"
+                        : port.vlan_utilization >= 60
+                        ? "bg-amber-500"
+                        : "bg-[rgb(50,135,200)]"
+                    }`}
+                    style={{ width: `${port.vlan_utilization}%` }}
+                    title={`${Math.round(port.vlan_utilization)}% of VLANs used by your L2VPNs`}
+                  />
+                </div>
+                {port.type && (
+                  <div className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">Type</span>
+                    <span>{port.type}</span>
+                  </div>
+                )}
+              </div>
+
+              {port.l2vpns.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {port.l2vpns.map((l2vpn) => (
+                    <button
+                      key={l2vpn.service_id}
+                      type="button"
+                      onClick={() => onSelectL2VPN?.(l2vpn)}
+                      disabled={!onSelectL2VPN}
+                      className="max-w-full truncate px-2 py-0.5 rounded-md text-xs border border-[rgb(200,220,240)] dark:border-blue-500/30 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                      title={`Show ${l2vpn.service_id} on the map`}
+                    >
+                      {l2vpn.name || l2vpn.service_id}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onStartL2VPN(port.id)}
+                disabled={port.down || port.free_vlan_count === 0}
+                className="w-full h-7 text-xs border-[rgb(120,176,219)] text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]"
+              >
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                Start L2VPN here
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {filtered.length > limit && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setLimit(limit + PAGE_SIZE)}
+          className="w-full h-8 text-xs text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]"
+        >
+          Show {Math.min(PAGE_SIZE, filtered.length - limit)} more
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { X, RefreshCw, AlertTriangle } from "lucide-react";
 import { TokenStorage } from "@/lib/token-storage";
 import { TokenData, Provider } from "@/lib/types";
 import { useTokenRefresh } from "@/hooks/useTokenRefresh";
+import { getProvider, listProviders } from "@/lib/providers/registry";
 
 interface TokenExpiryNotificationProps {
   warningMinutes?: number;
@@ -24,7 +25,7 @@ export function TokenExpiryNotification({
 
   useEffect(() => {
     const checkTokens = () => {
-      const providers: Provider[] = ["cilogon", "orcid"];
+      const providers = listProviders().map(({ id }) => id);
       const expiring: Array<{
         provider: Provider;
         token: TokenData;
@@ -95,7 +96,7 @@ export function TokenExpiryNotification({
             <div className="flex items-center gap-3 flex-wrap">
               <span className="text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] font-medium text-sm">
                 <strong className="font-bold text-base text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
-                  {provider.toUpperCase()}
+                  {getProvider(provider).label}
                 </strong>{" "}
                 token expires in{" "}
                 <span className="font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
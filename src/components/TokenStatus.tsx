@@ -12,6 +12,7 @@ import {
 import { TokenStorage } from "@/lib/token-storage";
 import { TokenData, Provider } from "@/lib/types";
 import { useTokenRefresh } from "@/hooks/useTokenRefresh";
+import { getProvider, listProviders } from "@/lib/providers/registry";
 
 interface TokenStatusProps {
   providers?: Provider[];
@@ -20,7 +21,7 @@ interface TokenStatusProps {
 }
 
 export function TokenStatus({
-  providers = ["cilogon", "orcid"],
+  providers = listProviders().map(({ id }) => id),
   showRefreshButtons = true,
   compact = false,
 }: TokenStatusProps) {
@@ -114,7 +115,7 @@ export function TokenStatus({
               className={`${statusInfo.bgColor} ${statusInfo.color} border-current`}
             >
               <Icon className="w-3 h-3 mr-1" />
-              {provider === provider.toUpperCase()}: {statusInfo.message}
+              {getProvider(provider).label}: {statusInfo.message}
               {token && (
                 <span className="ml-1 text-xs">
                   ({TokenStorage.formatTimeUntilExpiry(token)})
@@ -157,7 +158,7 @@ export function TokenStatus({
               <div className="flex items-center gap-3">
                 <Icon className={`w-5 h-5 ${statusInfo.color}`} />
                 <div>
-                  <div className="font-medium">{provider.toUpperCase()}</div>
+                  <div className="font-medium">{getProvider(provider).label}</div>
                   <div className={`text-sm ${statusInfo.color}`}>
                     {statusInfo.message}
                   </div>
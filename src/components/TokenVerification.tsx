@@ -0,0 +1,127 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RefreshCw, ShieldAlert, ShieldCheck } from "lucide-react";
+import { TokenData } from "@/lib/types";
+import {
+  IdTokenVerification,
+  JwtCheck,
+  verifyIdToken,
+} from "@/lib/jwt-verification";
+
+interface TokenVerificationProps {
+  token: TokenData;
+}
+
+const CHECK_LABELS: Record<JwtCheck["name"], string> = {
+  signature: "Signature",
+  iss: "Issuer",
+  aud: "Audience",
+  exp: "Expiry",
+  iat: "Issued at",
+  nonce: "Nonce",
+};
+
+const STATUS_CLASSES: Record<JwtCheck["status"], string> = {
+  pass: "bg-green-600 text-white",
+  fail: "bg-red-600 text-white",
+  skipped: "",
+};
+
+/**
+ * Result of verifying the token's ID token against its provider's JWKS, one
+ * row per check
+ */
+export function TokenVerification({ token }: TokenVerificationProps) {
+  const [verification, setVerification] =
+    useState<IdTokenVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVerifying(true);
+    verifyIdToken(token).then((result) => {
+      if (cancelled) return;
+      setVerification(result);
+      setVerifying(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, attempt]);
+
+  return (
+    <div className="p-5 rounded-xl bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 shadow-sm space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide flex items-center gap-2">
+          {verification?.verified ? (
+            <ShieldCheck className="w-4 h-4 text-green-600" />
+          ) : (
+            <ShieldAlert className="w-4 h-4 text-red-600" />
+          )}
+          Signature Verification
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setAttempt((n) => n + 1)}
+          disabled={verifying}
+          className="h-8"
+        >
+          {verifying ? (
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          ) : (
+            <RefreshCw className="w-3 h-3 mr-1" />
+          )}
+          Verify again
+        </Button>
+      </div>
+
+      {verification && (
+        <>
+          <div className="text-base font-medium text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
+            {verification.verified
+              ? "ID token verified"
+              : "ID token not verified; its claims are not trusted"}
+            {(verification.alg || verification.kid) && (
+              <span className="ml-2 text-xs text-muted-foreground font-mono">
+                {[verification.alg, verification.kid].filter(Boolean).join(" · ")}
+              </span>
+            )}
+          </div>
+
+          {verification.error && (
+            <div className="text-sm text-red-600 dark:text-red-400">
+              {verification.error}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {verification.checks.map((check) => (
+              <div
+                key={check.name}
+                className="flex items-start justify-between gap-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <span className="font-medium">
+                    {CHECK_LABELS[check.name]}
+                  </span>
+                  <span className="ml-2 text-muted-foreground break-all">
+                    {check.detail}
+                  </span>
+                </div>
+                <Badge
+                  variant={check.status === "skipped" ? "secondary" : "default"}
+                  className={`text-xs shrink-0 ${STATUS_CLASSES[check.status]}`}
+                >
+                  {check.status}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
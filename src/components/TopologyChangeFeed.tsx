@@ -0,0 +1,172 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  CHANGE_LABELS,
+  DEGRADING_CHANGES,
+  TopologyChange,
+} from "@/lib/topology-diff";
+
+interface TopologyChangeFeedProps {
+  changes: TopologyChange[];
+  live: boolean;
+  onLiveChange: (live: boolean) => void;
+  pollIntervalMs: number;
+  lastCheckedAt: Date | null;
+  version?: string;
+  onClear: () => void;
+}
+
+type ChangeFilter = "all" | "degrading" | "recovering";
+
+const FILTER_LABELS: Record<ChangeFilter, string> = {
+  all: "All",
+  degrading: "Down / removed",
+  recovering: "Up / added",
+};
+
+function formatTime(value: string | Date): string {
+  const date = value instanceof Date ? value : new Date(value);
+  return date.toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/**
+ * Changes detected between topology snapshots, newest first, with the
+ * switch for background polling
+ */
+export function TopologyChangeFeed({
+  changes,
+  live,
+  onLiveChange,
+  pollIntervalMs,
+  lastCheckedAt,
+  version,
+  onClear,
+}: TopologyChangeFeedProps) {
+  const [filter, setFilter] = useState<ChangeFilter>("all");
+
+  const visible = useMemo(
+    () =>
+      changes.filter((change) => {
+        if (filter === "all") return true;
+        const degrading = DEGRADING_CHANGES.includes(change.kind);
+        return filter === "degrading" ? degrading : !degrading;
+      }),
+    [changes, filter]
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Polling status */}
+      <div className="p-4 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+            Live updates
+          </span>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={live}
+              onChange={(e) => onLiveChange(e.target.checked)}
+              className="accent-[rgb(50,135,200)]"
+            />
+            {live ? "On" : "Off"}
+          </label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {live
+            ? `Checking every ${Math.round(pollIntervalMs / 1000)}s while this tab is visible.`
+            : "Topology only refreshes when you click refresh."}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Last checked: {lastCheckedAt ? formatTime(lastCheckedAt) : "—"}
+          {version && <> · version {version}</>}
+        </p>
+      </div>
+
+      {/* Filter */}
+      <div className="flex items-center gap-2">
+        <div className="flex rounded-md border border-[rgb(200,220,240)] dark:border-blue-500/30 overflow-hidden">
+          {(Object.keys(FILTER_LABELS) as ChangeFilter[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1 text-xs font-medium ${
+                filter === option
+                  ? "bg-[rgb(50,135,200)] text-white"
+                  : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+              }`}
+            >
+              {FILTER_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          disabled={changes.length === 0}
+          className="ml-auto h-7 px-2 text-xs text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]"
+        >
+          Clear
+        </Button>
+      </div>
+
+      {/* Feed */}
+      {visible.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          {changes.length === 0
+            ? "No changes detected since the topology was loaded."
+            : "No changes match this filter."}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map((change) => {
+            const degrading = DEGRADING_CHANGES.includes(change.kind);
+            return (
+              <li
+                key={change.id}
+                className={`p-3 rounded-lg border-l-4 bg-white dark:bg-gray-800/50 ${
+                  degrading ? "border-amber-500" : "border-green-600"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span
+                    className={`text-xs font-semibold uppercase tracking-wide ${
+                      degrading
+                        ? "text-amber-700 dark:text-amber-400"
+                        : "text-green-700 dark:text-green-400"
+                    }`}
+                  >
+                    {CHANGE_LABELS[change.kind]}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatTime(change.detected_at)}
+                  </span>
+                </div>
+                <p className="text-sm font-medium mt-1 break-all">
+                  {change.label}
+                </p>
+                {change.detail && (
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {change.detail}
+                  </p>
+                )}
+                <p
+                  className="text-[10px] font-mono text-muted-foreground mt-1 truncate"
+                  title={change.subject}
+                >
+                  {change.subject}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
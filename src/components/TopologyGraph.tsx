@@ -0,0 +1,347 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import * as d3 from "d3";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { TopologyResponse } from "@/lib/types";
+import {
+  buildTopologyGraph,
+  GraphEdge,
+  GraphNode,
+} from "@/lib/topology-graph";
+import { useTheme } from "@/components/ThemeProvider";
+
+interface TopologyGraphProps {
+  topology: TopologyResponse;
+  // Same domain selection as the map
+  allowedDomains: string[];
+  // History controls shown over the graph
+  timeline?: React.ReactNode;
+}
+
+type SimNode = GraphNode & {
+  x?: number;
+  y?: number;
+  fx?: number | null;
+  fy?: number | null;
+};
+
+type SimEdge = Omit<GraphEdge, "source" | "target"> & {
+  // forceLink swaps the ids for the node objects
+  source: string | SimNode;
+  target: string | SimNode;
+};
+
+const NODE_RADIUS = 14;
+const PORT_RADIUS = 4;
+
+const GRAPH_COLORS = {
+  node: { light: "#2563eb", dark: "#3b82f6" },
+  nodeDegraded: "#f59e0b",
+  portUp: "#22c55e",
+  down: "#dc2626",
+  linkUp: "#16a34a",
+  attachment: { light: "#94a3b8", dark: "#475569" },
+  label: { light: "#1e293b", dark: "#e2e8f0" },
+};
+
+function nodeTitle(node: GraphNode): string {
+  if (node.kind === "port") {
+    return `Port ${node.label} (${node.status})\n${node.id}`;
+  }
+  const lines = [`${node.label}`, node.id];
+  if (node.ports_down) lines.push(`${node.ports_down} port(s) down`);
+  if (!node.located) lines.push("No location, not on the map");
+  return lines.join("\n");
+}
+
+/**
+ * Force-directed view of the topology that does not depend on locations.
+ * Nodes are drawn with their ports around them and links join the ports.
+ */
+export function TopologyGraph({
+  topology,
+  allowedDomains,
+  timeline,
+}: TopologyGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [showDropped, setShowDropped] = useState(true);
+  const { theme } = useTheme();
+  const isDark =
+    theme === "dark" ||
+    (theme === "system" &&
+      window.matchMedia("(prefers-color-scheme: dark)").matches);
+
+  const graph = useMemo(
+    () => buildTopologyGraph(topology, allowedDomains),
+    [topology, allowedDomains]
+  );
+
+  useEffect(() => {
+    const svgElement = svgRef.current;
+    if (!svgElement) return;
+    const mode = isDark ? "dark" : "light";
+    const { width, height } = svgElement.getBoundingClientRect();
+
+    const svg = d3.select(svgElement);
+    svg.selectAll("*").remove();
+    const root = svg.append("g");
+    svg.call(
+      d3
+        .zoom()
+        .scaleExtent([0.1, 4])
+        .on("zoom", (event: any) => root.attr("transform", event.transform))
+    );
+
+    // d3 mutates what it is given, so keep the memoised graph untouched
+    const nodes: SimNode[] = graph.nodes.map((node) => ({ ...node }));
+    const edges: SimEdge[] = graph.edges.map((edge) => ({ ...edge }));
+
+    const simulation = d3
+      .forceSimulation(nodes)
+      .force(
+        "link",
+        d3
+          .forceLink(edges)
+          .id((node: SimNode) => node.id)
+          .distance((edge: SimEdge) =>
+            edge.kind === "attachment" ? NODE_RADIUS + 12 : 120
+          )
+          .strength((edge: SimEdge) => (edge.kind === "attachment" ? 1 : 0.2))
+      )
+      .force(
+        "charge",
+        d3
+          .forceManyBody()
+          .strength((node: SimNode) => (node.kind === "node" ? -300 : -15))
+      )
+      .force("center", d3.forceCenter(width / 2, height / 2))
+      .force(
+        "collide",
+        d3
+          .forceCollide()
+          .radius((node: SimNode) =>
+            node.kind === "node" ? NODE_RADIUS + 4 : PORT_RADIUS + 2
+          )
+      );
+
+    const edgeSelection = root
+      .append("g")
+      .selectAll("line")
+      .data(edges)
+      .join("line")
+      .attr("stroke", (edge: SimEdge) =>
+        edge.kind === "attachment"
+          ? GRAPH_COLORS.attachment[mode]
+          : edge.status === "down"
+          ? GRAPH_COLORS.down
+          : GRAPH_COLORS.linkUp
+      )
+      .attr("stroke-width", (edge: SimEdge) => (edge.kind === "link" ? 2.5 : 1))
+      .attr("stroke-dasharray", (edge: SimEdge) =>
+        edge.kind === "link" && edge.status === "down" ? "6 4" : null
+      )
+      .attr("stroke-opacity", (edge: SimEdge) =>
+        edge.kind === "link" ? 0.9 : 0.6
+      );
+    edgeSelection
+      .filter((edge: SimEdge) => edge.kind === "link")
+      .append("title")
+      .text((edge: SimEdge) => `${edge.label} (${edge.status})\n${edge.id}`);
+
+    const drag = d3
+      .drag()
+      .on("start", (event: any, node: SimNode) => {
+        if (!event.active) simulation.alphaTarget(0.3).restart();
+        node.fx = node.x;
+        node.fy = node.y;
+      })
+      .on("drag", (event: any, node: SimNode) => {
+        node.fx = event.x;
+        node.fy = event.y;
+      })
+      .on("end", (event: any, node: SimNode) => {
+        if (!event.active) simulation.alphaTarget(0);
+        node.fx = null;
+        node.fy = null;
+      });
+
+    const nodeSelection = root
+      .append("g")
+      .selectAll("circle")
+      .data(nodes)
+      .join("circle")
+      .attr("r", (node: SimNode) =>
+        node.kind === "node" ? NODE_RADIUS : PORT_RADIUS
+      )
+      .attr("fill", (node: SimNode) => {
+        if (node.kind === "port") {
+          return node.status === "down" ? GRAPH_COLORS.down : GRAPH_COLORS.portUp;
+        }
+        return node.status === "down"
+          ? GRAPH_COLORS.nodeDegraded
+          : GRAPH_COLORS.node[mode];
+      })
+      .attr("stroke", isDark ? "#0f172a" : "#ffffff")
+      .attr("stroke-width", (node: SimNode) => (node.kind === "node" ? 2 : 1))
+      // Nodes the map cannot place get a dashed outline
+      .attr("stroke-dasharray", (node: SimNode) =>
+        node.kind === "node" && !node.located ? "4 3" : null
+      )
+      .style("cursor", "grab")
+      .call(drag);
+    nodeSelection
+      .filter((node: SimNode) => node.kind === "node" && !node.located)
+      .attr("stroke", GRAPH_COLORS.down);
+    nodeSelection.append("title").text((node: SimNode) => nodeTitle(node));
+
+    const labelSelection = root
+      .append("g")
+      .selectAll("text")
+      .data(nodes.filter((node) => node.kind === "node"))
+      .join("text")
+      .text((node: SimNode) => node.label)
+      .attr("font-size", 11)
+      .attr("text-anchor", "middle")
+      .attr("dy", NODE_RADIUS + 14)
+      .attr("fill", GRAPH_COLORS.label[mode])
+      .style("pointer-events", "none");
+
+    simulation.on("tick", () => {
+      edgeSelection
+        .attr("x1", (edge: any) => edge.source.x)
+        .attr("y1", (edge: any) => edge.source.y)
+        .attr("x2", (edge: any) => edge.target.x)
+        .attr("y2", (edge: any) => edge.target.y);
+      nodeSelection
+        .attr("cx", (node: SimNode) => node.x)
+        .attr("cy", (node: SimNode) => node.y);
+      labelSelection
+        .attr("x", (node: SimNode) => node.x)
+        .attr("y", (node: SimNode) => node.y);
+    });
+
+    return () => {
+      simulation.stop();
+      svg.on(".zoom", null);
+    };
+  }, [graph, isDark]);
+
+  const nodeCount = graph.nodes.filter((node) => node.kind === "node").length;
+  const linkCount = graph.edges.filter((edge) => edge.kind === "link").length;
+  const droppedNodes = graph.dropped.filter((item) => item.kind === "node");
+  const droppedLinks = graph.dropped.filter((item) => item.kind === "link");
+
+  return (
+    <div className="w-full h-full relative bg-muted/30">
+      <svg ref={svgRef} className="w-full h-full" />
+
+      {/* Legend */}
+      <div className="absolute top-6 left-6 z-[1000] p-4 space-y-2 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/30 bg-background/95 shadow-xl backdrop-blur-sm">
+        <div className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+          {nodeCount} nodes · {linkCount} links
+        </div>
+        <ul className="space-y-1.5 text-xs">
+          <li className="flex items-center gap-2">
+            <span
+              className="inline-block w-3 h-3 rounded-full"
+              style={{ backgroundColor: GRAPH_COLORS.node[isDark ? "dark" : "light"] }}
+            />
+            Node
+          </li>
+          <li className="flex items-center gap-2">
+            <span
+              className="inline-block w-3 h-3 rounded-full"
+              style={{ backgroundColor: GRAPH_COLORS.nodeDegraded }}
+            />
+            Node with ports down
+          </li>
+          <li className="flex items-center gap-2">
+            <span
+              className="inline-block w-3 h-3 rounded-full border-2 border-dashed"
+              style={{ borderColor: GRAPH_COLORS.down }}
+            />
+            Node not on the map
+          </li>
+          <li className="flex items-center gap-2">
+            <span
+              className="inline-block w-2 h-2 rounded-full"
+              style={{ backgroundColor: GRAPH_COLORS.portUp }}
+            />
+            Port up
+            <span
+              className="inline-block w-2 h-2 rounded-full ml-2"
+              style={{ backgroundColor: GRAPH_COLORS.down }}
+            />
+            down
+          </li>
+          <li className="flex items-center gap-2">
+            <span
+              className="inline-block w-5 h-1 rounded"
+              style={{ backgroundColor: GRAPH_COLORS.linkUp }}
+            />
+            Link up
+          </li>
+          <li className="flex items-center gap-2">
+            <span
+              className="inline-block w-5 border-t-2 border-dashed"
+              style={{ borderColor: GRAPH_COLORS.down }}
+            />
+            Link down
+          </li>
+        </ul>
+        <p className="text-xs text-muted-foreground">
+          Drag to rearrange, scroll to zoom.
+        </p>
+      </div>
+
+      {/* Elements the map does not show */}
+      {graph.dropped.length > 0 && (
+        <div className="absolute bottom-6 right-6 z-[1000] w-80 max-h-[60%] flex flex-col rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/30 bg-background/95 shadow-xl backdrop-blur-sm">
+          <button
+            onClick={() => setShowDropped(!showDropped)}
+            className="flex items-center justify-between gap-2 p-4 text-left"
+          >
+            <span className="text-xs font-semibold text-amber-700 dark:text-amber-300 uppercase tracking-wide">
+              Not on the map: {droppedNodes.length} node
+              {droppedNodes.length !== 1 ? "s" : ""}, {droppedLinks.length} link
+              {droppedLinks.length !== 1 ? "s" : ""}
+            </span>
+            {showDropped ? (
+              <ChevronDown className="w-4 h-4 shrink-0" />
+            ) : (
+              <ChevronUp className="w-4 h-4 shrink-0" />
+            )}
+          </button>
+          {showDropped && (
+            <ul className="px-4 pb-4 space-y-2 overflow-y-auto">
+              {graph.dropped.map((item) => (
+                <li
+                  key={`${item.kind}|${item.id}`}
+                  className="text-xs border-t border-border pt-2"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate" title={item.id}>
+                      {item.kind === "node" ? "Node" : "Link"} {item.label}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {item.in_graph ? "in graph" : "not drawn"}
+                    </span>
+                  </div>
+                  <div className="text-muted-foreground break-all">
+                    {item.reason}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Topology history */}
+      {timeline && (
+        <div className="absolute bottom-6 left-6 z-[1000] w-96 max-w-[calc(100%-22rem)] p-4 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/30 bg-background/95 shadow-xl backdrop-blur-sm">
+          {timeline}
+        </div>
+      )}
+    </div>
+  );
+}
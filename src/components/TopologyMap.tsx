@@ -6,6 +6,7 @@ import {
   ProcessedTopology,
   ProcessedLocationNode,
   ProcessedLink,
+  ResolvedL2VPNPath,
 } from "@/lib/topology-processor";
 import {
   Dialog,
@@ -22,7 +23,26 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
 import { useTheme } from "@/components/ThemeProvider";
+import { LinkMetricsPanel } from "@/components/LinkMetricsPanel";
+import { TopologyResponse } from "@/lib/types";
+import { toShortId } from "@/lib/sdx-urn";
+import { isPortDown } from "@/lib/topology-diff";
+import { layoutLinkPaths, spiderOffsets } from "@/lib/map-layout";
+import { captureMap, renderMapPng, renderMapSvg } from "@/lib/map-export";
+import { topologyToGeoJSON } from "@/lib/topology-geojson";
+import { downloadBlob, downloadTextFile } from "@/lib/utils";
+import { getErrorMessage } from "@/lib/api-errors";
 
 // Fix for default markers in React
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -38,8 +58,26 @@ L.Icon.Default.mergeOptions({
 interface TopologyMapProps {
   processedData: ProcessedTopology;
   linksArray: Record<string, any[]>;
+  // L2VPN to emphasise; everything off its path is dimmed
+  highlightedPath?: ResolvedL2VPNPath | null;
+  onClearHighlight?: () => void;
+  // History controls shown over the map
+  timeline?: React.ReactNode;
+  // Response processedData was built from, offered as a download
+  topology?: TopologyResponse | null;
 }
 
+// Colours used for a highlighted L2VPN, shared by the layers and the legend
+const PATH_COLORS = {
+  endpoint: "#16a34a",
+  transit: "#a855f7",
+  link: "#a855f7",
+};
+const DIMMED_OPACITY = 0.25;
+// Nodes of an expanded location further than this from it are drawn at
+// their own coordinates; closer ones are fanned out around it
+const SPIDER_MIN_DISTANCE_PX = 40;
+
 interface PortModalData {
   locationKey: string;
   locationData: ProcessedLocationNode;
@@ -53,18 +91,31 @@ interface LinkModalData {
 export const TopologyMap: React.FC<TopologyMapProps> = ({
   processedData,
   linksArray,
+  highlightedPath = null,
+  onClearHighlight,
+  timeline,
+  topology = null,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const tileLayerRef = useRef<L.TileLayer | null>(null);
+  // Layers are kept across data updates and patched in place, keyed by
+  // location and by link segment
+  const markersRef = useRef(new Map<string, L.Marker>());
+  const polylinesRef = useRef(new Map<string, L.Polyline>());
+  // Location whose nodes are fanned out ("spiderfied") around it
+  const [spiderLocation, setSpiderLocation] = useState<string | null>(null);
   const [portModalData, setPortModalData] = useState<PortModalData | null>(
     null
   );
+  // Link of the open link modal whose metrics are charted
+  const [metricsLinkId, setMetricsLinkId] = useState<string | null>(null);
   const [linkModalData, setLinkModalData] = useState<LinkModalData | null>(
     null
   );
   const [portSearchTerm, setPortSearchTerm] = useState("");
   const [linkSearchTerm, setLinkSearchTerm] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
   const { theme } = useTheme();
 
   // Define tile layer configurations for different themes
@@ -107,6 +158,8 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
       maxZoom: 19,
       attribution: tileConfig.attribution,
       className: tileConfig.className,
+      // Lets the image export draw the tiles onto a canvas
+      crossOrigin: "anonymous",
     }).addTo(map);
 
     mapInstanceRef.current = map;
@@ -117,6 +170,8 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
       }
+      markersRef.current.clear();
+      polylinesRef.current.clear();
     };
   }, []);
 
@@ -136,6 +191,7 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
       maxZoom: 19,
       attribution: tileConfig.attribution,
       className: tileConfig.className,
+      crossOrigin: "anonymous",
     }).addTo(map);
 
     tileLayerRef.current = newTileLayer;
@@ -157,43 +213,56 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
       linksArray: Object.keys(linksArray).length,
     });
 
-    // Clear existing layers
-    map.eachLayer((layer) => {
-      if (layer instanceof L.Marker || layer instanceof L.Polyline) {
-        layer.remove();
-      }
-    });
-
-    // Add markers for each location
+    // Add or update markers for each location
     const currentTheme = getCurrentTheme();
     const isDark = currentTheme === "dark";
+    const seenLocations = new Set<string>();
 
     Object.entries(processedData.nodes_array).forEach(
       ([locationKey, locationData]) => {
+        seenLocations.add(locationKey);
+        const isEndpoint =
+          highlightedPath?.endpoint_locations.includes(locationKey) ?? false;
+        const onPath =
+          highlightedPath?.path_locations.includes(locationKey) ?? false;
+        const isDimmed = !!highlightedPath && !onPath;
+        const markerColor = isEndpoint
+          ? PATH_COLORS.endpoint
+          : onPath
+          ? PATH_COLORS.transit
+          : isDark
+          ? "#3b82f6"
+          : "#2563eb";
+        // Locations holding several nodes are drawn larger, with a count
+        const nodeCount = locationData.sub_nodes.length;
+        const isCluster = nodeCount > 1;
+        const markerSize = (onPath ? 20 : 16) + (isCluster ? 6 : 0);
+
         // Create custom marker icon based on theme
         const markerIcon = L.divIcon({
           className: "custom-node-marker",
           html: `
           <div style="
-            background-color: ${isDark ? "#3b82f6" : "#2563eb"};
-            width: 16px;
-            height: 16px;
+            background-color: ${markerColor};
+            width: ${markerSize}px;
+            height: ${markerSize}px;
             border-radius: 50%;
             border: 3px solid ${isDark ? "#1f2937" : "#ffffff"};
             box-shadow: 0 2px 8px ${
               isDark ? "rgba(0,0,0,0.8)" : "rgba(0,0,0,0.3)"
             };
-          "></div>
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            color: #ffffff;
+            font-size: 10px;
+            font-weight: 700;
+          ">${isCluster ? nodeCount : ""}</div>
         `,
-          iconSize: [22, 22],
-          iconAnchor: [11, 11],
+          iconSize: [markerSize + 6, markerSize + 6],
+          iconAnchor: [(markerSize + 6) / 2, (markerSize + 6) / 2],
         });
 
-        const marker = L.marker(
-          [locationData.latitude, locationData.longitude],
-          { icon: markerIcon }
-        );
-
         // Create location names string
         const locations = locationData.sub_nodes
           .map((subNode) => subNode.sub_node_name)
@@ -212,20 +281,52 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
           });
         });
 
-        // Add permanent tooltip with theme-aware styling
-        const tooltip = L.tooltip({
-          permanent: true,
-          className: isDark ? "leaflet-tooltip-dark" : "leaflet-tooltip-light",
-        }).setContent(locations);
-        marker.bindTooltip(tooltip);
+        const latlng: [number, number] = [
+          locationData.latitude,
+          locationData.longitude,
+        ];
+        let marker = markersRef.current.get(locationKey);
 
-        // Add click handler for port modal
+        if (!marker) {
+          marker = L.marker(latlng, {
+            icon: markerIcon,
+            opacity: isDimmed ? DIMMED_OPACITY : 1,
+          });
+
+          // Add permanent tooltip with theme-aware styling
+          const tooltip = L.tooltip({
+            permanent: true,
+            opacity: isDimmed ? DIMMED_OPACITY : 0.9,
+            className: isDark ? "leaflet-tooltip-dark" : "leaflet-tooltip-light",
+          }).setContent(locations);
+          marker.bindTooltip(tooltip);
+          marker.addTo(map);
+          marker.openTooltip();
+          markersRef.current.set(locationKey, marker);
+        } else {
+          marker.setLatLng(latlng);
+          marker.setIcon(markerIcon);
+          marker.setOpacity(isDimmed ? DIMMED_OPACITY : 1);
+          marker.setTooltipContent(locations);
+          marker.getTooltip()?.setOpacity(isDimmed ? DIMMED_OPACITY : 0.9);
+        }
+
+        // Click handler, bound to the latest data: a single node opens the
+        // port modal, several are fanned out to pick from
+        marker.off("click");
         marker.on("click", () => {
-          setPortModalData({ locationKey, locationData });
+          if (isCluster) {
+            setSpiderLocation((current) =>
+              current === locationKey ? null : locationKey
+            );
+          } else {
+            setPortModalData({ locationKey, locationData });
+          }
         });
 
         // Add popup for ports down with theme-aware styling
-        if (portsDown > 0) {
+        marker.unbindPopup();
+        if (portsDown > 0 && !isDimmed) {
           const popup = L.popup({
             autoClose: false,
             closeOnClick: false,
@@ -247,17 +348,29 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
           marker.bindPopup(popup);
           marker.openPopup();
         }
-
-        marker.addTo(map);
-        marker.openTooltip();
       }
     );
 
-    // Add polylines for connections with theme-aware colors
+    markersRef.current.forEach((marker, locationKey) => {
+      if (!seenLocations.has(locationKey)) {
+        marker.remove();
+        markersRef.current.delete(locationKey);
+      }
+    });
+
+    // Add or update polylines for connections with theme-aware colors.
+    // Parallel links are bowed apart and long-haul ones follow great circles.
+    const seenSegments = new Set<string>();
+    const linkPaths = layoutLinkPaths(processedData);
+
     processedData.latlng_array.forEach((linkData) => {
       Object.entries(linkData.latlngs).forEach(([linkId, coordinates]) => {
-        const latlngs = coordinates as [number[], number[]];
         const linkName = linkData.link;
+        const segmentKey = `${linkName}|${linkId}`;
+        seenSegments.add(segmentKey);
+        const latlngs = (linkPaths.get(segmentKey) ?? coordinates).map(
+          ([lat, lng]) => L.latLng(lat, lng)
+        );
 
         // Check if any links are down for this polyline
         const links = linksArray[linkName] || [];
@@ -269,19 +382,48 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
           down: isDark ? "#fbbf24" : "#f59e0b", // Yellow/Orange
         };
 
-        const polyline = L.polyline(latlngs, {
-          color: hasDownLinks ? colors.down : colors.active,
-          weight: 3,
-          opacity: isDark ? 0.9 : 0.7,
-        })
-          .bindTooltip(linkName, {
-            className: isDark
-              ? "leaflet-tooltip-dark"
-              : "leaflet-tooltip-light",
-          })
-          .addTo(map);
+        const onPath = highlightedPath?.link_ids.includes(linkId) ?? false;
+        const isDimmed = !!highlightedPath && !onPath;
 
-        // Add click handler for link modal
+        const style: L.PolylineOptions = {
+          color: onPath
+            ? PATH_COLORS.link
+            : hasDownLinks
+            ? colors.down
+            : colors.active,
+          weight: onPath ? 6 : 3,
+          opacity: isDimmed ? DIMMED_OPACITY * 0.6 : isDark ? 0.9 : 0.7,
+          // A traversed link that is down stays visible but dashed
+          dashArray: onPath && hasDownLinks ? "10 8" : undefined,
+        };
+
+        // Residual bandwidth in the tooltip, so history playback shows it too
+        const segmentLink = links.find((link) => link.id === linkId);
+        const tooltipContent =
+          segmentLink?.residual_bandwidth !== undefined
+            ? `${linkName}<br/>residual ${segmentLink.residual_bandwidth} / ${segmentLink.bandwidth ?? "?"}`
+            : linkName;
+
+        let polyline = polylinesRef.current.get(segmentKey);
+        if (!polyline) {
+          polyline = L.polyline(latlngs, style)
+            .bindTooltip(tooltipContent, {
+              className: isDark
+                ? "leaflet-tooltip-dark"
+                : "leaflet-tooltip-light",
+            })
+            .addTo(map);
+          polylinesRef.current.set(segmentKey, polyline);
+        } else {
+          polyline.setLatLngs(latlngs);
+          polyline.setStyle(style);
+          polyline.setTooltipContent(tooltipContent);
+        }
+
+        if (onPath) polyline.bringToFront();
+
+        // Click handler for link modal, bound to the latest data
+        polyline.off("click");
         polyline.on("click", () => {
           if (links.length > 0) {
             setLinkModalData({ linkName, links });
@@ -289,7 +431,188 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
         });
       });
     });
-  }, [processedData, linksArray]);
+
+    polylinesRef.current.forEach((polyline, segmentKey) => {
+      if (!seenSegments.has(segmentKey)) {
+        polyline.remove();
+        polylinesRef.current.delete(segmentKey);
+      }
+    });
+  }, [processedData, linksArray, highlightedPath]);
+
+  // Fan out the nodes of the expanded location. Offsets are in screen
+  // pixels, so they are recomputed on every zoom.
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const locationData = spiderLocation
+      ? processedData.nodes_array[spiderLocation]
+      : undefined;
+    if (!map || !spiderLocation || !locationData) return;
+
+    const isDark = getCurrentTheme() === "dark";
+    const layer = L.layerGroup().addTo(map);
+    const centerLatLng = L.latLng(
+      locationData.latitude,
+      locationData.longitude
+    );
+
+    const draw = () => {
+      layer.clearLayers();
+      const center = map.latLngToLayerPoint(centerLatLng);
+
+      // Nodes whose own coordinates are far enough apart stay there
+      const positions = new Map<number, L.LatLng>();
+      const crowded: number[] = [];
+      locationData.sub_nodes.forEach((subNode, index) => {
+        if (
+          subNode.latitude === undefined ||
+          subNode.longitude === undefined
+        ) {
+          crowded.push(index);
+          return;
+        }
+        const own = L.latLng(subNode.latitude, subNode.longitude);
+        const distance = map.latLngToLayerPoint(own).distanceTo(center);
+        if (distance >= SPIDER_MIN_DISTANCE_PX) {
+          positions.set(index, own);
+        } else {
+          crowded.push(index);
+        }
+      });
+      const offsets = spiderOffsets(crowded.length);
+      crowded.forEach((index, i) => {
+        positions.set(index, map.layerPointToLatLng(center.add(offsets[i])));
+      });
+
+      locationData.sub_nodes.forEach((subNode, index) => {
+        const position = positions.get(index)!;
+        const portsDown = subNode.ports.filter(isPortDown).length;
+
+        L.polyline([centerLatLng, position], {
+          color: isDark ? "#9ca3af" : "#6b7280",
+          weight: 1.5,
+          dashArray: "4 4",
+          interactive: false,
+        }).addTo(layer);
+
+        L.circleMarker(position, {
+          radius: 8,
+          color: isDark ? "#1f2937" : "#ffffff",
+          weight: 2,
+          fillColor:
+            portsDown > 0 ? "#f59e0b" : isDark ? "#3b82f6" : "#2563eb",
+          fillOpacity: 1,
+          bubblingMouseEvents: false,
+        })
+          .bindTooltip(
+            `<b>${subNode.name}</b><br/>${subNode.sub_node_name}${
+              portsDown > 0 ? `<br/>ports down: ${portsDown}` : ""
+            }`,
+            {
+              className: isDark
+                ? "leaflet-tooltip-dark"
+                : "leaflet-tooltip-light",
+            }
+          )
+          .on("click", () =>
+            setPortModalData({
+              locationKey: spiderLocation,
+              locationData: { ...locationData, sub_nodes: [subNode] },
+            })
+          )
+          .addTo(layer);
+      });
+    };
+
+    const collapse = () => setSpiderLocation(null);
+    draw();
+    map.on("zoomend", draw);
+    map.on("click", collapse);
+
+    return () => {
+      map.off("zoomend", draw);
+      map.off("click", collapse);
+      layer.remove();
+    };
+  }, [spiderLocation, processedData, theme]);
+
+  const exportFileName = (extension: string) => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+    return `sdx-topology-${stamp}.${extension}`;
+  };
+
+  const handleExportImage = async (format: "png" | "svg") => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    setIsExporting(true);
+    try {
+      const capture = captureMap(
+        map,
+        getCurrentTheme() === "dark" ? "#111827" : "#ffffff"
+      );
+      let missingTiles: number;
+      if (format === "png") {
+        const png = await renderMapPng(capture);
+        downloadBlob(png.result, exportFileName("png"));
+        missingTiles = png.missingTiles;
+      } else {
+        const svg = await renderMapSvg(capture);
+        downloadTextFile(svg.result, exportFileName("svg"), "image/svg+xml");
+        missingTiles = svg.missingTiles;
+      }
+      if (missingTiles > 0) {
+        toast.warning(
+          `${missingTiles} map tile${missingTiles === 1 ? "" : "s"} could not be included in the image`
+        );
+      }
+    } catch (error) {
+      console.error("Map image export failed:", error);
+      toast.error(`Exporting the map failed: ${getErrorMessage(error)}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportGeoJSON = () => {
+    downloadTextFile(
+      JSON.stringify(topologyToGeoJSON(processedData), null, 2),
+      exportFileName("geojson"),
+      "application/geo+json"
+    );
+  };
+
+  const handleExportTopology = () => {
+    if (!topology) return;
+    downloadTextFile(
+      JSON.stringify(topology, null, 2),
+      exportFileName("json"),
+      "application/json"
+    );
+  };
+
+  // Zoom to the locations touched by the highlighted L2VPN
+  const fitToPath = () => {
+    const map = mapInstanceRef.current;
+    if (!map || !highlightedPath) return;
+
+    const points = highlightedPath.path_locations
+      .map((locationKey) => processedData.nodes_array[locationKey])
+      .filter(Boolean)
+      .map(
+        (location) => [location.latitude, location.longitude] as [number, number]
+      );
+
+    if (points.length === 1) {
+      map.setView(points[0], 6);
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points), { padding: [60, 60], maxZoom: 7 });
+    }
+  };
+
+  useEffect(() => {
+    fitToPath();
+  }, [highlightedPath?.service_id]);
 
   // Filter ports based on search term
   const filteredPorts = portModalData
@@ -316,11 +639,116 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
         return searchText.includes(linkSearchTerm.toLowerCase());
       })
     : [];
+  const metricsLink =
+    linkModalData?.links.find((link) => link.id === metricsLinkId) ??
+    linkModalData?.links[0];
 
   return (
-    <div className="w-full h-full">
+    <div className="w-full h-full relative">
       <div ref={mapRef} className="w-full h-full" />
 
+      {/* Export */}
+      <div className="absolute top-20 right-6 z-[1000]">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              disabled={isExporting}
+              className="flex items-center gap-1.5 h-8 px-3 text-xs font-medium rounded-md border-2 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] bg-background/95 shadow-xl text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20 disabled:opacity-50"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {isExporting ? "Exporting..." : "Export"}
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="z-[10000]">
+            <DropdownMenuLabel className="text-xs">
+              Current view
+            </DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => handleExportImage("png")}>
+              Image (PNG)
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExportImage("svg")}>
+              Image (SVG)
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs">Data</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={handleExportGeoJSON}>
+              Locations and links (GeoJSON)
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={handleExportTopology}
+              disabled={!topology}
+            >
+              Raw topology (JSON)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* Topology history */}
+      {timeline && (
+        <div className="absolute bottom-6 left-6 z-[1000] w-96 max-w-[calc(100%-22rem)] p-4 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/30 bg-background/95 shadow-xl backdrop-blur-sm">
+          {timeline}
+        </div>
+      )}
+
+      {/* Highlighted L2VPN legend */}
+      {highlightedPath && (
+        <div className="absolute bottom-6 right-6 z-[1000] w-72 p-4 space-y-3 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/30 bg-background/95 shadow-xl backdrop-blur-sm">
+          <div>
+            <div className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+              L2VPN path
+            </div>
+            <div className="text-sm font-medium truncate" title={highlightedPath.service_id}>
+              {highlightedPath.name || highlightedPath.service_id}
+            </div>
+          </div>
+          <ul className="space-y-1.5 text-xs">
+            <li className="flex items-center gap-2">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: PATH_COLORS.endpoint }} />
+              Endpoint location ({highlightedPath.endpoint_locations.length})
+            </li>
+            <li className="flex items-center gap-2">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: PATH_COLORS.transit }} />
+              Transit location
+            </li>
+            <li className="flex items-center gap-2">
+              <span className="inline-block w-5 h-1 rounded" style={{ backgroundColor: PATH_COLORS.link }} />
+              Traversed link ({highlightedPath.link_ids.length})
+            </li>
+            <li className="flex items-center gap-2">
+              <span className="inline-block w-5 border-t-2 border-dashed" style={{ borderColor: PATH_COLORS.link }} />
+              Traversed link reporting down
+            </li>
+          </ul>
+          {!highlightedPath.path_known && (
+            <p className="text-xs text-muted-foreground">
+              The controller has not reported a path; only endpoints are shown.
+            </p>
+          )}
+          {highlightedPath.unresolved_ports.length > 0 && (
+            <p className="text-xs text-amber-700 dark:text-amber-300 break-all">
+              Not on the map: {highlightedPath.unresolved_ports.join(", ")}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={fitToPath}
+              className="flex-1 h-8 text-xs font-medium rounded-md border-2 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+            >
+              Fit to path
+            </button>
+            {onClearHighlight && (
+              <button
+                onClick={onClearHighlight}
+                className="flex-1 h-8 text-xs font-medium rounded-md border-2 border-[rgb(180,200,220)] dark:border-[rgb(100,150,200)] text-muted-foreground hover:bg-muted"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Port Details Modal */}
       <Dialog
         open={!!portModalData}
@@ -422,7 +850,7 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
                             {port.name}
                           </TableCell>
                           <TableCell className="text-sm">
-                            {port.node?.replace("urn:sdx:node:", "") || ""}
+                            {port.node ? toShortId(port.node) : ""}
                           </TableCell>
                           <TableCell>
                             <span className="inline-flex items-center px-2 py-1 rounded-md bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 text-xs font-medium">
@@ -465,7 +893,10 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
       {/* Link Details Modal */}
       <Dialog
         open={!!linkModalData}
-        onOpenChange={() => setLinkModalData(null)}
+        onOpenChange={() => {
+          setLinkModalData(null);
+          setMetricsLinkId(null);
+        }}
       >
         <DialogContent
           className="max-w-[98vw] w-full sm:w-[90vw] lg:w-[95vw] xl:w-[95vw] max-h-[90vh] overflow-y-auto topology-modal-content"
@@ -480,6 +911,32 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
             </p>
           </DialogHeader>
           <div className="space-y-6">
+            {metricsLink && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+                    Metrics
+                  </span>
+                  {linkModalData!.links.length > 1 &&
+                    linkModalData!.links.map((link) => (
+                      <button
+                        key={link.id}
+                        type="button"
+                        onClick={() => setMetricsLinkId(link.id)}
+                        className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                          link.id === metricsLink.id
+                            ? "bg-[rgb(50,135,200)] text-white"
+                            : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                        }`}
+                        title={link.id}
+                      >
+                        {link.name || link.id}
+                      </button>
+                    ))}
+                </div>
+                <LinkMetricsPanel link={metricsLink} />
+              </div>
+            )}
             <div className="flex items-center gap-4">
               <div className="flex-1">
                 <Input
@@ -533,7 +990,13 @@ export const TopologyMap: React.FC<TopologyMapProps> = ({
                   </TableHeader>
                   <TableBody>
                     {filteredLinks.map((link, index) => (
-                      <TableRow key={index}>
+                      <TableRow
+                        key={index}
+                        onClick={() => setMetricsLinkId(link.id)}
+                        className={`cursor-pointer ${
+                          link.id === metricsLink?.id ? "bg-muted/40" : ""
+                        }`}
+                      >
                         <TableCell className="font-mono text-xs">
                           {link.id}
                         </TableCell>
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Pause, Play, Radio } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { TopologySnapshotSummary } from "@/lib/topology-history";
+
+interface TopologyTimelineProps {
+  // Oldest first
+  snapshots: TopologySnapshotSummary[];
+  // captured_at of the snapshot on the map, null while showing live data
+  selected: number | null;
+  onSelect: (capturedAt: number | null) => void;
+  isLoading?: boolean;
+}
+
+const PLAYBACK_STEP_MS = 1000;
+
+function formatCapturedAt(capturedAt: number): string {
+  return new Date(capturedAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/**
+ * Slider over the recorded topology snapshots. Playback steps through them
+ * from the selected one and returns to live data after the newest.
+ */
+export function TopologyTimeline({
+  snapshots,
+  selected,
+  onSelect,
+  isLoading = false,
+}: TopologyTimelineProps) {
+  const [playing, setPlaying] = useState(false);
+
+  const selectedIndex =
+    selected === null
+      ? snapshots.length - 1
+      : snapshots.findIndex((snapshot) => snapshot.captured_at === selected);
+  const current = snapshots[selectedIndex];
+
+  useEffect(() => {
+    // Wait for the current step to load before taking the next one
+    if (!playing || isLoading) return;
+    const timer = setTimeout(() => {
+      const next = snapshots[selectedIndex + 1];
+      if (!next || selectedIndex + 1 === snapshots.length - 1) {
+        setPlaying(false);
+        onSelect(null);
+      } else {
+        onSelect(next.captured_at);
+      }
+    }, PLAYBACK_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, isLoading, selectedIndex, snapshots]);
+
+  if (snapshots.length < 2) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        History builds up as the topology is refreshed. At least two
+        snapshots are needed to play it back.
+      </p>
+    );
+  }
+
+  const togglePlayback = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Playing from live starts over at the oldest snapshot
+    if (selected === null) onSelect(snapshots[0].captured_at);
+    setPlaying(true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+          History
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={togglePlayback}
+            className="h-7 w-7 flex items-center justify-center rounded-md text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+            title={playing ? "Pause" : "Play"}
+          >
+            {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setPlaying(false);
+              onSelect(null);
+            }}
+            disabled={selected === null}
+            className={`h-7 px-2 flex items-center gap-1 rounded-md text-xs font-medium ${
+              selected === null
+                ? "bg-green-600 text-white"
+                : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+            }`}
+          >
+            <Radio className="w-3.5 h-3.5" />
+            Live
+          </button>
+        </div>
+      </div>
+
+      <Slider
+        min={0}
+        max={snapshots.length - 1}
+        step={1}
+        value={[Math.max(selectedIndex, 0)]}
+        onValueChange={([index]) => {
+          setPlaying(false);
+          onSelect(
+            index === snapshots.length - 1 ? null : snapshots[index].captured_at
+          );
+        }}
+      />
+
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{formatCapturedAt(snapshots[0].captured_at)}</span>
+        <span>{formatCapturedAt(snapshots[snapshots.length - 1].captured_at)}</span>
+      </div>
+
+      {current && (
+        <p className="text-xs">
+          <span className="font-medium">
+            {selected === null ? "Live" : formatCapturedAt(current.captured_at)}
+          </span>
+          {isLoading && " · loading…"}
+          <span className="text-muted-foreground">
+            {" "}
+            · {current.links_down} of {current.link_count} links down ·{" "}
+            {current.ports_down} ports down
+            {current.version && <> · version {current.version}</>}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
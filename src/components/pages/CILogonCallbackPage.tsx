@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   Card,
   CardContent,
@@ -16,6 +16,8 @@ import {
   decodeJWT,
   canSkipEmailValidation,
 } from "@/lib/token-storage";
+import { verifySignInToken } from "@/lib/jwt-verification";
+import { AuthTransaction, AuthTransactions } from "@/lib/auth-transactions";
 import { FullSDXLogo } from "@/components/FullSDXLogo";
 
 interface CILogonCallbackPageProps {
@@ -36,6 +38,9 @@ export function CILogonCallbackPage({
   const [state, setState] = useState<string | null>(null);
   const [tokenResponse, setTokenResponse] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  // The sign-in attempt this callback belongs to, consumed once so that a
+  // retry reuses it instead of being rejected as a replay
+  const transactionRef = useRef<AuthTransaction | null>(null);
 
   useEffect(() => {
     handleCallback();
@@ -59,6 +64,25 @@ export function CILogonCallbackPage({
         fullUrl: window.location.href,
       });
 
+      // Sign-in popup (e.g., linking): the opener exchanges the code
+      if (window.opener && !window.opener.closed) {
+        window.opener.postMessage(
+          {
+            type: "OAUTH_RESULT",
+            result: {
+              code: authCode ?? undefined,
+              state: authState ?? undefined,
+              error: authError ?? undefined,
+              error_description:
+                urlParams.get("error_description") ?? undefined,
+            },
+          },
+          window.location.origin
+        );
+        window.close();
+        return;
+      }
+
       if (authError) {
         throw new Error(`CILogon OAuth error: ${authError}`);
       }
@@ -67,23 +91,13 @@ export function CILogonCallbackPage({
         throw new Error("Missing authorization code or state parameter");
       }
 
-      // Get state from sessionStorage for validation
-      const storedState = sessionStorage.getItem("cilogon_state");
-
-      console.log("CILogon Callback - Session Storage:", {
-        storedState,
-        stateMatch: storedState === authState,
-      });
-
-      if (storedState !== authState) {
-        console.warn(
-          "State parameter mismatch - this may be normal for CILogon callback flow"
-        );
-        // Don't throw error - CILogon callback flow might work differently
-      }
+      // Only a callback for a sign-in started in this browser is accepted
+      const transaction =
+        transactionRef.current ?? AuthTransactions.consume("cilogon", authState);
+      transactionRef.current = transaction;
 
       // Exchange code for token using backend
-      await exchangeViaBackend(authCode, authState);
+      await exchangeViaBackend(authCode, authState, transaction);
     } catch (err) {
       console.error("CILogon callback error:", err);
       setError(err instanceof Error ? err.message : "Unknown error");
@@ -91,25 +105,22 @@ export function CILogonCallbackPage({
     }
   };
 
-  const exchangeViaBackend = async (authCode: string, authState: string) => {
+  const exchangeViaBackend = async (
+    authCode: string,
+    authState: string,
+    transaction: AuthTransaction
+  ) => {
     const backendUrl = config.backend.oauthExchangeUrl;
 
     console.log("Making request to backend:", backendUrl);
-
-    // Get the code verifier from session storage for PKCE
-    const codeVerifier = sessionStorage.getItem("cilogon_code_verifier");
-
-    console.log("Code verifier found:", !!codeVerifier);
-    if (!codeVerifier) {
-      console.warn("No code verifier found in sessionStorage");
-    }
+    console.log("Code verifier found:", !!transaction.code_verifier);
 
     const requestBody = {
       provider: "cilogon",
       code: authCode,
       state: authState,
-      redirect_uri: config.cilogon.redirectUri,
-      code_verifier: codeVerifier, // Add code verifier for PKCE
+      redirect_uri: config.identityProviders.cilogon.redirectUri,
+      code_verifier: transaction.code_verifier, // Add code verifier for PKCE
     };
 
     console.log("Backend request body:", requestBody);
@@ -138,15 +149,13 @@ export function CILogonCallbackPage({
     console.log("Backend response parsed:", result);
 
     if (result.success && result.tokenData) {
-      setTokenResponse(result.tokenData);
-      setStatus("success");
-
       // Store the token data first
       const tokenData = {
         ...result.tokenData,
         expires_in: 3600,
         issued_at: Math.floor(Date.now() / 1000), // Add current timestamp
         provider: "cilogon" as const, // Ensure provider is set
+        nonce: transaction.nonce,
       };
 
       console.log("Raw token data from backend:", result.tokenData);
@@ -158,6 +167,16 @@ export function CILogonCallbackPage({
         console.log("Decoded ID Token:", decodedIdToken);
       }
 
+      // A token with a bad signature or another attempt's nonce is never
+      // stored and starts no session
+      const verification = await verifySignInToken(
+        tokenData,
+        transaction.nonce
+      );
+      console.log("ID token verification:", verification);
+
+      setTokenResponse(result.tokenData);
+      setStatus("success");
       TokenStorage.setToken("cilogon", tokenData);
 
       // Verify the token was stored correctly
@@ -168,8 +187,8 @@ export function CILogonCallbackPage({
         TokenStorage.isTokenValid(storedToken)
       );
 
-      // Check if email validation can be skipped
-      const emailCheck = canSkipEmailValidation(tokenData);
+      // Check if email validation can be skipped; only verified claims count
+      const emailCheck = canSkipEmailValidation(tokenData, verification);
       console.log("Email validation check:", emailCheck);
 
       // Create session for the authenticated user
@@ -218,11 +237,6 @@ export function CILogonCallbackPage({
     } else {
       throw new Error("Backend returned invalid response format");
     }
-
-    // Clean up session storage
-    sessionStorage.removeItem("cilogon_state");
-    sessionStorage.removeItem("cilogon_code_verifier");
-    localStorage.removeItem("cilogon_state_backup");
   };
 
   const formatJSON = (obj: any) => {
@@ -420,7 +434,7 @@ export function CILogonCallbackPage({
                     Client ID:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.cilogon.clientId}
+                    {config.identityProviders.cilogon.clientId}
                   </div>
                 </div>
                 <div>
@@ -428,7 +442,7 @@ export function CILogonCallbackPage({
                     Redirect URI:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.cilogon.redirectUri}
+                    {config.identityProviders.cilogon.redirectUri}
                   </div>
                 </div>
                 <div>
@@ -436,7 +450,7 @@ export function CILogonCallbackPage({
                     Token URL:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.cilogon.tokenUrl}
+                    {config.identityProviders.cilogon.tokenUrl}
                   </div>
                 </div>
                 <div>
@@ -444,7 +458,7 @@ export function CILogonCallbackPage({
                     Scope:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.cilogon.scope}
+                    {config.identityProviders.cilogon.scope}
                   </div>
                 </div>
               </div>
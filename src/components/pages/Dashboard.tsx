@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
@@ -10,12 +10,33 @@ import {
 } from "@/components/ui/dialog";
 import Tooltip from "@mui/material/Tooltip";
 import { toast } from "sonner";
-import { Pencil, Trash2, Save, X } from "lucide-react";
 import {
+  Pencil,
+  Trash2,
+  Save,
+  X,
+  FileSearch,
+  MapPin,
+  Upload,
+  Download,
+  CalendarDays,
+  Activity,
+  Filter,
+  Map as MapIcon,
+  Network,
+  Cable,
+} from "lucide-react";
+import {
+  Provider,
   TokenData,
   TopologyResponse,
   TopologyNode,
   TopologyLink,
+  L2VPN,
+  L2VPNEndpoint,
+  L2VPNRequest,
+  L2VPNUpdate,
+  QosMetrics,
 } from "@/lib/types";
 import {
   Table,
@@ -25,29 +46,93 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import {
-  TokenStorage,
-  calculateOwnership,
-  decodeJWT,
-} from "@/lib/token-storage";
+import { TokenStorage } from "@/lib/token-storage";
+import { IdentityLinks, getCurrentOwnership } from "@/lib/identity-links";
+import { getProvider, listProviders } from "@/lib/providers/registry";
 import { ApiService } from "@/lib/api";
+import {
+  SdxApiError,
+  SdxAuthError,
+  SdxCancelledError,
+  describeApiError,
+  getErrorMessage,
+} from "@/lib/api-errors";
 import {
   processTopologyData,
   convertToMapFormat,
+  resolveL2VPNPath,
   ProcessedTopology,
 } from "@/lib/topology-processor";
+import {
+  CHANGE_LABELS,
+  DEGRADING_CHANGES,
+  TopologyChange,
+  diffTopology,
+  isSameSnapshot,
+} from "@/lib/topology-diff";
+import {
+  TopologySnapshotSummary,
+  listTopologySnapshots,
+  loadTopologySnapshot,
+  recordTopologySnapshot,
+} from "@/lib/topology-history";
+import {
+  discoverDomains,
+  loadDomainSelection,
+  saveDomainSelection,
+} from "@/lib/topology-domains";
+import { validateTopology } from "@/lib/topology-quality";
 import { config } from "@/lib/config";
+import { downloadTextFile } from "@/lib/utils";
+import {
+  BULK_FORMATS,
+  BulkFormat,
+  serializeBulkExport,
+  toL2VPNRequest,
+} from "@/lib/l2vpn-bulk";
+import {
+  checkEndpointVlan,
+  collectVlanUsage,
+  findVlanConflicts,
+} from "@/lib/vlan-allocation";
+import {
+  PENDING_L2VPN_FORM_KEY,
+  clearPendingForm,
+  hasPendingForm,
+} from "@/lib/form-persistence";
 import { NewL2VPNModal } from "@/components/NewL2VPNModal";
+import { BulkL2VPNImport } from "@/components/BulkL2VPNImport";
+import { L2VPNScheduleCalendar } from "@/components/L2VPNScheduleCalendar";
 import { TopologyMap } from "@/components/TopologyMap";
+import { TopologyGraph } from "@/components/TopologyGraph";
+import { TopologyChangeFeed } from "@/components/TopologyChangeFeed";
+import { TopologyTimeline } from "@/components/TopologyTimeline";
+import { LinkRankings } from "@/components/LinkRankings";
+import { DomainFilterPanel } from "@/components/DomainFilterPanel";
+import { DataQualityPanel } from "@/components/DataQualityPanel";
+import { PortInventory } from "@/components/PortInventory";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { TokenPage } from "@/components/pages/TokenPage";
 import sdxLogo from "@/assets/images/sdx-logo.svg";
 import logoImage from "@/assets/images/no-background-logo 2.png";
 
+const LIVE_TOPOLOGY_KEY = "sdx_topology_live";
+const TOPOLOGY_VIEW_KEY = "sdx_topology_view";
+
+type TopologyView = "map" | "graph";
+
 interface DashboardProps {
   onBack: () => void;
   onNavigateToTokens: () => void;
   onLogout?: () => void;
+  onViewL2VPN?: (serviceId: string) => void;
+}
+
+interface L2VPNEditForm {
+  name: string;
+  description: string;
+  endpoints: L2VPNEndpoint[];
+  qos_metrics: Required<QosMetrics>;
 }
 
 // Icon Components
@@ -283,11 +368,11 @@ export function Dashboard({
   onBack,
   onNavigateToTokens,
   onLogout,
+  onViewL2VPN,
 }: DashboardProps) {
-  const [tokens, setTokens] = useState<{
-    cilogon?: TokenData;
-    orcid?: TokenData;
-  }>({});
+  const [tokens, setTokens] = useState<Partial<Record<Provider, TokenData>>>(
+    {}
+  );
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(true);
   const [selectedSection, setSelectedSection] = useState<
     | "newL2VPN"
@@ -295,9 +380,18 @@ export function Dashboard({
     | "topologyStats"
     | "manageTokens"
     | "listL2VPNs"
+    | "schedule"
+    | "topologyChanges"
+    | "domainFilter"
+    | "portInventory"
     | null
-  >(null);
+  >(() =>
+    // Reopen an L2VPN request that was interrupted by a forced re-login
+    hasPendingForm(PENDING_L2VPN_FORM_KEY) ? "newL2VPN" : null
+  );
   const [showNewL2VPNModal, setShowNewL2VPNModal] = useState(false);
+  // Port the inline new L2VPN form starts from
+  const [l2vpnStartPort, setL2vpnStartPort] = useState<string | null>(null);
   const [showTopologyInfo, setShowTopologyInfo] = useState(false);
   const [showAuthInfo, setShowAuthInfo] = useState(false);
   const [topology, setTopology] = useState<TopologyResponse | null>(null);
@@ -305,10 +399,10 @@ export function Dashboard({
     useState<ProcessedTopology | null>(null);
   const [isLoadingTopology, setIsLoadingTopology] = useState(false);
   const [topologyError, setTopologyError] = useState<string | null>(null);
-  const [allowedDomains] = useState<string[]>([
-    ...config.topology.allowedDomains,
-  ]);
-  const [l2vpns, setL2vpns] = useState<any[]>([]);
+  const [allowedDomains, setAllowedDomains] = useState<string[]>(
+    loadDomainSelection
+  );
+  const [l2vpns, setL2vpns] = useState<L2VPN[]>([]);
   const [isLoadingL2VPNs, setIsLoadingL2VPNs] = useState(false);
   const [l2vpnError, setL2vpnError] = useState<string | null>(null);
   const [deletingL2VPNId, setDeletingL2VPNId] = useState<string | null>(null);
@@ -316,13 +410,64 @@ export function Dashboard({
     null
   );
   const [editingL2VPNId, setEditingL2VPNId] = useState<string | null>(null);
-  const [editFormData, setEditFormData] = useState<any | null>(null);
+  const [editFormData, setEditFormData] = useState<L2VPNEditForm | null>(
+    null
+  );
   const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [highlightedL2VPN, setHighlightedL2VPN] = useState<L2VPN | null>(null);
+  const [showBulkImport, setShowBulkImport] = useState(false);
+  const [selectedL2VPNIds, setSelectedL2VPNIds] = useState<Set<string>>(
+    new Set()
+  );
+  const [liveTopology, setLiveTopology] = useState(
+    () => localStorage.getItem(LIVE_TOPOLOGY_KEY) === "true"
+  );
+  const [topologyChanges, setTopologyChanges] = useState<TopologyChange[]>([]);
+  const [lastTopologyCheck, setLastTopologyCheck] = useState<Date | null>(
+    null
+  );
+  const [topologyHistory, setTopologyHistory] = useState<
+    TopologySnapshotSummary[]
+  >([]);
+  // Recorded snapshot shown on the map instead of the live topology
+  const [playback, setPlayback] = useState<{
+    captured_at: number;
+    topology: TopologyResponse;
+    processed: ProcessedTopology;
+  } | null>(null);
+  const [playbackTarget, setPlaybackTarget] = useState<number | null>(null);
+  const [topologyView, setTopologyView] = useState<TopologyView>(() =>
+    localStorage.getItem(TOPOLOGY_VIEW_KEY) === "graph" ? "graph" : "map"
+  );
+  const playbackTargetRef = useRef<number | null>(null);
+  // Read by snapshots applied from the background poll
+  const allowedDomainsRef = useRef(allowedDomains);
+  const topologyRequestRef = useRef<AbortController | null>(null);
+  // Last applied snapshot, read by the background poll
+  const topologyRef = useRef<TopologyResponse | null>(null);
+  const topologyPollFailedRef = useRef(false);
 
   useEffect(() => {
     loadTokens();
+    refreshTopologyHistory();
+    return () => topologyRequestRef.current?.abort();
   }, []);
 
+  useEffect(() => {
+    allowedDomainsRef.current = allowedDomains;
+    saveDomainSelection(allowedDomains);
+
+    // Redraw what is on the map with the new selection
+    if (topologyRef.current) {
+      setProcessedTopology(
+        processTopologyData(topologyRef.current, allowedDomains)
+      );
+    }
+    if (playbackTargetRef.current !== null) {
+      handleSelectSnapshot(playbackTargetRef.current);
+    }
+  }, [allowedDomains]);
+
   useEffect(() => {
     // Load topology when we have valid authentication
     if (Object.keys(tokens).length > 0 && ApiService.hasValidAuth()) {
@@ -331,54 +476,166 @@ export function Dashboard({
   }, [tokens]);
 
   useEffect(() => {
-    // Auto-load L2VPNs when the section is opened
+    // Auto-load L2VPNs when a section that shows them is opened; the new
+    // L2VPN form needs them to know which VLANs are already taken
     if (
-      selectedSection === "listL2VPNs" &&
+      (selectedSection === "listL2VPNs" ||
+        selectedSection === "newL2VPN" ||
+        selectedSection === "schedule" ||
+        selectedSection === "portInventory") &&
       hasValidTokens &&
       l2vpns.length === 0 &&
       !isLoadingL2VPNs
     ) {
       loadL2VPNs();
     }
+    // A port picked in the inventory only applies to the form it opened
+    if (selectedSection !== "newL2VPN") setL2vpnStartPort(null);
   }, [selectedSection]);
 
   const loadTokens = () => {
-    const cilogon = TokenStorage.getToken("cilogon");
-    const orcid = TokenStorage.getToken("orcid");
+    const validTokens: Partial<Record<Provider, TokenData>> = {};
+    listProviders().forEach(({ id }) => {
+      const token = TokenStorage.getToken(id);
+      if (token && TokenStorage.isTokenValid(token)) validTokens[id] = token;
+    });
+
+    setTokens(validTokens);
+  };
 
-    const validTokens: any = {};
+  /**
+   * Apply a fetched snapshot. Returns null when it is the one already
+   * shown; otherwise diffs it against that one and announces the changes.
+   */
+  const applyTopologySnapshot = (
+    topologyData: TopologyResponse
+  ): ProcessedTopology | null => {
+    const previous = topologyRef.current;
+    setLastTopologyCheck(new Date());
+    if (previous && isSameSnapshot(previous, topologyData)) return null;
+
+    topologyRef.current = topologyData;
+    setTopology(topologyData);
+
+    // Process topology data using PHP-equivalent logic
+    console.log(
+      "Processing topology data with allowed domains:",
+      allowedDomainsRef.current
+    );
+    const processed = processTopologyData(
+      topologyData,
+      allowedDomainsRef.current
+    );
+    console.log("Processed topology data:", processed);
+
+    setProcessedTopology(processed);
+
+    recordTopologySnapshot(topologyData)
+      .then((summary) => summary && refreshTopologyHistory())
+      .catch((error) =>
+        console.warn("Failed to record topology snapshot:", error)
+      );
 
-    if (cilogon && TokenStorage.isTokenValid(cilogon)) {
-      validTokens.cilogon = cilogon;
+    if (previous) {
+      const changes = diffTopology(previous, topologyData);
+      if (changes.length > 0) {
+        setTopologyChanges((prev) =>
+          [...changes, ...prev].slice(0, config.topology.maxChangeFeedEntries)
+        );
+        announceTopologyChanges(changes);
+      }
     }
+    return processed;
+  };
 
-    if (orcid && TokenStorage.isTokenValid(orcid)) {
-      validTokens.orcid = orcid;
+  const refreshTopologyHistory = async () => {
+    try {
+      setTopologyHistory(await listTopologySnapshots());
+    } catch (error) {
+      console.warn("Topology history is unavailable:", error);
     }
+  };
 
-    setTokens(validTokens);
+  // Show a recorded snapshot, run through the same pipeline as live data
+  const handleSelectSnapshot = async (capturedAt: number | null) => {
+    playbackTargetRef.current = capturedAt;
+    setPlaybackTarget(capturedAt);
+    if (capturedAt === null) {
+      setPlayback(null);
+      return;
+    }
+
+    try {
+      const snapshot = await loadTopologySnapshot(capturedAt);
+      if (!snapshot) {
+        toast.error("That topology snapshot is no longer stored");
+        refreshTopologyHistory();
+        return;
+      }
+      const processed = processTopologyData(
+        snapshot,
+        allowedDomainsRef.current
+      );
+      // A later selection may have landed while this one was loading
+      if (playbackTargetRef.current === capturedAt) {
+        setPlayback({ captured_at: capturedAt, topology: snapshot, processed });
+      }
+    } catch (error) {
+      console.error("Failed to load topology snapshot:", error);
+      toast.error(`Loading topology snapshot failed: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const announceTopologyChanges = (changes: TopologyChange[]) => {
+    const openFeed = {
+      label: "View",
+      onClick: () => setSelectedSection("topologyChanges"),
+    };
+
+    if (changes.length > 3) {
+      const degraded = changes.filter((change) =>
+        DEGRADING_CHANGES.includes(change.kind)
+      ).length;
+      toast.info(`Topology changed: ${changes.length} updates`, {
+        description:
+          degraded > 0 ? `${degraded} links, ports or nodes went away` : undefined,
+        action: openFeed,
+      });
+      return;
+    }
+
+    changes.forEach((change) => {
+      const message = `${CHANGE_LABELS[change.kind]}: ${change.label}`;
+      const options = { description: change.detail, action: openFeed };
+      if (DEGRADING_CHANGES.includes(change.kind)) {
+        toast.warning(message, options);
+      } else {
+        toast.success(message, options);
+      }
+    });
   };
 
   const loadTopology = async () => {
+    // Cancel any refresh still in flight so a stale response cannot win
+    topologyRequestRef.current?.abort();
+    const controller = new AbortController();
+    topologyRequestRef.current = controller;
+
     setIsLoadingTopology(true);
     setTopologyError(null);
 
     try {
       console.log("Loading topology data from API...");
-      const topologyData = await ApiService.getTopology();
+      const topologyData = await ApiService.getTopology({
+        signal: controller.signal,
+      });
       console.log("Raw topology data received:", topologyData);
 
-      setTopology(topologyData);
-
-      // Process topology data using PHP-equivalent logic
-      console.log(
-        "Processing topology data with allowed domains:",
-        allowedDomains
-      );
-      const processed = processTopologyData(topologyData, allowedDomains);
-      console.log("Processed topology data:", processed);
-
-      setProcessedTopology(processed);
+      const processed = applyTopologySnapshot(topologyData);
+      if (!processed) {
+        toast.info("Topology is already up to date");
+        return;
+      }
 
       const nodeCount = Object.keys(processed.nodes_array).length;
       const linkCount = processed.latlng_array.length;
@@ -387,21 +644,63 @@ export function Dashboard({
         `Topology processed: ${nodeCount} location groups, ${linkCount} connections`
       );
     } catch (error) {
+      if (error instanceof SdxCancelledError) return;
       console.error("Failed to load topology:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error occurred";
-      setTopologyError(errorMessage);
+      setTopologyError(getErrorMessage(error));
+      toast.error(describeApiError("Loading topology", error));
+    } finally {
+      if (topologyRequestRef.current === controller) {
+        topologyRequestRef.current = null;
+        setIsLoadingTopology(false);
+      }
+    }
+  };
 
-      if (errorMessage.includes("authentication")) {
-        toast.error("Authentication failed. Please login again.");
-      } else {
-        toast.error(`Failed to load topology: ${errorMessage}`);
+  // Background refresh: no spinner, and a failure streak is reported once
+  const pollTopology = async () => {
+    if (topologyRequestRef.current || document.hidden) return;
+    if (!ApiService.hasValidAuth()) return;
+
+    const controller = new AbortController();
+    topologyRequestRef.current = controller;
+
+    try {
+      const topologyData = await ApiService.getTopology({
+        signal: controller.signal,
+      });
+      applyTopologySnapshot(topologyData);
+      topologyPollFailedRef.current = false;
+      setTopologyError(null);
+    } catch (error) {
+      if (error instanceof SdxCancelledError) return;
+      console.error("Background topology refresh failed:", error);
+      if (!topologyPollFailedRef.current) {
+        topologyPollFailedRef.current = true;
+        toast.error(describeApiError("Refreshing topology", error));
       }
     } finally {
-      setIsLoadingTopology(false);
+      if (topologyRequestRef.current === controller) {
+        topologyRequestRef.current = null;
+      }
     }
   };
 
+  const handleToggleLiveTopology = (enabled: boolean) => {
+    setLiveTopology(enabled);
+    localStorage.setItem(LIVE_TOPOLOGY_KEY, String(enabled));
+    topologyPollFailedRef.current = false;
+  };
+
+  const handleStartL2VPNAtPort = (portId: string) => {
+    setL2vpnStartPort(portId);
+    setSelectedSection("newL2VPN");
+  };
+
+  const handleChangeTopologyView = (view: TopologyView) => {
+    setTopologyView(view);
+    localStorage.setItem(TOPOLOGY_VIEW_KEY, view);
+  };
+
   const loadL2VPNs = async () => {
     setIsLoadingL2VPNs(true);
     setL2vpnError(null);
@@ -415,15 +714,8 @@ export function Dashboard({
       toast.success(`Loaded ${l2vpnData.length} L2VPN connection(s)`);
     } catch (error) {
       console.error("Failed to load L2VPNs:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error occurred";
-      setL2vpnError(errorMessage);
-
-      if (errorMessage.includes("authentication")) {
-        toast.error("Authentication failed. Please login again.");
-      } else {
-        toast.error(`Failed to load L2VPNs: ${errorMessage}`);
-      }
+      setL2vpnError(getErrorMessage(error));
+      toast.error(describeApiError("Loading L2VPNs", error));
     } finally {
       setIsLoadingL2VPNs(false);
     }
@@ -437,36 +729,61 @@ export function Dashboard({
 
       // Remove from local state
       setL2vpns((prev) =>
-        prev.filter(
-          (l2vpn) => (l2vpn.id || l2vpn.uuid || l2vpn.service_id) !== serviceId
-        )
+        prev.filter((l2vpn) => l2vpn.service_id !== serviceId)
+      );
+      setHighlightedL2VPN((prev) =>
+        prev?.service_id === serviceId ? null : prev
       );
+      setSelectedL2VPNIds((prev) => {
+        const next = new Set(prev);
+        next.delete(serviceId);
+        return next;
+      });
 
       toast.success("L2VPN deleted successfully");
       setShowDeleteConfirm(null);
     } catch (error) {
       console.error("Failed to delete L2VPN:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error occurred";
-      toast.error(`Failed to delete L2VPN: ${errorMessage}`);
+      toast.error(describeApiError("Deleting L2VPN", error));
     } finally {
       setDeletingL2VPNId(null);
     }
   };
 
-  const handleStartEdit = (l2vpn: any) => {
-    const serviceId = l2vpn.id || l2vpn.uuid || l2vpn.service_id;
-    setEditingL2VPNId(serviceId);
+  const toggleL2VPNSelection = (serviceId: string) => {
+    setSelectedL2VPNIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(serviceId)) next.delete(serviceId);
+      else next.add(serviceId);
+      return next;
+    });
+  };
+
+  const handleExportL2VPNs = (format: BulkFormat) => {
+    const selected = l2vpns.filter((l2vpn) =>
+      selectedL2VPNIds.has(l2vpn.service_id)
+    );
+    if (selected.length === 0) {
+      toast.error("Select at least one L2VPN to export");
+      return;
+    }
+
+    const { extension, mimeType } = BULK_FORMATS[format];
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(
+      serializeBulkExport(selected.map(toL2VPNRequest), format),
+      `l2vpns-${date}.${extension}`,
+      mimeType
+    );
+    toast.success(`Exported ${selected.length} L2VPN(s) as ${format.toUpperCase()}`);
+  };
+
+  const handleStartEdit = (l2vpn: L2VPN) => {
+    setEditingL2VPNId(l2vpn.service_id);
     setEditFormData({
-      name: l2vpn.name || "",
+      name: l2vpn.name,
       description: l2vpn.description || "",
-      endpoints: Array.isArray(l2vpn.endpoints)
-        ? l2vpn.endpoints.map((ep: any) =>
-            typeof ep === "string"
-              ? { port_id: ep, vlan: "" }
-              : { port_id: ep.port_id || ep.port || "", vlan: ep.vlan || "" }
-          )
-        : [],
+      endpoints: l2vpn.endpoints.map((ep) => ({ ...ep })),
       qos_metrics: {
         min_bw: {
           value: l2vpn.qos_metrics?.min_bw?.value ?? 0,
@@ -492,9 +809,17 @@ export function Dashboard({
   const handleEditL2VPN = async () => {
     if (!editingL2VPNId || !editFormData) return;
 
+    const vlanProblems = editVlanIssues.flatMap((issue, index) =>
+      issue ? [`Endpoint ${index + 1}: ${issue.message}`] : []
+    );
+    if (vlanProblems.length > 0) {
+      toast.error(`Fix VLAN conflicts first:\n${vlanProblems.join("\n")}`);
+      return;
+    }
+
     setIsSavingEdit(true);
     try {
-      const patchBody: any = {
+      const patchBody: L2VPNUpdate = {
         service_id: editingL2VPNId,
         name: editFormData.name,
         endpoints: editFormData.endpoints,
@@ -510,7 +835,7 @@ export function Dashboard({
           (qm.max_delay && qm.max_delay.value > 0) ||
           (qm.max_number_oxps && qm.max_number_oxps.value > 0));
       if (hasQos) {
-        const qos_metrics: any = {};
+        const qos_metrics: QosMetrics = {};
         if (qm.min_bw && qm.min_bw.value > 0)
           qos_metrics.min_bw = { value: Number(qm.min_bw.value), strict: qm.min_bw.strict };
         if (qm.max_delay && qm.max_delay.value > 0)
@@ -525,8 +850,7 @@ export function Dashboard({
       // Update local state
       setL2vpns((prev) =>
         prev.map((l2vpn) => {
-          const id = l2vpn.id || l2vpn.uuid || l2vpn.service_id;
-          if (id !== editingL2VPNId) return l2vpn;
+          if (l2vpn.service_id !== editingL2VPNId) return l2vpn;
           return {
             ...l2vpn,
             name: editFormData.name,
@@ -542,9 +866,7 @@ export function Dashboard({
       setEditFormData(null);
     } catch (error) {
       console.error("Failed to update L2VPN:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error occurred";
-      toast.error(`Failed to update L2VPN: ${errorMessage}`);
+      toast.error(describeApiError("Updating L2VPN", error));
     } finally {
       setIsSavingEdit(false);
     }
@@ -552,6 +874,7 @@ export function Dashboard({
 
   const handleLogout = () => {
     TokenStorage.clearAllTokens();
+    IdentityLinks.clear();
     setTokens({});
     toast.success("Successfully logged out");
     onBack();
@@ -582,53 +905,32 @@ export function Dashboard({
     return allPorts;
   };
 
-  const handleNewL2VPN = async (l2vpnData: any) => {
+  const handleNewL2VPN = async (l2vpnData: L2VPNRequest) => {
     let loadingToast: any = null;
 
     try {
       console.log("L2VPN Data received from form:", l2vpnData);
 
-      // Get the most recent token to extract sub field
-      const orcidToken = TokenStorage.getToken("orcid");
-      const cilogonToken = TokenStorage.getToken("cilogon");
-      const validTokens = [orcidToken, cilogonToken].filter(
-        (token) => token && TokenStorage.isTokenValid(token)
-      );
-
-      if (validTokens.length === 0) {
-        toast.error("No valid authentication token found. Please login again.");
-        return;
-      }
-
-      const mostRecentToken = validTokens.sort(
-        (a, b) => b!.issued_at - a!.issued_at
-      )[0];
-
-      if (!mostRecentToken?.id_token) {
-        toast.error("No ID token found. Please login again.");
+      // Ownership hash of the acting identity
+      let ownership: string;
+      try {
+        ownership = await getCurrentOwnership();
+      } catch (error) {
+        toast.error(getErrorMessage(error));
         return;
       }
-
-      // Decode JWT to get sub field
-      const claims = decodeJWT(mostRecentToken.id_token);
-      if (!claims?.sub) {
-        toast.error("Could not extract user information from token.");
-        return;
-      }
-
-      console.log("Extracted sub from JWT:", claims.sub);
-
-      // Calculate ownership hash from sub
-      const ownership = await calculateOwnership(claims.sub);
       console.log("Calculated ownership:", ownership);
 
       // Build request payload matching PHP format
-      const requestPayload = {
+      const requestPayload: L2VPNRequest = {
         name: l2vpnData.name,
         endpoints: l2vpnData.endpoints,
         ...(l2vpnData.description && { description: l2vpnData.description }),
         ...(l2vpnData.scheduling && { scheduling: l2vpnData.scheduling }),
         ...(l2vpnData.qos_metrics && { qos_metrics: l2vpnData.qos_metrics }),
+        ...(l2vpnData.notifications && {
+          notifications: l2vpnData.notifications,
+        }),
         ownership: ownership,
       };
 
@@ -656,37 +958,97 @@ export function Dashboard({
       // Dismiss loading toast
       if (loadingToast) toast.dismiss(loadingToast);
 
+      clearPendingForm(PENDING_L2VPN_FORM_KEY);
       toast.success(`L2VPN "${l2vpnData.name}" created successfully!`);
 
       // Optionally reload topology to show new connection
       // await loadTopology();
-    } catch (error: any) {
+    } catch (error) {
       console.error("Failed to create L2VPN:", error);
-      console.log("Error object:", error);
-      console.log("Error responseData:", error.responseData);
 
       // Dismiss loading toast first
       if (loadingToast) toast.dismiss(loadingToast);
 
+      // Missing or expired token: keep the form for after re-login. A 403
+      // is not fixed by signing in again.
+      if (
+        error instanceof SdxAuthError &&
+        (error.status === undefined || error.status === 401)
+      ) {
+        toast.error(describeApiError("Creating L2VPN", error));
+        return;
+      }
+      clearPendingForm(PENDING_L2VPN_FORM_KEY);
+
       // Show error in alert with full response data
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      const errorData = error.responseData
-        ? JSON.stringify(error.responseData, null, 2)
-        : errorMessage;
+      const errorData =
+        error instanceof SdxApiError && error.responseData
+          ? JSON.stringify(error.responseData, null, 2)
+          : getErrorMessage(error);
 
-      console.log("About to show alert with data:", errorData);
       alert(`❌ L2VPN Creation Failed!\n\nFull Response:\n${errorData}`);
-      console.log("Alert was shown");
 
-      toast.error(
-        error instanceof Error
-          ? `Failed to create L2VPN: ${error.message}`
-          : "Failed to create L2VPN connection"
-      );
+      toast.error(describeApiError("Creating L2VPN", error));
     }
   };
 
+  // VLAN problems in the inline edit form, by endpoint index
+  const editVlanIssues = useMemo(() => {
+    if (!editingL2VPNId || !editFormData) return [];
+
+    const usage = collectVlanUsage(l2vpns, editingL2VPNId);
+    const ports = extractAllPorts();
+    const conflicts = findVlanConflicts(editFormData.endpoints);
+
+    return editFormData.endpoints.map((endpoint, index) => {
+      if (!endpoint.vlan) {
+        return { message: "VLAN is required", suggestions: [] as string[] };
+      }
+      const port = ports.find((p) => p.id === endpoint.port_id);
+      const check = port
+        ? checkEndpointVlan(endpoint, port.vlan_range, usage.get(endpoint.port_id))
+        : null;
+      if (check?.error) {
+        return { message: check.error, suggestions: check.suggestions };
+      }
+      const conflict = conflicts.find((c) => c.index === index);
+      return conflict ? { message: conflict.message, suggestions: [] as string[] } : null;
+    });
+  }, [editingL2VPNId, editFormData, l2vpns, processedTopology]);
+
+  const topologyDomains = useMemo(
+    () => (topology ? discoverDomains(topology) : []),
+    [topology]
+  );
+
+  const qualityReport = useMemo(
+    () => (topology ? validateTopology(topology) : null),
+    [topology]
+  );
+
+  // The map shows a recorded snapshot while history is being played back
+  const mapTopology = playback?.processed ?? processedTopology;
+  const rawTopology = playback?.topology ?? topology;
+
+  const topologyTimeline = (
+    <TopologyTimeline
+      snapshots={topologyHistory}
+      selected={playbackTarget}
+      onSelect={handleSelectSnapshot}
+      isLoading={
+        playbackTarget !== null && playback?.captured_at !== playbackTarget
+      }
+    />
+  );
+
+  const highlightedPath = useMemo(
+    () =>
+      mapTopology && highlightedL2VPN
+        ? resolveL2VPNPath(mapTopology, highlightedL2VPN)
+        : null,
+    [mapTopology, highlightedL2VPN]
+  );
+
   const nodeCount = processedTopology
     ? Object.keys(processedTopology.nodes_array).length
     : 0;
@@ -696,6 +1058,12 @@ export function Dashboard({
   const availableTokens = Object.entries(tokens);
   const hasValidTokens = availableTokens.length > 0;
 
+  useEffect(() => {
+    if (!liveTopology || !hasValidTokens) return;
+    const timer = setInterval(pollTopology, config.topology.pollIntervalMs);
+    return () => clearInterval(timer);
+  }, [liveTopology, hasValidTokens]);
+
   return (
     <div className="min-h-screen bg-background text-foreground relative">
       {/* Left Sidebar */}
@@ -878,6 +1246,29 @@ export function Dashboard({
                 </Button>
               </BlueTooltip>
 
+              {/* Schedule Calendar Button */}
+              <BlueTooltip title="L2VPN Schedule" placement="right">
+                <Button
+                  onClick={() => {
+                    if (selectedSection === "schedule") {
+                      setSelectedSection(null);
+                    } else {
+                      setSelectedSection("schedule");
+                    }
+                  }}
+                  variant="ghost"
+                  size="sm"
+                  className={`w-full justify-center px-0 ${
+                    selectedSection === "schedule"
+                      ? "bg-[rgb(236,244,250)] dark:bg-blue-500/20 border border-[rgb(64,143,204)] dark:border-blue-400/50"
+                      : ""
+                  } text-[rgb(50,135,200)] dark:text-blue-400 hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-sm hover:translate-x-0.5 disabled:hover:translate-x-0`}
+                  disabled={!hasValidTokens}
+                >
+                  <CalendarDays className="w-5 h-5" />
+                </Button>
+              </BlueTooltip>
+
               {/* Status Section Buttons */}
               <BlueTooltip title="Connection Status" placement="right">
                 <Button
@@ -923,6 +1314,75 @@ export function Dashboard({
                 </Button>
               </BlueTooltip>
 
+              <BlueTooltip title="Topology Changes" placement="right">
+                <Button
+                  onClick={() => {
+                    if (selectedSection === "topologyChanges") {
+                      setSelectedSection(null);
+                    } else {
+                      setSelectedSection("topologyChanges");
+                    }
+                  }}
+                  variant="ghost"
+                  size="sm"
+                  className={`relative w-full justify-center px-0 ${
+                    selectedSection === "topologyChanges"
+                      ? "bg-[rgb(236,244,250)] dark:bg-blue-500/20 border border-[rgb(64,143,204)] dark:border-blue-400/50"
+                      : ""
+                  } text-[rgb(50,135,200)] dark:text-blue-400 hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-sm hover:translate-x-0.5 disabled:hover:translate-x-0`}
+                  disabled={!hasValidTokens}
+                >
+                  <Activity className="w-5 h-5" />
+                  {liveTopology && (
+                    <span className="absolute top-1 right-3 w-2 h-2 rounded-full bg-green-500" />
+                  )}
+                </Button>
+              </BlueTooltip>
+
+              <BlueTooltip title="Domains" placement="right">
+                <Button
+                  onClick={() => {
+                    if (selectedSection === "domainFilter") {
+                      setSelectedSection(null);
+                    } else {
+                      setSelectedSection("domainFilter");
+                    }
+                  }}
+                  variant="ghost"
+                  size="sm"
+                  className={`w-full justify-center px-0 ${
+                    selectedSection === "domainFilter"
+                      ? "bg-[rgb(236,244,250)] dark:bg-blue-500/20 border border-[rgb(64,143,204)] dark:border-blue-400/50"
+                      : ""
+                  } text-[rgb(50,135,200)] dark:text-blue-400 hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-sm hover:translate-x-0.5 disabled:hover:translate-x-0`}
+                  disabled={!topology && !isLoadingTopology}
+                >
+                  <Filter className="w-5 h-5" />
+                </Button>
+              </BlueTooltip>
+
+              <BlueTooltip title="Port Inventory" placement="right">
+                <Button
+                  onClick={() => {
+                    if (selectedSection === "portInventory") {
+                      setSelectedSection(null);
+                    } else {
+                      setSelectedSection("portInventory");
+                    }
+                  }}
+                  variant="ghost"
+                  size="sm"
+                  className={`w-full justify-center px-0 ${
+                    selectedSection === "portInventory"
+                      ? "bg-[rgb(236,244,250)] dark:bg-blue-500/20 border border-[rgb(64,143,204)] dark:border-blue-400/50"
+                      : ""
+                  } text-[rgb(50,135,200)] dark:text-blue-400 hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 hover:shadow-sm hover:translate-x-0.5 disabled:hover:translate-x-0`}
+                  disabled={!topology}
+                >
+                  <Cable className="w-5 h-5" />
+                </Button>
+              </BlueTooltip>
+
               {/* Theme Toggle */}
               <div className="flex justify-center">
                 <ThemeToggle />
@@ -968,6 +1428,9 @@ export function Dashboard({
                       setSelectedSection(null);
                     }}
                     availablePorts={extractAllPorts()}
+                    topology={processedTopology}
+                    existingL2VPNs={l2vpns}
+                    initialPortId={l2vpnStartPort ?? undefined}
                     inline={true}
                   />
                 </div>
@@ -994,8 +1457,8 @@ export function Dashboard({
                           Authenticated via
                         </span>
                         <span className="text-2xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
-                          {Object.keys(tokens)
-                            .map((k) => k.toUpperCase())
+                          {(Object.keys(tokens) as Provider[])
+                            .map((k) => getProvider(k).label)
                             .join(", ")}
                         </span>
                       </div>
@@ -1079,6 +1542,20 @@ export function Dashboard({
                           {topology.links.length} links from SDX API
                         </p>
                       </div>
+                      <div className="space-y-2">
+                        <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+                          Link rankings
+                        </span>
+                        <LinkRankings links={topology.links} />
+                      </div>
+                      {qualityReport && (
+                        <div className="space-y-2">
+                          <span className="text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide">
+                            Data Quality
+                          </span>
+                          <DataQualityPanel report={qualityReport} />
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="p-5 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 shadow-md">
@@ -1090,6 +1567,81 @@ export function Dashboard({
                   )}
                 </div>
               )}
+              {selectedSection === "topologyChanges" && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
+                      Topology Changes
+                    </h2>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedSection(null)}
+                      className="h-8 w-8 p-0 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                    >
+                      ×
+                    </Button>
+                  </div>
+                  <TopologyChangeFeed
+                    changes={topologyChanges}
+                    live={liveTopology}
+                    onLiveChange={handleToggleLiveTopology}
+                    pollIntervalMs={config.topology.pollIntervalMs}
+                    lastCheckedAt={lastTopologyCheck}
+                    version={topology?.metadata?.version}
+                    onClear={() => setTopologyChanges([])}
+                  />
+                </div>
+              )}
+              {selectedSection === "domainFilter" && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
+                      Domains
+                    </h2>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedSection(null)}
+                      className="h-8 w-8 p-0 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                    >
+                      ×
+                    </Button>
+                  </div>
+                  <DomainFilterPanel
+                    domains={topologyDomains}
+                    selected={allowedDomains}
+                    onChange={setAllowedDomains}
+                  />
+                </div>
+              )}
+              {selectedSection === "portInventory" && topology && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
+                      Port Inventory
+                    </h2>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedSection(null)}
+                      className="h-8 w-8 p-0 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                    >
+                      ×
+                    </Button>
+                  </div>
+                  <PortInventory
+                    topology={topology}
+                    l2vpns={l2vpns}
+                    onStartL2VPN={handleStartL2VPNAtPort}
+                    onSelectL2VPN={(l2vpn) => {
+                      // Close the panel so the highlighted path is visible
+                      setHighlightedL2VPN(l2vpn);
+                      setSelectedSection(null);
+                    }}
+                  />
+                </div>
+              )}
               {selectedSection === "manageTokens" && (
                 <div className="space-y-4">
                   <div className="flex items-center justify-between mb-4">
@@ -1115,6 +1667,50 @@ export function Dashboard({
                   />
                 </div>
               )}
+              {selectedSection === "schedule" && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)]">
+                      L2VPN Schedule
+                    </h2>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={loadL2VPNs}
+                        disabled={isLoadingL2VPNs || !hasValidTokens}
+                        className="h-8 px-3 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20 disabled:opacity-50"
+                        title="Refresh L2VPN list"
+                      >
+                        {isLoadingL2VPNs ? "⏳" : "🔄"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedSection(null)}
+                        className="h-8 w-8 p-0 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                        title="Close"
+                      >
+                        ×
+                      </Button>
+                    </div>
+                  </div>
+                  {l2vpnError && (
+                    <Alert className="border-2 border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+                      <AlertDescription className="text-red-800 dark:text-red-200">
+                        <span className="font-semibold">
+                          Error loading L2VPNs:
+                        </span>{" "}
+                        {l2vpnError}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <L2VPNScheduleCalendar
+                    l2vpns={l2vpns}
+                    onViewL2VPN={onViewL2VPN}
+                  />
+                </div>
+              )}
               {selectedSection === "listL2VPNs" && (
                 <div className="space-y-4">
                   <div className="flex items-center justify-between mb-4">
@@ -1122,6 +1718,17 @@ export function Dashboard({
                       L2VPN Connections
                     </h2>
                     <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowBulkImport(true)}
+                        disabled={!hasValidTokens}
+                        className="h-8 px-3 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20 disabled:opacity-50"
+                        title="Create L2VPNs from a JSON, YAML or CSV file"
+                      >
+                        <Upload className="w-4 h-4 mr-1.5" />
+                        Import
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -1186,12 +1793,51 @@ export function Dashboard({
                           </Button>
                         </div>
                       )}
+                      {!editingL2VPNId && (
+                        <div className="flex items-center gap-2 px-4 py-2 bg-[rgb(248,251,255)] dark:bg-blue-500/5 border-b border-[rgb(200,220,240)] dark:border-blue-500/20">
+                          <label className="flex items-center gap-2 text-xs font-medium text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)]">
+                            <input
+                              type="checkbox"
+                              checked={
+                                selectedL2VPNIds.size > 0 &&
+                                l2vpns.every((l) => selectedL2VPNIds.has(l.service_id))
+                              }
+                              onChange={(e) =>
+                                setSelectedL2VPNIds(
+                                  e.target.checked
+                                    ? new Set(l2vpns.map((l) => l.service_id))
+                                    : new Set()
+                                )
+                              }
+                            />
+                            {selectedL2VPNIds.size > 0
+                              ? `${selectedL2VPNIds.size} selected`
+                              : "Select all"}
+                          </label>
+                          <div className="ml-auto flex items-center gap-1">
+                            <Download className="w-3.5 h-3.5 text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)]" />
+                            <span className="text-xs text-muted-foreground mr-1">Export</span>
+                            {(Object.keys(BULK_FORMATS) as BulkFormat[]).map((format) => (
+                              <Button
+                                key={format}
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleExportL2VPNs(format)}
+                                disabled={selectedL2VPNIds.size === 0}
+                                className="h-7 px-2 text-xs font-semibold uppercase text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20 disabled:opacity-50"
+                              >
+                                {format}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                       <div className="divide-y divide-[rgb(200,220,240)] dark:divide-blue-500/20">
                         {(editingL2VPNId
-                          ? l2vpns.filter((l) => (l.id || l.uuid || l.service_id) === editingL2VPNId)
+                          ? l2vpns.filter((l) => l.service_id === editingL2VPNId)
                           : l2vpns
                         ).map((l2vpn, index) => {
-                          const l2vpnId = l2vpn.id || l2vpn.uuid || l2vpn.service_id;
+                          const l2vpnId = l2vpn.service_id;
                           const isEditing = editingL2VPNId === l2vpnId;
 
                           return (
@@ -1238,7 +1884,7 @@ export function Dashboard({
                                     Endpoints
                                   </label>
                                   <div className="flex flex-col gap-2">
-                                    {editFormData.endpoints.map((ep: any, epIdx: number) => (
+                                    {editFormData.endpoints.map((ep, epIdx) => (
                                       <div key={epIdx} className="flex flex-col gap-1 p-2 border border-[rgb(200,220,240)] dark:border-blue-500/20 rounded-md">
                                         <label className="text-xs text-muted-foreground">Port ID</label>
                                         <select
@@ -1273,12 +1919,33 @@ export function Dashboard({
                                           placeholder="e.g. 100"
                                           className="w-full px-3 py-2 text-sm border border-[rgb(200,220,240)] dark:border-blue-500/30 rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-[rgb(50,135,200)] dark:focus:ring-blue-400"
                                         />
+                                        {editVlanIssues[epIdx] && (
+                                          <div className="flex flex-wrap items-center gap-1 text-xs">
+                                            <span className="text-red-500 dark:text-red-400 font-medium w-full">
+                                              ⚠️ {editVlanIssues[epIdx]!.message}
+                                            </span>
+                                            {editVlanIssues[epIdx]!.suggestions.map((suggestion) => (
+                                              <button
+                                                key={suggestion}
+                                                type="button"
+                                                onClick={() => {
+                                                  const newEndpoints = [...editFormData.endpoints];
+                                                  newEndpoints[epIdx] = { ...newEndpoints[epIdx], vlan: suggestion };
+                                                  setEditFormData({ ...editFormData, endpoints: newEndpoints });
+                                                }}
+                                                className="px-2 py-0.5 rounded border border-[rgb(200,220,240)] dark:border-blue-500/30 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                                              >
+                                                {suggestion}
+                                              </button>
+                                            ))}
+                                          </div>
+                                        )}
                                         {editFormData.endpoints.length > 2 && (
                                           <Button
                                             variant="ghost"
                                             size="sm"
                                             onClick={() => {
-                                              const newEndpoints = editFormData.endpoints.filter((_: any, i: number) => i !== epIdx);
+                                              const newEndpoints = editFormData.endpoints.filter((_, i) => i !== epIdx);
                                               setEditFormData({ ...editFormData, endpoints: newEndpoints });
                                             }}
                                             className="h-7 px-2 text-xs text-red-500 hover:bg-red-100 dark:hover:bg-red-500/20 self-end"
@@ -1324,7 +1991,7 @@ export function Dashboard({
                                               ...editFormData,
                                               qos_metrics: {
                                                 ...editFormData.qos_metrics,
-                                                min_bw: { ...editFormData.qos_metrics.min_bw, value: e.target.value },
+                                                min_bw: { ...editFormData.qos_metrics.min_bw, value: Number(e.target.value) },
                                               },
                                             })
                                           }
@@ -1361,7 +2028,7 @@ export function Dashboard({
                                               ...editFormData,
                                               qos_metrics: {
                                                 ...editFormData.qos_metrics,
-                                                max_delay: { ...editFormData.qos_metrics.max_delay, value: e.target.value },
+                                                max_delay: { ...editFormData.qos_metrics.max_delay, value: Number(e.target.value) },
                                               },
                                             })
                                           }
@@ -1398,7 +2065,7 @@ export function Dashboard({
                                               ...editFormData,
                                               qos_metrics: {
                                                 ...editFormData.qos_metrics,
-                                                max_number_oxps: { ...editFormData.qos_metrics.max_number_oxps, value: e.target.value },
+                                                max_number_oxps: { ...editFormData.qos_metrics.max_number_oxps, value: Number(e.target.value) },
                                               },
                                             })
                                           }
@@ -1462,6 +2129,45 @@ export function Dashboard({
                                 {/* Read-Only Mode */}
                                 {/* Actions Row */}
                                 <div className="flex justify-end gap-2">
+                                  <label
+                                    className="mr-auto flex items-center gap-2 text-xs text-muted-foreground"
+                                    title="Select for export"
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedL2VPNIds.has(l2vpnId)}
+                                      onChange={() => toggleL2VPNSelection(l2vpnId)}
+                                    />
+                                    Select
+                                  </label>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => {
+                                      // Close the panel so the highlighted path is visible
+                                      setHighlightedL2VPN(l2vpn);
+                                      setSelectedSection(null);
+                                    }}
+                                    className="h-9 px-4 border-2 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(50,135,200)] hover:text-white dark:hover:bg-[rgb(100,180,255)] dark:hover:text-gray-900 transition-all duration-200 shadow-sm hover:shadow-md font-medium"
+                                    title="Highlight this L2VPN on the map"
+                                    disabled={!processedTopology || editingL2VPNId !== null}
+                                  >
+                                    <MapPin className="w-4 h-4 mr-1.5" />
+                                    Map
+                                  </Button>
+                                  {onViewL2VPN && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => onViewL2VPN(l2vpnId)}
+                                      className="h-9 px-4 border-2 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(50,135,200)] hover:text-white dark:hover:bg-[rgb(100,180,255)] dark:hover:text-gray-900 transition-all duration-200 shadow-sm hover:shadow-md font-medium"
+                                      title="Status, path and lifecycle history"
+                                      disabled={editingL2VPNId !== null}
+                                    >
+                                      <FileSearch className="w-4 h-4 mr-1.5" />
+                                      Details
+                                    </Button>
+                                  )}
                                   <Button
                                     variant="outline"
                                     size="sm"
@@ -1503,7 +2209,7 @@ export function Dashboard({
                                     ID
                                   </span>
                                   <span className="font-mono text-sm text-foreground break-all">
-                                    {l2vpn.id || l2vpn.uuid || "N/A"}
+                                    {l2vpn.service_id}
                                   </span>
                                 </div>
 
@@ -1535,34 +2241,18 @@ export function Dashboard({
                                     Endpoints
                                   </span>
                                   <div className="flex flex-col gap-2">
-                                    {Array.isArray(l2vpn.endpoints) ? (
-                                      l2vpn.endpoints.map(
-                                        (endpoint: any, epIndex: number) => (
-                                          <div
-                                            key={epIndex}
-                                            className="text-sm text-foreground"
-                                          >
-                                            {typeof endpoint === "string" ? (
-                                              <span className="break-all">
-                                                {endpoint}
-                                              </span>
-                                            ) : (
-                                              <span className="break-all">
-                                                {endpoint.port_id ||
-                                                  endpoint.port ||
-                                                  "N/A"}
-                                                {endpoint.vlan &&
-                                                  ` (VLAN: ${endpoint.vlan})`}
-                                              </span>
-                                            )}
-                                          </div>
-                                        )
-                                      )
-                                    ) : (
-                                      <span className="text-sm text-muted-foreground">
-                                        {JSON.stringify(l2vpn.endpoints || "N/A")}
-                                      </span>
-                                    )}
+                                    {l2vpn.endpoints.map((endpoint, epIndex) => (
+                                      <div
+                                        key={epIndex}
+                                        className="text-sm text-foreground"
+                                      >
+                                        <span className="break-all">
+                                          {endpoint.port_id}
+                                          {endpoint.vlan &&
+                                            ` (VLAN: ${endpoint.vlan})`}
+                                        </span>
+                                      </div>
+                                    ))}
                                   </div>
                                 </div>
 
@@ -1642,10 +2332,43 @@ export function Dashboard({
 
         {/* Full Screen Map */}
         <div className="w-full h-screen relative overflow-hidden">
-          {processedTopology ? (
+          {mapTopology && (
+            <div className="absolute top-6 right-6 z-[1001] flex rounded-md border-2 border-[rgb(120,176,219)] dark:border-[rgb(100,150,200)] bg-background/95 shadow-xl overflow-hidden">
+              {(
+                [
+                  ["map", "Map", MapIcon],
+                  ["graph", "Graph", Network],
+                ] as const
+              ).map(([view, label, Icon]) => (
+                <button
+                  key={view}
+                  onClick={() => handleChangeTopologyView(view)}
+                  className={`flex items-center gap-1.5 h-8 px-3 text-xs font-medium transition-colors ${
+                    topologyView === view
+                      ? "bg-[rgb(50,135,200)] text-white"
+                      : "text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {topologyView === "graph" && rawTopology ? (
+            <TopologyGraph
+              topology={rawTopology}
+              allowedDomains={allowedDomains}
+              timeline={topologyTimeline}
+            />
+          ) : mapTopology ? (
             <TopologyMap
-              processedData={processedTopology}
-              linksArray={processedTopology.links_array}
+              processedData={mapTopology}
+              linksArray={mapTopology.links_array}
+              highlightedPath={highlightedPath}
+              onClearHighlight={() => setHighlightedL2VPN(null)}
+              timeline={topologyTimeline}
+              topology={rawTopology}
             />
           ) : (
             <div className="h-full flex items-center justify-center text-gray-500 bg-muted/30">
@@ -1666,6 +2389,17 @@ export function Dashboard({
         }}
         onConfirm={handleNewL2VPN}
         availablePorts={extractAllPorts()}
+        topology={processedTopology}
+        existingL2VPNs={l2vpns}
+      />
+
+      {/* Bulk L2VPN Import */}
+      <BulkL2VPNImport
+        isOpen={showBulkImport}
+        onClose={() => setShowBulkImport(false)}
+        onImported={loadL2VPNs}
+        availablePorts={extractAllPorts()}
+        existingL2VPNs={l2vpns}
       />
 
       {/* Topology Info Dialog */}
@@ -1740,8 +2474,8 @@ export function Dashboard({
                   <div className="flex-1">
                     <p className="text-sm font-medium">Authenticated via</p>
                     <p className="text-lg font-bold text-primary">
-                      {Object.keys(tokens)
-                        .map((k) => k.toUpperCase())
+                      {(Object.keys(tokens) as Provider[])
+                        .map((k) => getProvider(k).label)
                         .join(", ")}
                     </p>
                   </div>
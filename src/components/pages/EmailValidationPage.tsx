@@ -14,6 +14,7 @@ import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { toast } from "sonner";
 import { TokenData, TokenClaims } from "@/lib/types";
+import { listProviders } from "@/lib/providers/registry";
 import { TokenStorage, decodeJWT } from "@/lib/token-storage";
 import { CheckCircle, XCircle, Envelope } from "@phosphor-icons/react";
 import { FullSDXLogo } from "@/components/FullSDXLogo";
@@ -52,10 +53,9 @@ export function EmailValidationPage({
     const preValidatedEmail = sessionStorage.getItem("pre_validated_email");
 
     // Load the most recent valid token to get user info
-    const cilogon = TokenStorage.getToken("cilogon");
-    const orcid = TokenStorage.getToken("orcid");
-
-    const tokens = [cilogon, orcid].filter(
+    const tokens = listProviders()
+      .map(({ id }) => TokenStorage.getToken(id))
+      .filter(
       (token) => token && TokenStorage.isTokenValid(token)
     ) as TokenData[];
 
@@ -0,0 +1,352 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, RefreshCw, AlertTriangle } from "lucide-react";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { ApiService } from "@/lib/api";
+import {
+  SdxApiError,
+  SdxCancelledError,
+  describeApiError,
+} from "@/lib/api-errors";
+import { extractPathHops, pathDomains, PathHop } from "@/lib/l2vpn-path";
+import { buildLifecycleTimeline } from "@/lib/l2vpn-lifecycle";
+import {
+  L2VPN,
+  L2VPNStatus,
+  TopologyResponse,
+} from "@/lib/types";
+
+interface L2VPNDetailPageProps {
+  serviceId: string;
+  onBack: () => void;
+}
+
+const sectionClass =
+  "p-5 bg-gradient-to-br from-[rgb(248,251,255)] to-[rgb(240,247,255)] dark:from-blue-500/10 dark:to-blue-500/5 rounded-xl border-2 border-[rgb(200,220,240)] dark:border-blue-500/20 shadow-md space-y-3";
+const headingClass =
+  "text-xs font-semibold text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] uppercase tracking-wide";
+
+const STATUS_CLASSES: Record<L2VPNStatus, string> = {
+  up: "bg-green-100 text-green-800 border-green-300 dark:bg-green-500/20 dark:text-green-300 dark:border-green-500/40",
+  down: "bg-red-100 text-red-800 border-red-300 dark:bg-red-500/20 dark:text-red-300 dark:border-red-500/40",
+  error: "bg-red-100 text-red-800 border-red-300 dark:bg-red-500/20 dark:text-red-300 dark:border-red-500/40",
+  "under provisioning":
+    "bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-500/20 dark:text-amber-300 dark:border-amber-500/40",
+  maintenance:
+    "bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-500/20 dark:text-amber-300 dark:border-amber-500/40",
+  unknown: "bg-muted text-muted-foreground border-border",
+};
+
+// Topology reports element health as free text ("up", "down", "enabled", ...)
+function isHopDown(hop: PathHop): boolean {
+  return !!hop.status && !["up", "enabled"].includes(hop.status.toLowerCase());
+}
+
+function formatDate(value?: string): string {
+  if (!value) return "—";
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+export function L2VPNDetailPage({ serviceId, onBack }: L2VPNDetailPageProps) {
+  const [l2vpn, setL2vpn] = useState<L2VPN | null>(null);
+  const [topology, setTopology] = useState<TopologyResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadDetails();
+    return () => requestRef.current?.abort();
+  }, [serviceId]);
+
+  const loadDetails = async () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    const options = { signal: controller.signal };
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Topology only enriches the page; the record itself is required
+      const [record, topologyResult] = await Promise.all([
+        ApiService.getL2VPN(serviceId, options),
+        ApiService.getTopology(options).catch(() => null),
+      ]);
+
+      setL2vpn(record);
+      setTopology(topologyResult);
+    } catch (error) {
+      if (error instanceof SdxCancelledError) return;
+      console.error("Failed to load L2VPN details:", error);
+      setError(
+        error instanceof SdxApiError && error.status === 404
+          ? `L2VPN ${serviceId} was not found. It may have been deleted.`
+          : describeApiError("Loading L2VPN", error)
+      );
+    } finally {
+      if (requestRef.current === controller) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const hops = l2vpn ? extractPathHops(l2vpn, topology) : [];
+  const domains = l2vpn ? pathDomains(l2vpn, hops) : [];
+  const downHops = hops.filter(isHopDown);
+  const timeline = l2vpn ? buildLifecycleTimeline(l2vpn) : [];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      {/* Header */}
+      <div className="border-b border-border/50 bg-gradient-to-br from-background to-muted/20">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onBack}
+            className="text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1.5" />
+            Dashboard
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-xl font-bold text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] truncate">
+              {l2vpn?.name || "L2VPN"}
+            </h1>
+            <p className="font-mono text-xs text-muted-foreground break-all">
+              {serviceId}
+            </p>
+          </div>
+          {l2vpn && (
+            <Badge variant="outline" className={STATUS_CLASSES[l2vpn.status]}>
+              {l2vpn.status}
+            </Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadDetails}
+            disabled={isLoading}
+            className="h-8 px-3 text-[rgb(50,135,200)] dark:text-[rgb(100,180,255)] hover:bg-[rgb(236,244,250)] dark:hover:bg-blue-500/20 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-6 py-6 space-y-4">
+        {error && (
+          <Alert className="border-2 border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+            <AlertDescription className="text-red-800 dark:text-red-200">
+              {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && !l2vpn && (
+          <div className={sectionClass}>
+            <div className="text-sm font-medium text-[rgb(64,143,204)] dark:text-[rgb(150,200,255)] flex items-center gap-2">
+              <div className="w-4 h-4 border-2 border-[rgb(50,135,200)]/30 border-t-[rgb(50,135,200)] rounded-full animate-spin"></div>
+              Loading L2VPN details...
+            </div>
+          </div>
+        )}
+
+        {l2vpn && (
+          <>
+            {(l2vpn.status === "down" || l2vpn.status === "error") && (
+              <Alert className="border-2 border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+                <AlertDescription className="text-red-800 dark:text-red-200 flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>
+                    {downHops.length > 0
+                      ? `The controller reports this L2VPN as ${l2vpn.status}. ${downHops.length} element(s) on its path are not up: ${downHops.map((hop) => hop.id).join(", ")}.`
+                      : `The controller reports this L2VPN as ${l2vpn.status}, but every element on its path that appears in the topology is up. Check the timeline below for the most recent change.`}
+                  </span>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {/* Status */}
+              <div className={sectionClass}>
+                <h2 className={headingClass}>Status</h2>
+                <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                  <dt className="text-muted-foreground">Status</dt>
+                  <dd className="font-medium">{l2vpn.status}</dd>
+                  <dt className="text-muted-foreground">State</dt>
+                  <dd>{l2vpn.state || "—"}</dd>
+                  <dt className="text-muted-foreground">Created</dt>
+                  <dd>{formatDate(l2vpn.creation_date)}</dd>
+                  <dt className="text-muted-foreground">Last modified</dt>
+                  <dd>{formatDate(l2vpn.last_modified)}</dd>
+                  {l2vpn.archived_date && (
+                    <>
+                      <dt className="text-muted-foreground">Archived</dt>
+                      <dd>{formatDate(l2vpn.archived_date)}</dd>
+                    </>
+                  )}
+                </dl>
+                {l2vpn.description && (
+                  <p className="text-sm text-foreground">{l2vpn.description}</p>
+                )}
+              </div>
+
+              {/* Scheduling */}
+              <div className={sectionClass}>
+                <h2 className={headingClass}>Scheduling Window</h2>
+                {l2vpn.scheduling?.start_time || l2vpn.scheduling?.end_time ? (
+                  <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-muted-foreground">Start</dt>
+                    <dd>{l2vpn.scheduling.start_time ? formatDate(l2vpn.scheduling.start_time) : "Immediately"}</dd>
+                    <dt className="text-muted-foreground">End</dt>
+                    <dd>{l2vpn.scheduling.end_time ? formatDate(l2vpn.scheduling.end_time) : "Until deleted"}</dd>
+                  </dl>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Not scheduled: active from creation until deleted.
+                  </p>
+                )}
+                {l2vpn.qos_metrics && (
+                  <div className="flex flex-col gap-1 text-sm pt-2 border-t border-[rgb(200,220,240)] dark:border-blue-500/20">
+                    <span className={headingClass}>QoS Metrics</span>
+                    {l2vpn.qos_metrics.min_bw && (
+                      <span>Min Bandwidth: {l2vpn.qos_metrics.min_bw.value} {l2vpn.qos_metrics.min_bw.strict ? "(strict)" : "(flexible)"}</span>
+                    )}
+                    {l2vpn.qos_metrics.max_delay && (
+                      <span>Max Delay: {l2vpn.qos_metrics.max_delay.value} {l2vpn.qos_metrics.max_delay.strict ? "(strict)" : "(flexible)"}</span>
+                    )}
+                    {l2vpn.qos_metrics.max_number_oxps && (
+                      <span>Max OXPs: {l2vpn.qos_metrics.max_number_oxps.value} {l2vpn.qos_metrics.max_number_oxps.strict ? "(strict)" : "(flexible)"}</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Endpoints and path */}
+            <div className={sectionClass}>
+              <h2 className={headingClass}>Endpoints</h2>
+              <div className="flex flex-col gap-1">
+                {l2vpn.endpoints.map((endpoint, index) => (
+                  <span key={index} className="text-sm font-mono break-all">
+                    {endpoint.port_id}
+                    <span className="text-muted-foreground"> (VLAN: {endpoint.vlan})</span>
+                  </span>
+                ))}
+              </div>
+
+              <h2 className={`${headingClass} pt-2`}>Computed Path</h2>
+              {domains.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 text-sm">
+                  <span className="text-muted-foreground mr-1">OXPs:</span>
+                  {domains.map((domain, index) => (
+                    <span key={domain} className="flex items-center gap-1">
+                      {index > 0 && <span className="text-muted-foreground">→</span>}
+                      <Badge variant="outline">{domain}</Badge>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {hops.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  The controller has not reported a path for this L2VPN.
+                </p>
+              ) : (
+                <ol className="space-y-1">
+                  {hops.map((hop, index) => (
+                    <li
+                      key={`${hop.id}-${index}`}
+                      className={`flex flex-wrap items-center gap-2 text-sm p-2 rounded-md border ${
+                        isHopDown(hop)
+                          ? "border-red-300 bg-red-50 dark:border-red-500/40 dark:bg-red-500/10"
+                          : "border-[rgb(200,220,240)] dark:border-blue-500/20"
+                      }`}
+                    >
+                      <span className="text-muted-foreground w-6 text-right">{index + 1}.</span>
+                      <Badge variant="secondary">{hop.kind}</Badge>
+                      <span className="font-mono break-all flex-1">{hop.id}</span>
+                      {hop.vlan && <span className="text-muted-foreground">VLAN {hop.vlan}</span>}
+                      <span className={isHopDown(hop) ? "text-red-700 dark:text-red-300 font-medium" : "text-muted-foreground"}>
+                        {hop.status ?? "not in topology"}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {/* Notifications */}
+              <div className={sectionClass}>
+                <h2 className={headingClass}>Notifications</h2>
+                {l2vpn.notifications && l2vpn.notifications.length > 0 ? (
+                  <ul className="text-sm space-y-1">
+                    {l2vpn.notifications.map((notification) => (
+                      <li key={notification.email}>{notification.email}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No notification contacts.</p>
+                )}
+              </div>
+
+              {/* Ownership */}
+              <div className={sectionClass}>
+                <h2 className={headingClass}>Ownership</h2>
+                <p className="text-sm font-mono break-all">
+                  {l2vpn.ownership || "—"}
+                </p>
+              </div>
+            </div>
+
+            {/* Lifecycle timeline */}
+            <div className={sectionClass}>
+              <h2 className={headingClass}>Lifecycle</h2>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No lifecycle events recorded.</p>
+              ) : (
+                <ol className="relative border-l-2 border-[rgb(200,220,240)] dark:border-blue-500/20 ml-2 space-y-3">
+                  {timeline.map((event, index) => (
+                    <li key={`${event.timestamp}-${index}`} className="ml-4">
+                      <div className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-[rgb(50,135,200)] dark:bg-[rgb(100,180,255)]" />
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">{formatDate(event.timestamp)}</span>
+                        <span className="font-medium">{event.event}</span>
+                        {event.status && (
+                          <Badge variant="outline" className={STATUS_CLASSES[event.status]}>
+                            {event.status}
+                          </Badge>
+                        )}
+                      </div>
+                      {event.details && (
+                        <p className="text-xs text-muted-foreground mt-0.5">{event.details}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            {/* Raw JSON */}
+            <details className={sectionClass}>
+              <summary className={`${headingClass} cursor-pointer select-none`}>
+                Raw JSON
+              </summary>
+              <pre className="text-xs font-mono overflow-x-auto whitespace-pre-wrap break-all">
+                {JSON.stringify(l2vpn, null, 2)}
+              </pre>
+            </details>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
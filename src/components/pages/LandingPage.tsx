@@ -8,7 +8,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Provider } from "@/lib/config";
 import { FullSDXLogo } from "@/components/FullSDXLogo";
-import { CILogonProvider } from "@/lib/providers/cilogon";
+import { listProviders } from "@/lib/providers/registry";
+import { KeyRound } from "lucide-react";
 import cilogonIcon from "@/assets/images/CILogon-icon.png";
 import orcidIcon from "@/assets/images/ORCID-ICON.png";
 
@@ -17,37 +18,35 @@ interface LandingPageProps {
   onNavigateToDashboard?: () => void;
 }
 
-const providerInfo = {
-  cilogon: {
-    name: "CILogon",
-    iconPath: cilogonIcon,
-    description: "Academic federation",
-  },
-  orcid: {
-    name: "ORCID",
-    iconPath: orcidIcon,
-    description: "Researcher identifiers",
-  },
-} as const;
+// Providers without an icon here get a generic key
+const providerIcons: Partial<Record<Provider, string>> = {
+  cilogon: cilogonIcon,
+  orcid: orcidIcon,
+};
 
 export function LandingPage({
   onLogin,
   onNavigateToDashboard,
 }: LandingPageProps) {
-  const handleProviderClick = async (provider: Provider) => {
-    // For CILogon, directly start authentication and skip the login page
-    if (provider === "cilogon") {
+  const providers = listProviders();
+
+  const handleProviderClick = async (
+    plugin: (typeof providers)[number]
+  ) => {
+    // Redirect providers (e.g., CILogon) start authentication directly and
+    // skip the login page
+    if (plugin.login === "redirect" && plugin.buildAuthUrl) {
       try {
-        await CILogonProvider.startAuthentication();
+        window.location.href = await plugin.buildAuthUrl();
         // This will redirect the page, so no code after this will execute
       } catch (error) {
-        console.error("Failed to start CILogon authentication:", error);
+        console.error(`Failed to start ${plugin.label} authentication:`, error);
         // If there's an error, fall back to the login page
-        onLogin(provider);
+        onLogin(plugin.id);
       }
     } else {
-      // For other providers (e.g., ORCID), use the existing flow
-      onLogin(provider);
+      // Popup providers (e.g., ORCID) use the login page
+      onLogin(plugin.id);
     }
   };
 
@@ -82,10 +81,10 @@ export function LandingPage({
           </CardHeader>
           <CardContent style={{ paddingTop: "10px", paddingBottom: "50px" }}>
             <div className="w-full max-w-md mx-auto">
-              {Object.entries(providerInfo).map(([key, info], index) => {
-                const provider = key as Provider;
-                const isLastButton =
-                  index === Object.entries(providerInfo).length - 1;
+              {providers.map((plugin, index) => {
+                const provider = plugin.id;
+                const iconPath = providerIcons[provider];
+                const isLastButton = index === providers.length - 1;
 
                 return (
                   <Button
@@ -93,28 +92,32 @@ export function LandingPage({
                     variant="outline"
                     className="w-full justify-start p-6 h-auto transition-all duration-200 rounded-lg bg-white hover:bg-[rgb(245,245,245)] !border-[rgb(200,200,200)] hover:!border-[rgb(180,180,180)] hover:shadow-md active:scale-[0.98]"
                     style={{ marginBottom: isLastButton ? "0" : "10px" }}
-                    onClick={() => handleProviderClick(provider)}
+                    onClick={() => handleProviderClick(plugin)}
                   >
                     <div className="flex items-center gap-4 w-full">
                       <div className="flex-shrink-0">
-                        <img
-                          src={info.iconPath}
-                          alt={`${info.name} icon`}
-                          className="w-10 h-10 object-cover rounded"
-                          style={{
-                            minWidth: "40px",
-                            minHeight: "40px",
-                            maxWidth: "40px",
-                            maxHeight: "40px",
-                          }}
-                        />
+                        {iconPath ? (
+                          <img
+                            src={iconPath}
+                            alt={`${plugin.label} icon`}
+                            className="w-10 h-10 object-cover rounded"
+                            style={{
+                              minWidth: "40px",
+                              minHeight: "40px",
+                              maxWidth: "40px",
+                              maxHeight: "40px",
+                            }}
+                          />
+                        ) : (
+                          <KeyRound className="w-10 h-10 p-2 text-[rgb(50,135,200)]" />
+                        )}
                       </div>
                       <div className="text-left flex-1">
                         <div className="font-semibold text-lg text-[rgb(50,135,200)]">
-                          {info.name}
+                          {plugin.label}
                         </div>
                         <div className="text-sm text-[rgb(50,135,200)]">
-                          {info.description}
+                          {plugin.description}
                         </div>
                       </div>
                     </div>
@@ -55,98 +55,11 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
       const errorMessage =
         error instanceof Error ? error.message : "Authentication failed";
 
-      // Check if this was actually a successful authentication (popup closed after success)
+      // The popup may have been closed after the sign-in completed
       if (
         errorMessage.includes("window was closed") &&
         provider === "cilogon"
       ) {
-        // Check localStorage one more time for successful authentication
-        try {
-          const authResult = localStorage.getItem("cilogon_auth_result");
-          if (authResult) {
-            const result = JSON.parse(authResult);
-            if (
-              result.type === "CILOGON_AUTH_SUCCESS" &&
-              Date.now() - result.timestamp < 300000
-            ) {
-              console.log(
-                "Found successful authentication after popup closed error, performing token exchange..."
-              );
-              localStorage.removeItem("cilogon_auth_result");
-
-              try {
-                // Get stored code verifier
-                let storedCodeVerifier = sessionStorage.getItem(
-                  "cilogon_code_verifier"
-                );
-
-                // Try to recover from backup if missing
-                if (!storedCodeVerifier) {
-                  const backup = localStorage.getItem("cilogon_state_backup");
-                  if (backup) {
-                    const parsed = JSON.parse(backup);
-                    if (Date.now() - parsed.timestamp < 600000) {
-                      storedCodeVerifier = parsed.codeVerifier;
-                      console.log(
-                        "Recovered code verifier from backup for popup closed handler"
-                      );
-                    }
-                  }
-                }
-
-                if (!storedCodeVerifier) {
-                  throw new Error("Code verifier not found");
-                }
-
-                // Perform token exchange
-                const cilogonProvider = new CILogonProvider();
-                const token = await cilogonProvider.exchangeCodeForToken(
-                  result.code,
-                  result.state,
-                  storedCodeVerifier
-                );
-
-                console.log(
-                  "Token exchange successful in popup closed handler:",
-                  token
-                );
-
-                toast.success("✅ CILogon authentication successful!");
-                setDeviceFlow({ status: "success", token });
-                setTimeout(() => {
-                  onComplete();
-                }, 1500);
-                setIsLoading(false);
-                return;
-              } catch (exchangeError) {
-                console.error(
-                  "Token exchange failed in popup closed handler:",
-                  exchangeError
-                );
-                toast.error(
-                  `Token exchange failed: ${
-                    exchangeError instanceof Error
-                      ? exchangeError.message
-                      : "Unknown error"
-                  }`
-                );
-                setDeviceFlow({
-                  status: "error",
-                  error: `Token exchange failed: ${
-                    exchangeError instanceof Error
-                      ? exchangeError.message
-                      : "Unknown error"
-                  }`,
-                });
-                setIsLoading(false);
-                return;
-              }
-            }
-          }
-        } catch (e) {
-          console.error("Error checking auth after popup close:", e);
-        }
-
         // Set a special state for this case
         setDeviceFlow({
           status: "window_closed",
@@ -167,128 +80,6 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
     }
   };
 
-  // Add effect to check for completed authentication when window regains focus
-  useEffect(() => {
-    let authCheckInterval: NodeJS.Timeout | null = null;
-
-    const handleVisibilityChange = () => {
-      if (!document.hidden && deviceFlow.status === "pending") {
-        console.log(
-          "Window regained focus, checking for completed authentication..."
-        );
-
-        // Set up periodic check for completed authentication
-        if (authCheckInterval) {
-          clearInterval(authCheckInterval);
-        }
-
-        authCheckInterval = setInterval(async () => {
-          try {
-            const authResult = localStorage.getItem("cilogon_auth_result");
-            if (authResult) {
-              const result = JSON.parse(authResult);
-              if (
-                result.type === "CILOGON_AUTH_SUCCESS" &&
-                Date.now() - result.timestamp < 120000
-              ) {
-                console.log(
-                  "Found completed authentication in localStorage, performing token exchange..."
-                );
-
-                // Clear the stored result immediately
-                localStorage.removeItem("cilogon_auth_result");
-
-                // Clear the interval
-                if (authCheckInterval) {
-                  clearInterval(authCheckInterval);
-                  authCheckInterval = null;
-                }
-
-                try {
-                  // Get stored code verifier
-                  let storedCodeVerifier = sessionStorage.getItem(
-                    "cilogon_code_verifier"
-                  );
-
-                  // Try to recover from backup if missing
-                  if (!storedCodeVerifier) {
-                    const backup = localStorage.getItem("cilogon_state_backup");
-                    if (backup) {
-                      const parsed = JSON.parse(backup);
-                      if (Date.now() - parsed.timestamp < 600000) {
-                        storedCodeVerifier = parsed.codeVerifier;
-                        console.log("Recovered code verifier from backup");
-                      }
-                    }
-                  }
-
-                  if (!storedCodeVerifier) {
-                    throw new Error("Code verifier not found");
-                  }
-
-                  // Perform token exchange
-                  const cilogonProvider = new CILogonProvider();
-                  const token = await cilogonProvider.exchangeCodeForToken(
-                    result.code,
-                    result.state,
-                    storedCodeVerifier
-                  );
-
-                  console.log("Token exchange successful:", token);
-
-                  // Trigger success state
-                  setDeviceFlow({ status: "success", token });
-                  toast.success("✅ CILogon authentication successful!");
-                  setTimeout(() => {
-                    onComplete();
-                  }, 1500);
-                } catch (exchangeError) {
-                  console.error("Token exchange failed:", exchangeError);
-                  toast.error(
-                    `Token exchange failed: ${
-                      exchangeError instanceof Error
-                        ? exchangeError.message
-                        : "Unknown error"
-                    }`
-                  );
-                  setDeviceFlow({
-                    status: "error",
-                    error: `Token exchange failed: ${
-                      exchangeError instanceof Error
-                        ? exchangeError.message
-                        : "Unknown error"
-                    }`,
-                  });
-                }
-              }
-            }
-          } catch (e) {
-            console.error("Error checking for completed auth:", e);
-          }
-        }, 1000);
-
-        // Stop checking after 10 seconds
-        setTimeout(() => {
-          if (authCheckInterval) {
-            clearInterval(authCheckInterval);
-            authCheckInterval = null;
-          }
-        }, 10000);
-      }
-    };
-
-    document.addEventListener("visibilitychange", handleVisibilityChange);
-    window.addEventListener("focus", handleVisibilityChange);
-
-    return () => {
-      document.removeEventListener("visibilitychange", handleVisibilityChange);
-      window.removeEventListener("focus", handleVisibilityChange);
-      if (authCheckInterval) {
-        clearInterval(authCheckInterval);
-      }
-    };
-  }, [deviceFlow.status, onComplete]);
-
   const startORCIDFlow = async () => {
     console.log("Starting ORCID authentication...");
     setIsLoading(true);
@@ -318,100 +109,19 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
     }
   };
 
-  const handleContinue = async () => {
-    // Manual check for completed authentication
-    try {
-      const authResult = localStorage.getItem("cilogon_auth_result");
-      if (authResult) {
-        const result = JSON.parse(authResult);
-        if (
-          result.type === "CILOGON_AUTH_SUCCESS" &&
-          Date.now() - result.timestamp < 300000
-        ) {
-          console.log(
-            "Manual check found completed authentication, performing token exchange..."
-          );
-          localStorage.removeItem("cilogon_auth_result");
-
-          try {
-            // Get stored code verifier
-            let storedCodeVerifier = sessionStorage.getItem(
-              "cilogon_code_verifier"
-            );
-
-            // Try to recover from backup if missing
-            if (!storedCodeVerifier) {
-              const backup = localStorage.getItem("cilogon_state_backup");
-              if (backup) {
-                const parsed = JSON.parse(backup);
-                if (Date.now() - parsed.timestamp < 600000) {
-                  storedCodeVerifier = parsed.codeVerifier;
-                  console.log(
-                    "Recovered code verifier from backup for manual continue"
-                  );
-                }
-              }
-            }
-
-            if (!storedCodeVerifier) {
-              throw new Error("Code verifier not found");
-            }
-
-            // Perform token exchange
-            const cilogonProvider = new CILogonProvider();
-            const token = await cilogonProvider.exchangeCodeForToken(
-              result.code,
-              result.state,
-              storedCodeVerifier
-            );
-
-            console.log("Token exchange successful in manual continue:", token);
-
-            setDeviceFlow({ status: "success", token });
-            toast.success("✅ CILogon authentication successful!");
-            setIsLoading(false);
-            setTimeout(() => {
-              onComplete();
-            }, 1500);
-          } catch (exchangeError) {
-            console.error(
-              "Token exchange failed in manual continue:",
-              exchangeError
-            );
-            toast.error(
-              `Token exchange failed: ${
-                exchangeError instanceof Error
-                  ? exchangeError.message
-                  : "Unknown error"
-              }`
-            );
-            setDeviceFlow({
-              status: "error",
-              error: `Token exchange failed: ${
-                exchangeError instanceof Error
-                  ? exchangeError.message
-                  : "Unknown error"
-              }`,
-            });
-          }
-        } else if (result.type === "CILOGON_AUTH_SUCCESS") {
-          toast.info(
-            "Found authentication data but it's too old. Please try again."
-          );
-          localStorage.removeItem("cilogon_auth_result");
-        } else {
-          toast.info(
-            "No successful authentication found. Please complete the login in the popup window."
-          );
-        }
-      } else {
-        toast.info(
-          "No authentication data found. Please complete the login in the popup window first."
-        );
-      }
-    } catch (e) {
-      console.error("Error checking for completed auth:", e);
-      toast.error("Error checking authentication status.");
+  const handleContinue = () => {
+    // A sign-in completed in the popup has already stored its token
+    const token = TokenStorage.getToken("cilogon");
+    if (token && TokenStorage.isTokenValid(token)) {
+      setDeviceFlow({ status: "success", token });
+      toast.success("✅ CILogon authentication successful!");
+      setTimeout(() => {
+        onComplete();
+      }, 1500);
+    } else {
+      toast.info(
+        "No completed authentication found. Please complete the login in the popup window first."
+      );
     }
   };
 
@@ -465,7 +175,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
                             </span>
                             <br />
                             <span className="text-[rgb(64,143,204)]">
-                              {config.cilogon.clientId}
+                              {config.identityProviders.cilogon.clientId}
                             </span>
                           </div>
                           <div>
@@ -474,7 +184,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
                             </span>
                             <br />
                             <span className="text-[rgb(64,143,204)]">
-                              {config.cilogon.redirectUri}
+                              {config.identityProviders.cilogon.redirectUri}
                             </span>
                           </div>
                           <div>
@@ -495,7 +205,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
                             </span>
                             <br />
                             <span className="text-[rgb(64,143,204)]">
-                              {config.cilogon.scope}
+                              {config.identityProviders.cilogon.scope}
                             </span>
                           </div>
                           <div className="mt-2 p-2 bg-[rgb(236,244,250)] rounded">
@@ -536,12 +246,6 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
                       </strong>{" "}
                       If you don't see a popup, check if your browser blocked it
                       and allow popups for this site.
-                      <br />
-                      <small className="text-xs mt-2 block opacity-75">
-                        If you've completed authentication and see
-                        "Authentication data saved locally" message, please
-                        click the button below to continue.
-                      </small>
                     </AlertDescription>
                   </Alert>
 
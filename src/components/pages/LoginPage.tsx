@@ -12,8 +12,8 @@ import { toast } from "sonner";
 import { Provider, config } from "@/lib/config";
 import { DeviceFlowState } from "@/lib/types";
 import { TokenStorage } from "@/lib/token-storage";
-import { CILogonProvider } from "@/lib/providers/cilogon";
 import { ORCIDProvider } from "@/lib/providers/orcid";
+import { getProvider } from "@/lib/providers/registry";
 import { FullSDXLogo } from "@/components/FullSDXLogo";
 import { CheckCircle, XCircle, Clock } from "@phosphor-icons/react";
 
@@ -24,6 +24,7 @@ interface LoginPageProps {
 }
 
 export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
+  const plugin = getProvider(provider);
   const [deviceFlow, setDeviceFlow] = useState<DeviceFlowState>({
     status: "idle",
   });
@@ -42,7 +43,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
     try {
       // Use same window authentication instead of popup
       // This will redirect the browser to CILogon, so no code after this will execute
-      await CILogonProvider.startAuthentication();
+      window.location.href = await plugin.buildAuthUrl!();
     } catch (error: any) {
       console.error("CILogon authentication failed:", error);
       const errorMessage =
@@ -86,6 +87,41 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
     }
   };
 
+  // Providers registered from config alone sign in through their plugin
+  const startProviderFlow = async () => {
+    console.log(`Starting ${plugin.label} authentication...`);
+    setIsLoading(true);
+
+    try {
+      if (plugin.login === "redirect" && plugin.buildAuthUrl) {
+        // This will redirect the browser, so no code after this will execute
+        window.location.href = await plugin.buildAuthUrl();
+        return;
+      }
+      if (!plugin.startPopup) {
+        throw new Error(`${plugin.label} does not support sign-in`);
+      }
+
+      const token = await plugin.startPopup();
+      toast.success(`${plugin.label} authentication successful!`);
+      setDeviceFlow({ status: "success", token });
+
+      setTimeout(() => {
+        onComplete();
+      }, 1000);
+    } catch (error: any) {
+      console.error(`${plugin.label} authentication failed:`, error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Authentication failed";
+      toast.error(errorMessage);
+      setDeviceFlow({
+        status: "error",
+        error: errorMessage,
+      });
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="container mx-auto px-6 py-16 max-w-3xl bg-[rgb(255,255,255)] min-h-screen">
       {/* Header */}
@@ -102,7 +138,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
       <Card className="shadow-lg border-2 border-[rgb(120,176,219)] bg-[rgb(255,255,255)]">
         <CardHeader className="pb-8 text-center">
           <CardTitle className="text-2xl text-[rgb(64,143,204)] text-center">
-            Authenticate with {provider.toUpperCase()}
+            Authenticate with {plugin.label}
           </CardTitle>
           <CardDescription className="text-lg mt-2 text-[rgb(50,135,200)] text-center">
             Complete the authentication flow to obtain your token
@@ -135,7 +171,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
                             </span>
                             <br />
                             <span className="text-[rgb(64,143,204)]">
-                              {config.cilogon.clientId}
+                              {config.identityProviders.cilogon.clientId}
                             </span>
                           </div>
                           <div>
@@ -144,7 +180,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
                             </span>
                             <br />
                             <span className="text-[rgb(64,143,204)]">
-                              {config.cilogon.redirectUri}
+                              {config.identityProviders.cilogon.redirectUri}
                             </span>
                           </div>
                           <div>
@@ -165,7 +201,7 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
                             </span>
                             <br />
                             <span className="text-[rgb(64,143,204)]">
-                              {config.cilogon.scope}
+                              {config.identityProviders.cilogon.scope}
                             </span>
                           </div>
                           <div className="mt-2 p-2 bg-[rgb(236,244,250)] rounded">
@@ -362,6 +398,46 @@ export function LoginPage({ provider, onComplete, onBack }: LoginPageProps) {
               )}
             </>
           )}
+
+          {provider !== "cilogon" && provider !== "orcid" && (
+            <div className="space-y-6">
+              {plugin.description && (
+                <Alert className="border-2 border-[rgb(120,176,219)] bg-[rgb(236,244,250)]">
+                  <AlertDescription className="text-base text-[rgb(64,143,204)]">
+                    {plugin.description}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {deviceFlow.status === "error" && (
+                <Alert variant="destructive">
+                  <XCircle className="h-5 w-5" />
+                  <AlertDescription>{deviceFlow.error}</AlertDescription>
+                </Alert>
+              )}
+
+              {deviceFlow.status === "success" ? (
+                <Alert className="border-2 border-green-200 bg-green-50">
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  <AlertDescription className="text-base ml-2 text-green-800">
+                    ✅ Authentication successful! Redirecting to your token
+                    page...
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Button
+                  onClick={startProviderFlow}
+                  disabled={isLoading}
+                  size="lg"
+                  className="w-full py-4 text-lg font-semibold bg-[rgb(50,135,200)] hover:bg-[rgb(64,143,204)] text-[rgb(255,255,255)]"
+                >
+                  {isLoading
+                    ? "Opening Authentication..."
+                    : `Login with ${plugin.label}`}
+                </Button>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
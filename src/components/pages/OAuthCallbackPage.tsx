@@ -0,0 +1,163 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { toast } from "sonner";
+import { Provider } from "@/lib/types";
+import { SessionManager } from "@/lib/session";
+import { canSkipEmailValidation } from "@/lib/token-storage";
+import { verifyIdToken } from "@/lib/jwt-verification";
+import { getProvider } from "@/lib/providers/registry";
+import { FullSDXLogo } from "@/components/FullSDXLogo";
+
+interface OAuthCallbackPageProps {
+  provider: Provider;
+  onBack: () => void;
+  onNavigateToDashboard?: () => void;
+  onNavigateToEmailValidation?: (email?: string) => void;
+}
+
+/**
+ * Callback route for registered providers without a callback page of their
+ * own. In a sign-in popup it hands the code back to the opener; otherwise it
+ * exchanges the code and starts the session.
+ */
+export function OAuthCallbackPage({
+  provider,
+  onBack,
+  onNavigateToDashboard,
+  onNavigateToEmailValidation,
+}: OAuthCallbackPageProps) {
+  const plugin = getProvider(provider);
+  const [status, setStatus] = useState<"processing" | "success" | "error">(
+    "processing"
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    handleCallback();
+  }, []);
+
+  const handleCallback = async () => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const result = {
+      code: urlParams.get("code") ?? undefined,
+      state: urlParams.get("state") ?? undefined,
+      error: urlParams.get("error") ?? undefined,
+      error_description: urlParams.get("error_description") ?? undefined,
+    };
+
+    // Sign-in popup: the opener exchanges the code (see auth-popup.ts)
+    if (window.opener && !window.opener.closed) {
+      window.opener.postMessage(
+        { type: "OAUTH_RESULT", result },
+        window.location.origin
+      );
+      window.close();
+      return;
+    }
+
+    try {
+      if (result.error) {
+        throw new Error(
+          `${plugin.label} OAuth error: ${result.error_description || result.error}`
+        );
+      }
+      if (!result.code || !result.state) {
+        throw new Error("Missing authorization code or state parameter");
+      }
+      if (!plugin.exchangeCode) {
+        throw new Error(`${plugin.label} does not support sign-in`);
+      }
+
+      const tokenData = await plugin.exchangeCode(result.code, result.state);
+      SessionManager.createSession(provider);
+      setStatus("success");
+
+      const emailCheck = canSkipEmailValidation(
+        tokenData,
+        await verifyIdToken(tokenData)
+      );
+      if (emailCheck.canSkip) {
+        SessionManager.setEmailVerified(emailCheck.email!);
+        toast.success(
+          `🎉 ${plugin.label} authentication successful! Email verified: ${emailCheck.email}`
+        );
+        setTimeout(() => onNavigateToDashboard?.(), 1500);
+      } else {
+        toast.success(
+          `🎉 ${plugin.label} authentication successful! Please verify your email.`
+        );
+        setTimeout(() => onNavigateToEmailValidation?.(emailCheck.email), 1500);
+      }
+    } catch (err) {
+      console.error(`${plugin.label} callback error:`, err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-6 py-16 max-w-3xl bg-[rgb(255,255,255)] min-h-screen">
+      {/* Header */}
+      <FullSDXLogo />
+
+      <Button
+        variant="ghost"
+        onClick={onBack}
+        className="mb-8 -ml-2 text-base text-[rgb(50,135,200)] hover:bg-[rgb(236,244,250)]"
+      >
+        ← Back to application
+      </Button>
+
+      <Card className="shadow-lg border-2 border-[rgb(120,176,219)] bg-[rgb(255,255,255)]">
+        <CardHeader className="pb-8">
+          <CardTitle className="text-2xl text-[rgb(64,143,204)]">
+            {plugin.label} Sign-in
+          </CardTitle>
+          <CardDescription className="text-lg mt-2 text-[rgb(50,135,200)]">
+            Processing {plugin.label} authentication response
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {status === "processing" && (
+            <Alert className="border-2 border-[rgb(120,176,219)] bg-[rgb(236,244,250)]">
+              <AlertDescription className="text-base text-[rgb(64,143,204)]">
+                ⏳ Completing sign-in...
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status === "success" && (
+            <Alert className="border-2 border-green-200 bg-green-50">
+              <AlertDescription className="text-base text-green-800">
+                ✅ Authentication successful! Redirecting...
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status === "error" && (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertDescription>❌ Error: {error}</AlertDescription>
+              </Alert>
+              <Button
+                onClick={onBack}
+                size="lg"
+                className="w-full bg-[rgb(50,135,200)] hover:bg-[rgb(64,143,204)] text-[rgb(255,255,255)]"
+              >
+                Try Again
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   Card,
   CardContent,
@@ -16,6 +16,8 @@ import {
   decodeJWT,
   canSkipEmailValidation,
 } from "@/lib/token-storage";
+import { verifySignInToken } from "@/lib/jwt-verification";
+import { AuthTransaction, AuthTransactions } from "@/lib/auth-transactions";
 import { FullSDXLogo } from "@/components/FullSDXLogo";
 
 interface ORCIDCallbackPageProps {
@@ -38,6 +40,9 @@ export function ORCIDCallbackPage({
   const [error, setError] = useState<string | null>(null);
   const [useCorsProxy, setUseCorsProxy] = useState(false);
   const [useBackend, setUseBackend] = useState(true); // Default to backend
+  // The sign-in attempt this callback belongs to, consumed once so that a
+  // retry reuses it instead of being rejected as a replay
+  const transactionRef = useRef<AuthTransaction | null>(null);
 
   useEffect(() => {
     handleCallback();
@@ -61,6 +66,25 @@ export function ORCIDCallbackPage({
         fullUrl: window.location.href,
       });
 
+      // Sign-in popup: the opener exchanges the code (see auth-popup.ts)
+      if (window.opener && !window.opener.closed) {
+        window.opener.postMessage(
+          {
+            type: "OAUTH_RESULT",
+            result: {
+              code: authCode ?? undefined,
+              state: authState ?? undefined,
+              error: authError ?? undefined,
+              error_description:
+                urlParams.get("error_description") ?? undefined,
+            },
+          },
+          window.location.origin
+        );
+        window.close();
+        return;
+      }
+
       if (authError) {
         throw new Error(`ORCID OAuth error: ${authError}`);
       }
@@ -69,20 +93,13 @@ export function ORCIDCallbackPage({
         throw new Error("Missing authorization code or state parameter");
       }
 
-      // Get state from sessionStorage for validation
-      const storedState = sessionStorage.getItem("orcid_state");
-
-      console.log("ORCID Callback - Session Storage:", {
-        storedState,
-        stateMatch: storedState === authState,
-      });
-
-      if (storedState !== authState) {
-        throw new Error("State parameter mismatch - possible CSRF attack");
-      }
+      // Only a callback for a sign-in started in this browser is accepted
+      const transaction =
+        transactionRef.current ?? AuthTransactions.consume("orcid", authState);
+      transactionRef.current = transaction;
 
       // Exchange code for token using client_secret flow
-      await exchangeCodeForToken(authCode, authState);
+      await exchangeCodeForToken(authCode, authState, transaction);
     } catch (err) {
       console.error("ORCID callback error:", err);
       setError(err instanceof Error ? err.message : "Unknown error");
@@ -90,11 +107,15 @@ export function ORCIDCallbackPage({
     }
   };
 
-  const exchangeCodeForToken = async (authCode: string, authState: string) => {
+  const exchangeCodeForToken = async (
+    authCode: string,
+    authState: string,
+    transaction: AuthTransaction
+  ) => {
     try {
       if (useBackend) {
         console.log("Using backend server for token exchange...");
-        await exchangeViaBackend(authCode, authState);
+        await exchangeViaBackend(authCode, authState, transaction);
       } else {
         console.log("Using direct browser request for token exchange...");
         await exchangeViaBrowser(authCode, authState);
@@ -105,7 +126,11 @@ export function ORCIDCallbackPage({
     }
   };
 
-  const exchangeViaBackend = async (authCode: string, authState: string) => {
+  const exchangeViaBackend = async (
+    authCode: string,
+    authState: string,
+    transaction: AuthTransaction
+  ) => {
     const backendUrl = config.backend.oauthExchangeUrl;
 
     console.log("Making request to backend:", backendUrl);
@@ -114,7 +139,7 @@ export function ORCIDCallbackPage({
       provider: "orcid",
       code: authCode,
       state: authState,
-      redirect_uri: config.orcid.redirectUri,
+      redirect_uri: config.identityProviders.orcid.redirectUri,
     };
 
     console.log("Backend request body:", requestBody);
@@ -143,14 +168,12 @@ export function ORCIDCallbackPage({
     console.log("Backend response parsed:", result);
 
     if (result.success && result.tokenData) {
-      setTokenResponse(result.tokenData);
-      setStatus("success");
-
       // Store the token data first
       const tokenData = {
         ...result.tokenData,
         issued_at: Math.floor(Date.now() / 1000), // Add current timestamp
         provider: "orcid" as const, // Ensure provider is set
+        nonce: transaction.nonce,
       };
 
       console.log("Raw token data from backend:", result.tokenData);
@@ -162,6 +185,16 @@ export function ORCIDCallbackPage({
         console.log("Decoded ID Token:", decodedIdToken);
       }
 
+      // A token with a bad signature or another attempt's nonce is never
+      // stored and starts no session
+      const verification = await verifySignInToken(
+        tokenData,
+        transaction.nonce
+      );
+      console.log("ID token verification:", verification);
+
+      setTokenResponse(result.tokenData);
+      setStatus("success");
       TokenStorage.setToken("orcid", tokenData);
 
       // Verify the token was stored correctly
@@ -172,8 +205,8 @@ export function ORCIDCallbackPage({
         TokenStorage.isTokenValid(storedToken)
       );
 
-      // Check if email validation can be skipped
-      const emailCheck = canSkipEmailValidation(tokenData);
+      // Check if email validation can be skipped; only verified claims count
+      const emailCheck = canSkipEmailValidation(tokenData, verification);
       console.log("Email validation check:", emailCheck);
 
       // Create session for the authenticated user
@@ -222,29 +255,26 @@ export function ORCIDCallbackPage({
     } else {
       throw new Error("Backend returned invalid response format");
     }
-
-    // Clean up session storage
-    sessionStorage.removeItem("orcid_state");
   };
 
   const exchangeViaBrowser = async (authCode: string, _authState: string) => {
     console.log("Starting browser-based token exchange...");
-    console.log("ORCID Token URL:", config.orcid.tokenUrl);
+    console.log("ORCID Token URL:", config.identityProviders.orcid.tokenUrl);
 
     // Prepare token exchange request matching the curl command exactly
     const params = new URLSearchParams({
-      client_id: config.orcid.clientId,
-      client_secret: (config.orcid as any).clientSecret, // TypeScript workaround
+      client_id: config.identityProviders.orcid.clientId,
+      client_secret: (config.identityProviders.orcid as any).clientSecret, // TypeScript workaround
       grant_type: "authorization_code",
-      redirect_uri: config.orcid.redirectUri,
+      redirect_uri: config.identityProviders.orcid.redirectUri,
       code: authCode,
     });
 
     console.log("Token exchange request params:", params.toString());
 
     // Choose URL based on proxy setting
-    const directUrl = config.orcid.tokenUrl;
-    const proxyUrl = `https://cors-anywhere.herokuapp.com/${config.orcid.tokenUrl}`;
+    const directUrl = config.identityProviders.orcid.tokenUrl;
+    const proxyUrl = `https://cors-anywhere.herokuapp.com/${config.identityProviders.orcid.tokenUrl}`;
     const requestUrl = useCorsProxy ? proxyUrl : directUrl;
 
     console.log(
@@ -289,9 +319,6 @@ export function ORCIDCallbackPage({
     setTokenResponse(parsedResponse);
     setStatus("success");
 
-    // Clean up session storage
-    sessionStorage.removeItem("orcid_state");
-
     toast.success("ORCID token exchange successful!");
   };
 
@@ -533,7 +560,7 @@ export function ORCIDCallbackPage({
                     Client ID:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.orcid.clientId}
+                    {config.identityProviders.orcid.clientId}
                   </div>
                 </div>
                 <div>
@@ -541,7 +568,7 @@ export function ORCIDCallbackPage({
                     Redirect URI:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.orcid.redirectUri}
+                    {config.identityProviders.orcid.redirectUri}
                   </div>
                 </div>
                 <div>
@@ -549,7 +576,7 @@ export function ORCIDCallbackPage({
                     Token URL:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.orcid.tokenUrl}
+                    {config.identityProviders.orcid.tokenUrl}
                   </div>
                 </div>
                 <div>
@@ -557,7 +584,7 @@ export function ORCIDCallbackPage({
                     Scope:
                   </span>
                   <div className="text-[rgb(64,143,204)]">
-                    {config.orcid.scope}
+                    {config.identityProviders.orcid.scope}
                   </div>
                 </div>
               </div>
@@ -11,13 +11,16 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { TokenData, TokenClaims } from "@/lib/types";
+import { TokenData, TokenClaims, Provider } from "@/lib/types";
 import { TokenStorage, decodeJWT } from "@/lib/token-storage";
 import { sendTokenToBackend } from "@/lib/backend";
 import { TokenStatus } from "@/components/TokenStatus";
+import { LinkedIdentities } from "@/components/LinkedIdentities";
+import { TokenVerification } from "@/components/TokenVerification";
+import { IdentityLinks } from "@/lib/identity-links";
+import { getProvider, listProviders } from "@/lib/providers/registry";
 import { useTokenRefresh } from "@/hooks/useTokenRefresh";
 import { SessionSelection } from "@/components/SessionSelection";
-import { ORCIDProvider } from "@/lib/providers/orcid";
 import { SessionManager } from "@/lib/session";
 import { FullSDXLogo } from "@/components/FullSDXLogo";
 
@@ -32,10 +35,9 @@ export function TokenPage({
   onNavigateToDashboard,
   modal = false,
 }: TokenPageProps) {
-  const [tokens, setTokens] = useState<{
-    cilogon?: TokenData;
-    orcid?: TokenData;
-  }>({});
+  const [tokens, setTokens] = useState<Partial<Record<Provider, TokenData>>>(
+    {}
+  );
   const [selectedToken, setSelectedToken] = useState<TokenData | null>(null);
   const [claims, setClaims] = useState<TokenClaims | null>(null);
   const [isSending, setIsSending] = useState(false);
@@ -48,84 +50,7 @@ export function TokenPage({
     showNotifications: true,
   });
 
-  const checkForORCIDAuthResult = async () => {
-    try {
-      console.log("TokenPage: Checking for ORCID auth result...");
-      const authResult = localStorage.getItem("orcid_auth_result");
-      console.log("TokenPage: Found auth result:", authResult);
-
-      if (authResult) {
-        const result = JSON.parse(authResult);
-        console.log("TokenPage: Parsed auth result:", result);
-
-        if (
-          result.type === "ORCID_AUTH_SUCCESS" &&
-          Date.now() - result.timestamp < 300000
-        ) {
-          console.log(
-            "TokenPage: Valid ORCID auth result found, processing token exchange..."
-          );
-          localStorage.removeItem("orcid_auth_result");
-
-          try {
-            // If code verifier is included in the stored result, restore it to sessionStorage
-            if (result.codeVerifier) {
-              console.log(
-                "TokenPage: Restoring PKCE parameters from stored auth result"
-              );
-              sessionStorage.setItem("orcid_state", result.state);
-              sessionStorage.setItem(
-                "orcid_code_verifier",
-                result.codeVerifier
-              );
-            }
-
-            const orcidProvider = new ORCIDProvider();
-            console.log(
-              "TokenPage: Starting token exchange with code:",
-              result.code,
-              "state:",
-              result.state
-            );
-            const token = await orcidProvider.exchangeCodeForToken(
-              result.code,
-              result.state
-            );
-            console.log("TokenPage: ORCID token exchange successful:", token);
-            toast.success("✅ ORCID authentication successful!");
-
-            // Reload tokens to show the new ORCID token
-            setTimeout(() => {
-              loadTokens();
-            }, 500);
-          } catch (exchangeError) {
-            console.error(
-              "TokenPage: ORCID token exchange failed:",
-              exchangeError
-            );
-            toast.error(
-              `ORCID authentication failed: ${
-                exchangeError instanceof Error
-                  ? exchangeError.message
-                  : "Unknown error"
-              }`
-            );
-          }
-        } else {
-          console.log("TokenPage: Auth result expired or invalid type");
-        }
-      } else {
-        console.log("TokenPage: No ORCID auth result found in localStorage");
-      }
-    } catch (e) {
-      console.error("TokenPage: Error checking for ORCID auth result:", e);
-    }
-  };
-
   useEffect(() => {
-    // Check for ORCID auth result from callback redirect
-    checkForORCIDAuthResult();
-
     // Initial load
     loadTokens();
 
@@ -149,10 +74,8 @@ export function TokenPage({
     // Also check for new tokens periodically
     const checkInterval = setInterval(() => {
       const currentTokenCount = Object.keys(tokens).length;
-      const cilogon = TokenStorage.getToken("cilogon");
-      const orcid = TokenStorage.getToken("orcid");
-      const validCount = [cilogon, orcid].filter(
-        (t) => t && TokenStorage.isTokenValid(t)
+      const validCount = listProviders().filter(({ id }) =>
+        TokenStorage.isTokenValid(TokenStorage.getToken(id))
       ).length;
 
       if (validCount > currentTokenCount) {
@@ -191,18 +114,11 @@ export function TokenPage({
   }, [selectedToken]);
 
   const loadTokens = () => {
-    const cilogon = TokenStorage.getToken("cilogon");
-    const orcid = TokenStorage.getToken("orcid");
-
-    const validTokens: any = {};
-
-    if (cilogon && TokenStorage.isTokenValid(cilogon)) {
-      validTokens.cilogon = cilogon;
-    }
-
-    if (orcid && TokenStorage.isTokenValid(orcid)) {
-      validTokens.orcid = orcid;
-    }
+    const validTokens: Partial<Record<Provider, TokenData>> = {};
+    listProviders().forEach(({ id }) => {
+      const token = TokenStorage.getToken(id);
+      if (token && TokenStorage.isTokenValid(token)) validTokens[id] = token;
+    });
     setTokens(validTokens);
 
     // Show success message if we just got new tokens (only if not in modal mode and user is not already authenticated)
@@ -214,13 +130,13 @@ export function TokenPage({
       !modal &&
       !SessionManager.isAuthenticated()
     ) {
-      const newProviders = Object.keys(validTokens).filter(
-        (provider) => !tokens[provider as keyof typeof tokens]
+      const newProviders = (Object.keys(validTokens) as Provider[]).filter(
+        (provider) => !tokens[provider]
       );
       if (newProviders.length > 0) {
         toast.success(
           `🎉 Successfully authenticated with ${newProviders
-            .map((p) => p.toUpperCase())
+            .map((p) => getProvider(p).label)
             .join(", ")}!`
         );
       }
@@ -269,6 +185,7 @@ export function TokenPage({
 
   const handleClearAllTokens = () => {
     TokenStorage.clearAllTokens();
+    IdentityLinks.clear();
     setTokens({});
     setSelectedToken(null);
     setClaims(null);
@@ -403,6 +320,11 @@ export function TokenPage({
           />
         </div>
 
+        {/* Linked identities and the acting one */}
+        <div className={modal ? "col-span-1" : "lg:col-span-3"}>
+          <LinkedIdentities onChange={loadTokens} />
+        </div>
+
         {/* Token Selection */}
         {!modal && (
           <Card className="lg:col-span-1 shadow-lg border-2 border-[rgb(120,176,219)] bg-[rgb(255,255,255)]">
@@ -436,7 +358,7 @@ export function TokenPage({
                             className="font-semibold text-lg"
                             style={{ color: "rgb(64, 143, 204)" }}
                           >
-                            {provider.toUpperCase()}
+                            {getProvider(provider as Provider).label}
                           </div>
                           <div
                             className="text-sm mt-1"
@@ -530,6 +452,8 @@ export function TokenPage({
                     </div>
                   </div>
                 )}
+
+                <TokenVerification token={selectedToken} />
               </div>
 
               <Separator className="my-6 border-[rgb(200,220,240)] dark:border-blue-500/20" />
@@ -1,9 +1,9 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { useKV } from '@github/spark/hooks';
-import { TokenData, Provider } from '@/lib/types';
+import { Provider } from '@/lib/types';
 import { TokenStorage } from '@/lib/token-storage';
-import { CILogonProvider } from '@/lib/providers/cilogon';
-import { ORCIDProvider } from '@/lib/providers/orcid';
+import { refreshProviderToken } from '@/lib/token-refresh';
+import { getProvider, listProviders } from '@/lib/providers/registry';
 import { toast } from 'sonner';
 
 interface TokenRefreshConfig {
@@ -17,8 +17,8 @@ interface TokenRefreshConfig {
 
 interface TokenRefreshStatus {
   isRefreshing: boolean;
-  lastRefresh: Record<Provider, number>;
-  refreshErrors: Record<Provider, string | null>;
+  lastRefresh: Partial<Record<Provider, number>>;
+  refreshErrors: Partial<Record<Provider, string | null>>;
 }
 
 /**
@@ -33,8 +33,8 @@ export function useTokenRefresh(config: TokenRefreshConfig = {}) {
 
   const [refreshStatus, setRefreshStatus] = useKV<TokenRefreshStatus>('token-refresh-status', {
     isRefreshing: false,
-    lastRefresh: { cilogon: 0, orcid: 0 },
-    refreshErrors: { cilogon: null, orcid: null }
+    lastRefresh: {},
+    refreshErrors: {}
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -56,33 +56,9 @@ export function useTokenRefresh(config: TokenRefreshConfig = {}) {
         refreshErrors: { ...prev.refreshErrors, [provider]: null }
       }));
 
-      let newToken: TokenData;
-
-      switch (provider) {
-        case 'cilogon':
-          // CILogon tokens typically have long expiry, but we can try to refresh if refresh_token exists
-          const cilogonToken = TokenStorage.getToken('cilogon');
-          if (cilogonToken?.refresh_token) {
-            // Implement CILogon refresh token flow
-            newToken = await refreshCILogonToken(cilogonToken.refresh_token);
-          } else {
-            throw new Error('CILogon refresh token not available. Manual re-authentication required.');
-          }
-          break;
-          
-        case 'orcid':
-          // ORCID tokens can be refreshed if refresh_token exists
-          const orcidToken = TokenStorage.getToken('orcid');
-          if (orcidToken?.refresh_token) {
-            newToken = await refreshORCIDToken(orcidToken.refresh_token);
-          } else {
-            throw new Error('ORCID refresh token not available. Manual re-authentication required.');
-          }
-          break;
-          
-        default:
-          throw new Error(`Unsupported provider for refresh: ${provider}`);
-      }
+      // Shared with the API layer so a 401-triggered refresh and this
+      // background refresh never race each other
+      await refreshProviderToken(provider);
 
       setRefreshStatus(prev => ({
         ...prev,
@@ -91,7 +67,7 @@ export function useTokenRefresh(config: TokenRefreshConfig = {}) {
       }));
 
       if (showNotifications) {
-        toast.success(`${provider.toUpperCase()} token refreshed successfully`);
+        toast.success(`${getProvider(provider).label} token refreshed successfully`);
       }
 
       console.log(`Successfully refreshed ${provider} token`);
@@ -107,7 +83,7 @@ export function useTokenRefresh(config: TokenRefreshConfig = {}) {
       }));
 
       if (showNotifications) {
-        toast.error(`Failed to refresh ${provider.toUpperCase()} token: ${errorMessage}`);
+        toast.error(`Failed to refresh ${getProvider(provider).label} token: ${errorMessage}`);
       }
 
       return false;
@@ -121,7 +97,9 @@ export function useTokenRefresh(config: TokenRefreshConfig = {}) {
   }, [setRefreshStatus, showNotifications]);
 
   const checkTokens = useCallback(async () => {
-    const providers: Provider[] = ['cilogon', 'orcid'];
+    const providers = listProviders({ signIn: false })
+      .filter((plugin) => plugin.supportsRefresh)
+      .map(({ id }) => id);
     const now = Math.floor(Date.now() / 1000);
     const refreshThreshold = refreshBeforeExpiryMinutes * 60; // Convert to seconds
 
@@ -144,7 +122,7 @@ export function useTokenRefresh(config: TokenRefreshConfig = {}) {
           console.log(`No refresh token available for ${provider}, manual re-authentication will be required`);
           
           if (showNotifications && timeUntilExpiry <= 300) { // 5 minutes warning
-            toast.warning(`${provider.toUpperCase()} token expires soon. Please re-authenticate manually.`);
+            toast.warning(`${getProvider(provider).label} token expires soon. Please re-authenticate manually.`);
           }
         }
       }
@@ -190,73 +168,3 @@ export function useTokenRefresh(config: TokenRefreshConfig = {}) {
     checkTokens
   };
 }
-
-/**
- * Refresh CILogon token using refresh token
- */
-async function refreshCILogonToken(refreshToken: string): Promise<TokenData> {
-  const response = await fetch('https://cilogon.org/oauth2/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      refresh_token: refreshToken,
-      client_id: 'cilogon:/client_id/e33e29a20f84e0edd144d1e9a6e2b0',
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`CILogon token refresh failed: ${error}`);
-  }
-
-  const tokenResponse = await response.json();
-
-  const tokenData: TokenData = {
-    id_token: tokenResponse.id_token || tokenResponse.access_token,
-    refresh_token: tokenResponse.refresh_token || refreshToken, // Keep existing if not provided
-    expires_in: tokenResponse.expires_in || 3600,
-    issued_at: Math.floor(Date.now() / 1000),
-    provider: 'cilogon',
-  };
-
-  TokenStorage.setToken('cilogon', tokenData);
-  return tokenData;
-}
-
-/**
- * Refresh ORCID token using refresh token
- */
-async function refreshORCIDToken(refreshToken: string): Promise<TokenData> {
-  const response = await fetch('https://orcid.org/oauth/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      refresh_token: refreshToken,
-      client_id: 'APP-S3BU1LVHOTHITEU2',
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`ORCID token refresh failed: ${error}`);
-  }
-
-  const tokenResponse = await response.json();
-
-  const tokenData: TokenData = {
-    id_token: tokenResponse.id_token || tokenResponse.access_token,
-    refresh_token: tokenResponse.refresh_token || refreshToken, // Keep existing if not provided
-    expires_in: tokenResponse.expires_in || 3600,
-    issued_at: Math.floor(Date.now() / 1000),
-    provider: 'orcid',
-  };
-
-  TokenStorage.setToken('orcid', tokenData);
-  return tokenData;
-}
\ No newline at end of file
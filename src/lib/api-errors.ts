@@ -0,0 +1,163 @@
+export type SdxApiErrorKind =
+  | "auth"
+  | "validation"
+  | "conflict"
+  | "upstream"
+  | "network"
+  | "cancelled"
+  | "http";
+
+export interface SdxApiErrorOptions {
+  status?: number;
+  url?: string;
+  responseData?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by the SDX API client
+ */
+export class SdxApiError extends Error {
+  readonly kind: SdxApiErrorKind = "http";
+  readonly status?: number;
+  readonly url?: string;
+  readonly responseData?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: SdxApiErrorOptions = {}) {
+    super(message);
+    this.name = "SdxApiError";
+    this.status = options.status;
+    this.url = options.url;
+    this.responseData = options.responseData;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Missing, expired or rejected credentials (HTTP 401/403)
+ */
+export class SdxAuthError extends SdxApiError {
+  readonly kind = "auth" as const;
+
+  constructor(message: string, options?: SdxApiErrorOptions) {
+    super(message, options);
+    this.name = "SdxAuthError";
+  }
+}
+
+/**
+ * Request rejected by the controller as malformed or unsatisfiable (HTTP 400/422)
+ */
+export class SdxValidationError extends SdxApiError {
+  readonly kind = "validation" as const;
+
+  constructor(message: string, options?: SdxApiErrorOptions) {
+    super(message, options);
+    this.name = "SdxValidationError";
+  }
+}
+
+/**
+ * Request conflicts with existing state, e.g. a VLAN already in use (HTTP 409)
+ */
+export class SdxConflictError extends SdxApiError {
+  readonly kind = "conflict" as const;
+
+  constructor(message: string, options?: SdxApiErrorOptions) {
+    super(message, options);
+    this.name = "SdxConflictError";
+  }
+}
+
+/**
+ * The backend or SDX controller failed (HTTP 5xx, 429)
+ */
+export class SdxUpstreamError extends SdxApiError {
+  readonly kind = "upstream" as const;
+
+  constructor(message: string, options?: SdxApiErrorOptions) {
+    super(message, options);
+    this.name = "SdxUpstreamError";
+  }
+}
+
+/**
+ * The request never produced a response: offline, CORS, DNS or timeout
+ */
+export class SdxNetworkError extends SdxApiError {
+  readonly kind = "network" as const;
+  readonly timedOut: boolean;
+
+  constructor(
+    message: string,
+    options?: SdxApiErrorOptions & { timedOut?: boolean }
+  ) {
+    super(message, options);
+    this.name = "SdxNetworkError";
+    this.timedOut = options?.timedOut ?? false;
+  }
+}
+
+/**
+ * The caller aborted the request through its AbortSignal
+ */
+export class SdxCancelledError extends SdxApiError {
+  readonly kind = "cancelled" as const;
+
+  constructor(message = "Request cancelled", options?: SdxApiErrorOptions) {
+    super(message, options);
+    this.name = "SdxCancelledError";
+  }
+}
+
+/**
+ * Map an HTTP status to the matching error class
+ */
+export function errorForStatus(
+  status: number,
+  message: string,
+  options: SdxApiErrorOptions
+): SdxApiError {
+  if (status === 401 || status === 403) {
+    return new SdxAuthError(message, options);
+  }
+  if (status === 400 || status === 422) {
+    return new SdxValidationError(message, options);
+  }
+  if (status === 409) {
+    return new SdxConflictError(message, options);
+  }
+  if (status >= 500 || status === 429) {
+    return new SdxUpstreamError(message, options);
+  }
+  return new SdxApiError(message, options);
+}
+
+/**
+ * Extract a human readable message from any thrown value
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error occurred";
+}
+
+/**
+ * Build a user-facing toast message for a failed API call
+ */
+export function describeApiError(action: string, error: unknown): string {
+  if (error instanceof SdxAuthError) {
+    return "Authentication failed. Please login again.";
+  }
+  if (error instanceof SdxNetworkError) {
+    return error.timedOut
+      ? `${action} timed out. The SDX backend did not respond in time.`
+      : `${action} failed: the SDX backend is unreachable.`;
+  }
+  if (error instanceof SdxConflictError) {
+    return `${action} failed: conflicts with existing resources. ${error.message}`;
+  }
+  if (error instanceof SdxValidationError) {
+    return `${action} failed: request rejected. ${error.message}`;
+  }
+  return `${action} failed: ${getErrorMessage(error)}`;
+}
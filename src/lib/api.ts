@@ -1,116 +1,112 @@
 import { config } from "@/lib/config";
-import { TopologyResponse, ApiError } from "@/lib/types";
-import { TokenStorage } from "@/lib/token-storage";
+import {
+  TokenData,
+  TopologyResponse,
+  L2VPN,
+  L2VPNRequest,
+  L2VPNUpdate,
+  L2VPNMutationResponse,
+} from "@/lib/types";
+import { IdentityLinks } from "@/lib/identity-links";
+import {
+  normalizeL2VPNDetail,
+  normalizeL2VPNList,
+  normalizeMutationResponse,
+} from "@/lib/l2vpn-schema";
+import { httpRequest, HttpRequestOptions } from "@/lib/http-client";
+import { SdxAuthError } from "@/lib/api-errors";
+import { notifySessionExpired, refreshSession } from "@/lib/token-refresh";
+
+// Per-call controls exposed to components
+export interface ApiRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
 
 /**
  * API service for SDX topology and other endpoints
  */
 export class ApiService {
   private static getAuthToken(): string | null {
-    // Try to get id_token from either ORCID or CILogon
-    const orcidToken = TokenStorage.getToken("orcid");
-    const cilogonToken = TokenStorage.getToken("cilogon");
-    
-    // Prefer the most recent valid token
-    const tokens = [orcidToken, cilogonToken].filter(token => 
-      token && TokenStorage.isTokenValid(token)
-    );
-    
-    if (tokens.length === 0) {
+    return this.getAuthTokenData()?.id_token ?? null;
+  }
+
+  private static getAuthTokenData(): TokenData | null {
+    // The acting identity's token; a linked identity takes over by signing in
+    const token = IdentityLinks.getActingToken();
+    if (!token) {
       console.warn('No valid tokens found for API authentication');
       return null;
     }
-    
-    // Sort by issued_at to get the most recent
-    const mostRecentToken = tokens.sort((a, b) => b!.issued_at - a!.issued_at)[0];
-    
-    // Return id_token for Bearer authentication
-    if (mostRecentToken?.id_token) {
-      console.log('Using id_token for API authentication from provider:', mostRecentToken.provider);
-      return mostRecentToken.id_token;
-    }
-    
-    console.warn('No id_token found in valid tokens');
-    return null;
+
+    console.log('Using id_token for API authentication from provider:', token.provider);
+    return token;
   }
 
+  /**
+   * Send a request to the backend API through the shared request pipeline.
+   * A 401 triggers one silent token refresh (shared by all in-flight requests)
+   * and the request is replayed once with the new token.
+   */
   private static async makeAuthenticatedRequest<T>(
-    endpoint: string, 
-    options: RequestInit = {}
+    endpoint: string,
+    options: HttpRequestOptions & { requireAuth?: boolean } = {}
   ): Promise<T> {
-    const token = this.getAuthToken();
-    
-    // Temporarily disable authentication requirement for testing
-    // if (!token) {
-    //   throw new Error('No authentication token available. Please login first.');
-    // }
-
+    const { requireAuth = true, ...requestOptions } = options;
     const url = `${config.api.baseUrl}${endpoint}`;
-    
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }), // Only add auth if token exists
-      ...options.headers,
-    };
+    let tokenData = this.getAuthTokenData();
+
+    if (requireAuth && !tokenData) {
+      // Stored tokens may only be expired; try to refresh before giving up
+      if (await refreshSession(IdentityLinks.getActingIdentity()?.provider)) {
+        tokenData = this.getAuthTokenData();
+      }
+      if (!tokenData) {
+        notifySessionExpired({ reason: 'No valid authentication token' });
+        throw new SdxAuthError('No authentication token available. Please login first.');
+      }
+    }
 
-    console.log(`Making API request to: ${url}`);
-    console.log('Request headers:', headers);
-    console.log('Request options:', options);
-    
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token && { 'Authorization': `Bearer ${token}` }),
-        },
+      return await httpRequest<T>(url, {
+        ...requestOptions,
+        token: tokenData?.id_token ?? null,
       });
+    } catch (error) {
+      if (!(error instanceof SdxAuthError) || error.status !== 401 || !tokenData) {
+        throw error;
+      }
 
-      console.log(`API response status: ${response.status}`);
-      console.log(`API response headers:`, Object.fromEntries(response.headers.entries()));
+      console.warn(`${endpoint} rejected the ${tokenData.provider} token, attempting silent refresh`);
+      const refreshed = await refreshSession(tokenData.provider);
+      const replayToken = refreshed ? this.getAuthTokenData() : null;
 
-      if (!response.ok) {
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        
-        try {
-          // Read response body only once
-          const responseText = await response.text();
-          console.log('Error response text:', responseText);
-          
-          // Try to parse as JSON
-          const errorData = JSON.parse(responseText) as ApiError;
-          errorMessage = errorData.message || errorData.error || errorMessage;
-          console.log('Error response data:', errorData);
-        } catch (parseError) {
-          console.log('Could not parse error response as JSON:', parseError);
-          // errorMessage already contains the response text or default message
+      if (!replayToken || replayToken.id_token === tokenData.id_token) {
+        if (requireAuth) {
+          notifySessionExpired({ provider: tokenData.provider, reason: error.message });
         }
-        
-        throw new Error(errorMessage);
+        throw error;
       }
 
-      const data = await response.json();
-      console.log('API response received successfully, data length:', JSON.stringify(data).length);
-      return data as T;
-      
-    } catch (error) {
-      console.error('API request failed with error:', error);
-      if (error instanceof TypeError) {
-        console.error('This might be a CORS or network connectivity issue');
-      }
-      throw error;
+      return httpRequest<T>(url, {
+        ...requestOptions,
+        token: replayToken.id_token,
+      });
     }
   }
 
   /**
    * Fetch network topology data
    */
-  static async getTopology(): Promise<TopologyResponse> {
+  static async getTopology(
+    options: ApiRequestOptions = {}
+  ): Promise<TopologyResponse> {
+    // Topology is readable without a token; one is attached when available
     const backendResponse = await this.makeAuthenticatedRequest<{
       success: boolean;
       data: TopologyResponse;
       timestamp: string;
-    }>(config.api.endpoints.topology);
+    }>(config.api.endpoints.topology, { ...options, requireAuth: false });
     
     // Extract the topology data from the backend response wrapper
     return backendResponse.data;
@@ -127,268 +123,93 @@ export class ApiService {
    * Get the current authentication provider
    */
   static getAuthProvider(): string | null {
-    const orcidToken = TokenStorage.getToken("orcid");
-    const cilogonToken = TokenStorage.getToken("cilogon");
-
-    const tokens = [
-      { token: orcidToken, provider: 'orcid' },
-      { token: cilogonToken, provider: 'cilogon' }
-    ].filter(({ token }) => token && TokenStorage.isTokenValid(token));
-
-    if (tokens.length === 0) return null;
-
-    // Return the most recent provider
-    const mostRecent = tokens.sort((a, b) =>
-      b.token!.issued_at - a.token!.issued_at
-    )[0];
-
-    return mostRecent.provider;
+    return this.getAuthTokenData()?.provider ?? null;
   }
 
   /**
    * Create a new L2VPN connection
    */
-  static async createL2VPN(requestData: any): Promise<any> {
-    const token = this.getAuthToken();
-
-    if (!token) {
-      throw new Error('No authentication token available. Please login first.');
-    }
-
-    const url = `${config.api.baseUrl}/l2vpn/1.0`;
-
+  static async createL2VPN(
+    requestData: L2VPNRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<L2VPNMutationResponse> {
     console.log('Creating L2VPN with request:', requestData);
-    console.log('POST URL:', url);
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(requestData),
-      });
-
-      console.log(`L2VPN API response status: ${response.status}`);
-
-      // Read response text first
-      const responseText = await response.text();
-      console.log('L2VPN response text:', responseText);
 
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        throw new Error(`Invalid JSON response: ${responseText}`);
-      }
-
-      // Check if response is not OK OR if the data contains an error field
-      if (!response.ok || data.error || data.status === 'error') {
-        const errorMessage = data.error || data.reason || data.message || `HTTP ${response.status}: ${response.statusText}`;
-        console.log('Error response data:', data);
-
-        // Throw error with full response data
-        const error = new Error(errorMessage) as any;
-        error.responseData = data;
-        throw error;
-      }
-
-      console.log('L2VPN created successfully:', data);
-      return data;
+    const data = await this.makeAuthenticatedRequest<unknown>(
+      config.api.endpoints.l2vpn,
+      { ...options, method: 'POST', body: requestData }
+    );
 
-    } catch (error) {
-      console.error('L2VPN creation failed with error:', error);
-      if (error instanceof TypeError) {
-        console.error('This might be a CORS or network connectivity issue');
-      }
-      throw error;
-    }
+    console.log('L2VPN created successfully:', data);
+    return normalizeMutationResponse(data);
   }
 
   /**
    * Get list of L2VPN connections
    */
-  static async getL2VPNs(): Promise<any[]> {
-    const token = this.getAuthToken();
-
-    if (!token) {
-      throw new Error('No authentication token available. Please login first.');
-    }
-
+  static async getL2VPNs(options: ApiRequestOptions = {}): Promise<L2VPN[]> {
     // Use the backend proxy endpoint to avoid CORS issues
-    const url = `${config.api.baseUrl}/l2vpn/1.0`;
-
-    console.log('Fetching L2VPNs from:', url);
-
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      console.log(`L2VPN list API response status: ${response.status}`);
-
-      // Read response text first
-      const responseText = await response.text();
-      console.log('L2VPN list response text:', responseText);
-
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        throw new Error(`Invalid JSON response: ${responseText}`);
-      }
+    const data = await this.makeAuthenticatedRequest<unknown>(
+      config.api.endpoints.l2vpn,
+      options
+    );
 
-      // Check if response is not OK OR if the data contains an error field
-      if (!response.ok || data.error || data.status === 'error') {
-        const errorMessage = data.error || data.reason || data.message || `HTTP ${response.status}: ${response.statusText}`;
-        console.log('Error response data:', data);
+    // Schema drift is reported by the normalizer; invalid entries are skipped
+    const { l2vpns } = normalizeL2VPNList(data);
 
-        // Throw error with full response data
-        const error = new Error(errorMessage) as any;
-        error.responseData = data;
-        throw error;
-      }
+    console.log(`Fetched ${l2vpns.length} L2VPNs successfully`);
+    return l2vpns;
+  }
 
-      // Handle different response formats:
-      // 1. Array response
-      // 2. Object with l2vpns/data properties
-      // 3. Object with UUID keys (convert to array)
-      let l2vpns: any[] = [];
-      
-      if (Array.isArray(data)) {
-        l2vpns = data;
-      } else if (data.l2vpns || data.data) {
-        l2vpns = data.l2vpns || data.data || [];
-      } else if (typeof data === 'object' && data !== null) {
-        // Convert object with UUID keys to array
-        // Each value should have a service_id or use the key as id
-        l2vpns = Object.entries(data).map(([key, value]: [string, any]) => ({
-          ...value,
-          id: value.service_id || key,
-          uuid: value.service_id || key,
-        }));
-      }
-      
-      console.log(`Fetched ${l2vpns.length} L2VPNs successfully`);
-      return l2vpns;
+  /**
+   * Get a single L2VPN connection
+   */
+  static async getL2VPN(
+    serviceId: string,
+    options: ApiRequestOptions = {}
+  ): Promise<L2VPN> {
+    const data = await this.makeAuthenticatedRequest<unknown>(
+      `${config.api.endpoints.l2vpn}/${encodeURIComponent(serviceId)}`,
+      options
+    );
 
-    } catch (error) {
-      console.error('L2VPN list fetch failed with error:', error);
-      if (error instanceof TypeError) {
-        console.error('This might be a CORS or network connectivity issue');
-      }
-      throw error;
-    }
+    return normalizeL2VPNDetail(data, serviceId);
   }
 
   /**
    * Delete an L2VPN connection
    */
-  static async deleteL2VPN(serviceId: string): Promise<any> {
-    const token = this.getAuthToken();
-
-    if (!token) {
-      throw new Error('No authentication token available. Please login first.');
-    }
-
-    const url = `${config.api.baseUrl}/l2vpn/1.0/${serviceId}`;
-
+  static async deleteL2VPN(
+    serviceId: string,
+    options: ApiRequestOptions = {}
+  ): Promise<L2VPNMutationResponse> {
     console.log('Deleting L2VPN:', serviceId);
-    console.log('DELETE URL:', url);
-
-    try {
-      const response = await fetch(url, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      console.log(`L2VPN DELETE response status: ${response.status}`);
 
-      const responseText = await response.text();
-      console.log('L2VPN DELETE response text:', responseText);
-
-      let data;
-      try {
-        data = responseText ? JSON.parse(responseText) : { success: true };
-      } catch (parseError) {
-        data = { message: responseText || 'Deleted successfully' };
-      }
-
-      if (!response.ok) {
-        const errorMessage = data.error || data.reason || data.message || `HTTP ${response.status}: ${response.statusText}`;
-        const error = new Error(errorMessage) as any;
-        error.responseData = data;
-        throw error;
-      }
-
-      console.log('L2VPN deleted successfully:', data);
-      return data;
+    const data = await this.makeAuthenticatedRequest<unknown>(
+      `${config.api.endpoints.l2vpn}/${encodeURIComponent(serviceId)}`,
+      { ...options, method: 'DELETE' }
+    );
 
-    } catch (error) {
-      console.error('L2VPN deletion failed with error:', error);
-      throw error;
-    }
+    console.log('L2VPN deleted successfully:', data);
+    return normalizeMutationResponse(data);
   }
 
   /**
    * Update an L2VPN connection
    */
-  static async updateL2VPN(serviceId: string, updateData: any): Promise<any> {
-    const token = this.getAuthToken();
-
-    if (!token) {
-      throw new Error('No authentication token available. Please login first.');
-    }
-
-    const url = `${config.api.baseUrl}/l2vpn/1.0/${serviceId}`;
-
-    console.log('Updating L2VPN:', serviceId);
-    console.log('PATCH URL:', url);
-    console.log('Update data:', updateData);
-
-    try {
-      const response = await fetch(url, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(updateData),
-      });
-
-      console.log(`L2VPN PATCH response status: ${response.status}`);
-
-      const responseText = await response.text();
-      console.log('L2VPN PATCH response text:', responseText);
-
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        throw new Error(`Invalid JSON response: ${responseText}`);
-      }
-
-      if (!response.ok) {
-        const errorMessage = data.error || data.reason || data.message || `HTTP ${response.status}: ${response.statusText}`;
-        const error = new Error(errorMessage) as any;
-        error.responseData = data;
-        throw error;
-      }
-
-      console.log('L2VPN updated successfully:', data);
-      return data;
+  static async updateL2VPN(
+    serviceId: string,
+    updateData: L2VPNUpdate,
+    options: ApiRequestOptions = {}
+  ): Promise<L2VPNMutationResponse> {
+    console.log('Updating L2VPN:', serviceId, updateData);
+
+    const data = await this.makeAuthenticatedRequest<unknown>(
+      `${config.api.endpoints.l2vpn}/${encodeURIComponent(serviceId)}`,
+      { ...options, method: 'PATCH', body: updateData }
+    );
 
-    } catch (error) {
-      console.error('L2VPN update failed with error:', error);
-      throw error;
-    }
+    console.log('L2VPN updated successfully:', data);
+    return normalizeMutationResponse(data);
   }
-}
\ No newline at end of file
+}
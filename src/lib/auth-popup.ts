@@ -1,6 +1,9 @@
 // Popup-based OAuth authentication utilities
 export interface PopupAuthOptions {
   url: string;
+  // State of the sign-in attempt (see auth-transactions.ts); results for any
+  // other attempt are rejected
+  state?: string;
   width?: number;
   height?: number;
   windowFeatures?: string;
@@ -15,11 +18,12 @@ export interface PopupAuthResult {
 
 /**
  * Creates a message-based authentication flow for better reliability
- * This listens for postMessage events from the popup window
+ * This listens for postMessage events from the popup window it opened
  */
 export function authenticateWithPopup(options: PopupAuthOptions): Promise<PopupAuthResult> {
   const {
     url,
+    state,
     width = 600,
     height = 700,
     windowFeatures = 'scrollbars=yes,resizable=yes,status=yes,location=yes,toolbar=no,menubar=no'
@@ -51,14 +55,25 @@ export function authenticateWithPopup(options: PopupAuthOptions): Promise<PopupA
         return;
       }
 
+      // Only the window opened for this attempt may answer it
+      if (event.source !== popup) {
+        return;
+      }
+
       if (event.data && event.data.type === 'OAUTH_RESULT') {
-        console.log('Received OAuth result:', event.data.result);
+        const result: PopupAuthResult = event.data.result;
+        console.log('Received OAuth result:', result);
         resolved = true;
+        clearInterval(checkClosed);
         window.removeEventListener('message', messageListener);
         if (!popup.closed) {
           popup.close();
         }
-        resolve(event.data.result);
+        if (state && !result.error && result.state !== state) {
+          reject(new Error('The sign-in window answered a different sign-in attempt. Please try again.'));
+          return;
+        }
+        resolve(result);
       }
     };
 
@@ -0,0 +1,189 @@
+import { Provider } from "@/lib/types";
+import { getProvider } from "@/lib/providers/registry";
+
+/**
+ * One sign-in attempt: everything the callback has to match, bound to the
+ * state sent to the provider
+ */
+export interface AuthTransaction {
+  state: string;
+  nonce: string;
+  // PKCE verifier, for providers that sign in with PKCE
+  code_verifier?: string;
+  provider: Provider;
+  created_at: number;
+  // Set once a callback used the transaction; kept to recognise replays
+  consumed_at?: number;
+}
+
+export type AuthTransactionErrorReason =
+  | "missing"
+  | "unknown"
+  | "expired"
+  | "replayed"
+  | "provider_mismatch";
+
+/**
+ * A callback that does not belong to a pending sign-in attempt. The message
+ * is meant for the user.
+ */
+export class AuthTransactionError extends Error {
+  readonly reason: AuthTransactionErrorReason;
+
+  constructor(reason: AuthTransactionErrorReason, message: string) {
+    super(message);
+    this.name = "AuthTransactionError";
+    this.reason = reason;
+  }
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=/g, "");
+}
+
+function randomString(): string {
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return base64Url(array);
+}
+
+/**
+ * S256 code challenge for a PKCE verifier
+ */
+export async function codeChallenge(verifier: string): Promise<string> {
+  const hash = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier)
+  );
+  return base64Url(new Uint8Array(hash));
+}
+
+/**
+ * Pending sign-in attempts, one record per state. Records live in
+ * localStorage so that a callback landing in another tab or window still
+ * finds its attempt, and attempts in several tabs do not overwrite each
+ * other. A record can be consumed once; it is kept until it expires so that
+ * a replayed callback is told apart from an unknown one.
+ */
+export class AuthTransactions {
+  private static PREFIX = "sdx_auth_tx.";
+  private static TTL_MS = 10 * 60 * 1000;
+
+  private static key(state: string): string {
+    return `${this.PREFIX}${state}`;
+  }
+
+  private static read(state: string): AuthTransaction | null {
+    try {
+      const stored = localStorage.getItem(this.key(state));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("Error reading auth transaction:", error);
+      return null;
+    }
+  }
+
+  private static isExpired(transaction: AuthTransaction): boolean {
+    return Date.now() - transaction.created_at > this.TTL_MS;
+  }
+
+  /**
+   * Drop expired records, consumed or not
+   */
+  private static prune(): void {
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(this.PREFIX)) continue;
+      const transaction = this.read(key.slice(this.PREFIX.length));
+      if (!transaction || this.isExpired(transaction)) {
+        localStorage.removeItem(key);
+      }
+    }
+  }
+
+  /**
+   * Start a sign-in attempt with a fresh state and nonce, and a PKCE
+   * verifier when asked for
+   */
+  static begin(
+    provider: Provider,
+    { pkce = false }: { pkce?: boolean } = {}
+  ): AuthTransaction {
+    this.prune();
+    const transaction: AuthTransaction = {
+      state: randomString(),
+      nonce: randomString(),
+      code_verifier: pkce ? randomString() : undefined,
+      provider,
+      created_at: Date.now(),
+    };
+    localStorage.setItem(
+      this.key(transaction.state),
+      JSON.stringify(transaction)
+    );
+    console.log("Auth transaction started:", {
+      provider,
+      pkce,
+      state: transaction.state.substring(0, 8) + "...",
+    });
+    return transaction;
+  }
+
+  /**
+   * Take the attempt a callback belongs to. Throws AuthTransactionError when
+   * the state is missing, unknown, expired or already used, or the attempt
+   * was started for another provider.
+   */
+  static consume(provider: Provider, state: string | null): AuthTransaction {
+    const label = getProvider(provider).label;
+    if (!state) {
+      throw new AuthTransactionError(
+        "missing",
+        `The ${label} sign-in response has no state. Please sign in again.`
+      );
+    }
+
+    const transaction = this.read(state);
+    if (!transaction) {
+      throw new AuthTransactionError(
+        "unknown",
+        `This ${label} sign-in response does not belong to a sign-in started in this browser. Please sign in again.`
+      );
+    }
+    if (transaction.consumed_at) {
+      throw new AuthTransactionError(
+        "replayed",
+        `This ${label} sign-in response has already been used. Please sign in again.`
+      );
+    }
+    if (this.isExpired(transaction)) {
+      localStorage.removeItem(this.key(state));
+      throw new AuthTransactionError(
+        "expired",
+        `The ${label} sign-in took too long and has expired. Please sign in again.`
+      );
+    }
+    if (transaction.provider !== provider) {
+      throw new AuthTransactionError(
+        "provider_mismatch",
+        `This sign-in was started with ${getProvider(transaction.provider).label}, not ${label}. Please sign in again.`
+      );
+    }
+
+    localStorage.setItem(
+      this.key(state),
+      JSON.stringify({ ...transaction, consumed_at: Date.now() })
+    );
+    return transaction;
+  }
+
+  /**
+   * Forget an attempt that will not complete, e.g. a closed popup
+   */
+  static discard(state: string): void {
+    localStorage.removeItem(this.key(state));
+  }
+}
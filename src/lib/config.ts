@@ -18,12 +18,28 @@ export const config = {
     },
     endpoints: {
       topology: "/topology",
+      l2vpn: "/l2vpn/1.0",
+    },
+    // Request pipeline defaults (see http-client.ts)
+    request: {
+      timeoutMs: 30000,
+      maxRetries: 2, // Only applied to idempotent methods
+      retryBaseDelayMs: 500,
     },
   },
 
   // Topology filtering configuration
   topology: {
+    // Domains shown until the user picks their own (see topology-domains.ts)
     allowedDomains: ["ampath.net", "sax.net", "tenet.ac.za", "amlight.net"],
+    // Background refresh while live updates are on
+    pollIntervalMs: 60000,
+    maxChangeFeedEntries: 200,
+    // Snapshots kept in IndexedDB for playback
+    history: {
+      retentionMs: 24 * 60 * 60 * 1000,
+      maxSnapshots: 500,
+    },
   },
   tokenHandoffPath: "/auth/oidc-token",
 
@@ -41,43 +57,88 @@ export const config = {
     return isProduction ? "/multi-provider-authe" : "";
   },
 
-  // CILogon - Updated with correct OIDC settings
-  cilogon: {
-    clientId: import.meta.env.VITE_CILOGON_CLIENT_ID,
-    clientSecret: import.meta.env.VITE_CILOGON_CLIENT_SECRET,
-    scope: "openid email profile org.cilogon.userinfo", // Request user profile claims including eppn
-    authUrl: "https://cilogon.org/authorize",
-    tokenUrl: import.meta.env.VITE_CILOGON_TOKEN_URL,
-    jwksUrl: "https://cilogon.org/oauth2/certs",
-    issuerUrl: "https://cilogon.org",
-    get redirectUri() {
-      const baseUrl = config.getBaseUrl();
-      const appPath = config.getAppPath();
-      return `${baseUrl}${appPath}/auth/callback/cilogon`;
-    },
-    usePkce: false, // Switch to client_secret flow instead of PKCE
+  get postLogoutRedirectUri() {
+    return `${config.getBaseUrl()}${config.getAppPath()}/`;
   },
 
-  // ORCID - Using sandbox environment for testing
-  orcid: {
-    clientId: import.meta.env.VITE_ORCID_CLIENT_ID, // Updated with proper ORCID client ID
-    clientSecret: import.meta.env.VITE_ORCID_CLIENT_SECRET, // Client secret for token exchange
-    issuerUrl: "https://orcid.org",
-    authUrl: "https://orcid.org/oauth/authorize",
-    tokenUrl: import.meta.env.VITE_ORCID_TOKEN_URL, // Updated with proper ORCID token URL
-    logoutUrl: "https://orcid.org/signout", // ORCID logout endpoint
-    scope: "openid /authenticate",
-    get redirectUri() {
-      const baseUrl = config.getBaseUrl();
-      const appPath = config.getAppPath();
-      return `${baseUrl}${appPath}/auth/callback/orcid`;
+  // Identity providers, one plugin each (see providers/registry.ts). A new
+  // OIDC issuer only needs an entry of type "oidc" with its issuerUrl; its
+  // endpoints are discovered and its callback route is /auth/callback/<key>.
+  identityProviders: {
+    // CILogon - endpoints, scopes and PKCE discovered from the issuer
+    cilogon: {
+      type: "oidc",
+      label: "CILogon",
+      description: "Academic federation",
+      signIn: true,
+      login: "redirect",
+      issuerUrl: "https://cilogon.org",
+      clientId: import.meta.env.VITE_CILOGON_CLIENT_ID,
+      clientSecret: import.meta.env.VITE_CILOGON_CLIENT_SECRET,
+      scope: "openid email profile org.cilogon.userinfo", // Request user profile claims including eppn
+      tokenUrl: import.meta.env.VITE_CILOGON_TOKEN_URL, // Overrides the discovered endpoint when set
+      refreshClientId: "cilogon:/client_id/e33e29a20f84e0edd144d1e9a6e2b0",
+      supportsRefresh: true,
+      get redirectUri() {
+        const baseUrl = config.getBaseUrl();
+        const appPath = config.getAppPath();
+        return `${baseUrl}${appPath}/auth/callback/cilogon`;
+      },
+    },
+
+    // ORCID - Using sandbox environment for testing
+    orcid: {
+      type: "orcid",
+      label: "ORCID",
+      description: "Researcher identifiers",
+      signIn: true,
+      login: "popup",
+      clientId: import.meta.env.VITE_ORCID_CLIENT_ID, // Updated with proper ORCID client ID
+      clientSecret: import.meta.env.VITE_ORCID_CLIENT_SECRET, // Client secret for token exchange
+      issuerUrl: "https://orcid.org",
+      authUrl: "https://orcid.org/oauth/authorize",
+      tokenUrl: import.meta.env.VITE_ORCID_TOKEN_URL, // Updated with proper ORCID token URL
+      refreshUrl: "https://orcid.org/oauth/token",
+      refreshClientId: "APP-S3BU1LVHOTHITEU2",
+      supportsRefresh: true,
+      logoutUrl: "https://orcid.org/signout", // ORCID logout endpoint
+      scope: "openid /authenticate",
+      get redirectUri() {
+        const baseUrl = config.getBaseUrl();
+        const appPath = config.getAppPath();
+        return `${baseUrl}${appPath}/auth/callback/orcid`;
+      },
+      usePkce: false, // Switch to client_secret flow instead of PKCE
+    },
+
+    // Any other OIDC issuer, e.g. a local Keycloak or Dex for development or
+    // an institutional issuer, set from the environment alone
+    oidc: {
+      type: "oidc",
+      label: import.meta.env.VITE_OIDC_LABEL || "Institutional login",
+      description: import.meta.env.VITE_OIDC_DESCRIPTION,
+      signIn: !!import.meta.env.VITE_OIDC_ISSUER_URL,
+      login: "redirect",
+      issuerUrl: import.meta.env.VITE_OIDC_ISSUER_URL,
+      clientId: import.meta.env.VITE_OIDC_CLIENT_ID,
+      clientSecret: import.meta.env.VITE_OIDC_CLIENT_SECRET,
+      scope: import.meta.env.VITE_OIDC_SCOPE,
     },
-    get postLogoutRedirectUri() {
-      const baseUrl = config.getBaseUrl();
-      const appPath = config.getAppPath();
-      return `${baseUrl}${appPath}/`;
+
+    // FABRIC API tokens are minted from a CILogon token, not signed in to
+    fabric: {
+      type: "fabric",
+      label: "FABRIC",
+      signIn: false,
     },
-    usePkce: false, // Switch to client_secret flow instead of PKCE
+  },
+
+  // ID token verification (see jwt-verification.ts)
+  tokenVerification: {
+    jwksCacheMs: 60 * 60 * 1000,
+    // Refetch for an unknown kid (key rotation) at most this often
+    jwksMinRefetchMs: 60 * 1000,
+    clockSkewSec: 60,
   },
 
   // Connection services (used after obtaining identity tokens)
@@ -98,4 +159,36 @@ export const config = {
   },
 } as const;
 
-export type Provider = "cilogon" | "orcid";
+export type Provider = keyof typeof config.identityProviders;
+
+// An identityProviders entry. `type` picks the plugin that implements it.
+export interface ProviderConfig {
+  type: "oidc" | "orcid" | "fabric";
+  label: string;
+  description?: string;
+  // False for providers whose tokens come from another provider's token
+  signIn: boolean;
+  // Sign in by leaving the app ("redirect") or in a popup window
+  login?: "redirect" | "popup";
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+  authUrl?: string;
+  tokenUrl?: string;
+  // Token endpoint and client for refresh_token grants, if not the above
+  refreshUrl?: string;
+  refreshClientId?: string;
+  // Refresh the token in the background before it expires
+  supportsRefresh?: boolean;
+  logoutUrl?: string;
+  jwksUrl?: string;
+  // Where endpoints not set above are discovered, via
+  // /.well-known/openid-configuration
+  issuerUrl?: string;
+  // Defaults to /auth/callback/<key> under the app path
+  redirectUri?: string;
+  // PKCE (S256) is used where the issuer supports it unless this is false
+  usePkce?: boolean;
+  // ID token claim names, where they differ from sub, name and email
+  claims?: { sub?: string; name?: string; email?: string };
+}
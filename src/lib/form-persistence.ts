@@ -0,0 +1,35 @@
+// Keeps unsaved form values across a forced re-login. sessionStorage survives
+// the OAuth redirect/popup round trip but not closing the tab.
+
+export const PENDING_L2VPN_FORM_KEY = "sdx_pending_l2vpn_form";
+
+export function savePendingForm<T>(key: string, values: T) {
+  try {
+    sessionStorage.setItem(
+      key,
+      JSON.stringify({ values, saved_at: Date.now() })
+    );
+  } catch (error) {
+    console.warn(`Failed to persist form state for ${key}:`, error);
+  }
+}
+
+export function loadPendingForm<T>(key: string): T | null {
+  const stored = sessionStorage.getItem(key);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored).values ?? null;
+  } catch {
+    sessionStorage.removeItem(key);
+    return null;
+  }
+}
+
+export function hasPendingForm(key: string): boolean {
+  return sessionStorage.getItem(key) !== null;
+}
+
+export function clearPendingForm(key: string) {
+  sessionStorage.removeItem(key);
+}
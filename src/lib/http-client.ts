@@ -0,0 +1,206 @@
+import { config } from "@/lib/config";
+import {
+  SdxApiError,
+  SdxCancelledError,
+  SdxNetworkError,
+  SdxUpstreamError,
+  errorForStatus,
+} from "@/lib/api-errors";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface HttpRequestOptions {
+  method?: HttpMethod;
+  // Serialized as JSON when present
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Bearer token added as the Authorization header
+  token?: string | null;
+  // Caller-controlled cancellation
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Defaults to config.api.request.maxRetries for idempotent methods, 0 otherwise
+  retries?: number;
+}
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof SdxNetworkError) return true;
+  if (error instanceof SdxUpstreamError) {
+    return error.status === undefined || [429, 502, 503, 504].includes(error.status);
+  }
+  return false;
+}
+
+function backoffDelay(attempt: number): number {
+  const base = config.api.request.retryBaseDelayMs * 2 ** attempt;
+  // Add up to 25% jitter so parallel callers do not retry in lockstep
+  return base + Math.random() * base * 0.25;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new SdxCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new SdxCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Pull the most specific message out of an SDX or backend error body
+ */
+function extractErrorMessage(data: any, fallback: string): string {
+  if (!data || typeof data !== "object") return fallback;
+  const message = data.error || data.reason || data.message || data.description;
+  return typeof message === "string" && message.length > 0 ? message : fallback;
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    if (response.ok) {
+      throw new SdxUpstreamError(`Invalid JSON response: ${text}`, {
+        status: response.status,
+        url: response.url,
+        responseData: text,
+      });
+    }
+    // Non-JSON error pages (proxies, gateways) are surfaced as the message
+    return { message: text };
+  }
+}
+
+async function attemptRequest(
+  url: string,
+  options: HttpRequestOptions
+): Promise<unknown> {
+  const { method = "GET", body, headers, token, signal } = options;
+  const timeoutMs = options.timeoutMs ?? config.api.request.timeoutMs;
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener("abort", onCallerAbort, { once: true });
+
+  // Aborts and timeouts reject both fetch and the body read; the caller
+  // sees them as cancellation or network errors
+  const transportError = (error: unknown): Error => {
+    if (signal?.aborted) {
+      return new SdxCancelledError(undefined, { url, cause: error });
+    }
+    if (timedOut) {
+      return new SdxNetworkError(`Request timed out after ${timeoutMs}ms`, {
+        url,
+        cause: error,
+        timedOut: true,
+      });
+    }
+    // fetch rejects with TypeError for offline, DNS and CORS failures
+    return new SdxNetworkError(
+      "Network request failed. This might be a CORS or connectivity issue.",
+      { url, cause: error }
+    );
+  };
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...headers,
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw transportError(error);
+    }
+
+    let data: any;
+    try {
+      data = await parseBody(response);
+    } catch (error) {
+      if (error instanceof SdxApiError) throw error;
+      throw transportError(error);
+    }
+
+    if (!response.ok) {
+      const message = extractErrorMessage(
+        data,
+        `HTTP ${response.status}: ${response.statusText}`
+      );
+      throw errorForStatus(response.status, message, {
+        status: response.status,
+        url,
+        responseData: data,
+      });
+    }
+
+    // The SDX controller sometimes reports failures with a 2xx status, in an
+    // error envelope. A status field alone is not one: L2VPN records carry
+    // their own status, which may be "error".
+    if (data && typeof data === "object" && data.error) {
+      throw new SdxApiError(extractErrorMessage(data, "Request failed"), {
+        status: response.status,
+        url,
+        responseData: data,
+      });
+    }
+
+    return data;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onCallerAbort);
+  }
+}
+
+/**
+ * Single request pipeline for the SDX backend: JSON encoding, timeouts,
+ * cancellation, typed errors and exponential-backoff retries for idempotent calls.
+ */
+export async function httpRequest<T = unknown>(
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<T> {
+  const method = options.method ?? "GET";
+  const retries =
+    options.retries ??
+    (IDEMPOTENT_METHODS.includes(method) ? config.api.request.maxRetries : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return (await attemptRequest(url, options)) as T;
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt);
+      console.warn(
+        `${method} ${url} failed (${(error as Error).message}), retrying in ${Math.round(delay)}ms (${attempt + 1}/${retries})`
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { TokenData } from "@/lib/types";
+import { Provider } from "@/lib/config";
+import { TokenStorage, calculateOwnership } from "@/lib/token-storage";
+import { getProvider, listProviders } from "@/lib/providers/registry";
+
+export interface LinkedIdentity {
+  provider: Provider;
+  sub: string;
+  issuer?: string;
+  name?: string;
+  email?: string;
+  linked_at: number;
+}
+
+interface IdentityProfile {
+  identities: LinkedIdentity[];
+  // Identity whose token is sent to the API
+  acting: Provider | null;
+  // Sub of the identity the profile started with; its hash owns L2VPNs
+  // whichever linked identity is acting
+  owner_sub?: string;
+  // Provider the user is linking right now; its sign-in joins the profile
+  // instead of starting a new one
+  pending_link?: Provider;
+}
+
+const EMPTY_PROFILE: IdentityProfile = { identities: [], acting: null };
+
+function readIdentity(provider: Provider): LinkedIdentity | null {
+  const token = TokenStorage.getToken(provider);
+  const claims = token ? getProvider(provider).mapClaims(token) : null;
+  return claims ? { provider, ...claims, linked_at: Date.now() } : null;
+}
+
+function usableToken(provider: Provider): TokenData | null {
+  const token = TokenStorage.getToken(provider);
+  return token?.id_token && TokenStorage.isTokenValid(token) ? token : null;
+}
+
+// A fresh sign-in takes over from an acting identity that has no usable token
+function actingAfterSignIn(
+  profile: IdentityProfile,
+  provider: Provider
+): Provider {
+  return profile.acting && usableToken(profile.acting)
+    ? profile.acting
+    : provider;
+}
+
+/**
+ * Identities from several providers linked into one profile. One of them is
+ * the acting identity, whose token authenticates API calls. The ownership
+ * hash comes from the sub the profile started with, so it does not change
+ * when another linked identity acts.
+ *
+ * The profile outlives an expired session so that signing in again with any
+ * linked identity keeps the same ownership; logging out clears it. Signing in
+ * with an identity that is not linked starts a new profile.
+ */
+export class IdentityLinks {
+  private static PROFILE_KEY = "sdx_identity_profile";
+
+  private static read(): IdentityProfile {
+    try {
+      const stored = localStorage.getItem(this.PROFILE_KEY);
+      if (!stored) return { ...EMPTY_PROFILE };
+      const profile = JSON.parse(stored);
+      return Array.isArray(profile?.identities)
+        ? profile
+        : { ...EMPTY_PROFILE };
+    } catch (error) {
+      console.error("Error reading identity profile:", error);
+      return { ...EMPTY_PROFILE };
+    }
+  }
+
+  private static write(profile: IdentityProfile): void {
+    localStorage.setItem(this.PROFILE_KEY, JSON.stringify(profile));
+  }
+
+  /**
+   * Current profile. Sessions from before identity linking have no profile
+   * yet; it is seeded from the most recently issued valid token, which is
+   * the identity those sessions have been acting as.
+   */
+  private static getProfile(): IdentityProfile {
+    const profile = this.read();
+    if (profile.identities.length > 0) {
+      // Profiles from before owner_sub was kept are owned by the acting sub
+      if (!profile.owner_sub) {
+        const acting = profile.identities.find(
+          (identity) => identity.provider === profile.acting
+        );
+        if (acting) {
+          profile.owner_sub = acting.sub;
+          this.write(profile);
+        }
+      }
+      return profile;
+    }
+
+    const latest = listProviders()
+      .map(({ id }) => usableToken(id))
+      .filter((token): token is TokenData => token !== null)
+      .sort((a, b) => b.issued_at - a.issued_at)[0];
+    const identity = latest?.provider ? readIdentity(latest.provider) : null;
+    if (!identity) return profile;
+
+    const seeded = {
+      identities: [identity],
+      acting: identity.provider,
+      owner_sub: identity.sub,
+    };
+    this.write(seeded);
+    return seeded;
+  }
+
+  /**
+   * Linked identities, in the order they were linked
+   */
+  static getIdentities(): LinkedIdentity[] {
+    return this.getProfile().identities;
+  }
+
+  /**
+   * Identity that acts for API calls
+   */
+  static getActingIdentity(): LinkedIdentity | null {
+    const profile = this.getProfile();
+    return (
+      profile.identities.find(
+        (identity) => identity.provider === profile.acting
+      ) ?? null
+    );
+  }
+
+  /**
+   * Sub whose hash owns the profile's L2VPNs
+   */
+  static getOwnerSub(): string | null {
+    return this.getProfile().owner_sub ?? null;
+  }
+
+  /**
+   * Let another linked identity act for API calls
+   */
+  static setActingProvider(provider: Provider): void {
+    const profile = this.getProfile();
+    if (!profile.identities.some((identity) => identity.provider === provider)) {
+      throw new Error(`No ${getProvider(provider).label} identity is linked.`);
+    }
+    this.write({ ...profile, acting: provider });
+    console.log("Acting identity set to:", provider);
+  }
+
+  /**
+   * Token to authenticate API calls with: the acting identity's while it is
+   * valid. Other linked identities only take over by signing in.
+   */
+  static getActingToken(): TokenData | null {
+    const { acting } = this.getProfile();
+    return acting ? usableToken(acting) : null;
+  }
+
+  /**
+   * Record a sign-in. Keeps the profile when the identity is already linked
+   * or is being linked, and starts a new profile otherwise. A linked identity
+   * signing in becomes the acting one if the acting identity has no usable
+   * token; ownership stays with the profile's original sub.
+   */
+  static signIn(provider: Provider): void {
+    const identity = readIdentity(provider);
+    const profile = this.read();
+
+    if (!identity) {
+      console.warn(`Could not read the ${provider} identity, profile reset`);
+      this.clear();
+      return;
+    }
+
+    const linked = profile.identities.find(
+      (candidate) => candidate.provider === provider
+    );
+    if (linked?.sub === identity.sub) {
+      this.write({
+        ...profile,
+        acting: actingAfterSignIn(profile, provider),
+        identities: profile.identities.map((candidate) =>
+          candidate === linked
+            ? { ...identity, linked_at: linked.linked_at }
+            : candidate
+        ),
+      });
+    } else if (profile.pending_link === provider) {
+      this.link(provider);
+    } else {
+      this.write({
+        identities: [identity],
+        acting: provider,
+        owner_sub: identity.sub,
+      });
+      console.log("New identity profile for:", provider);
+    }
+  }
+
+  /**
+   * Mark a provider as being linked, before its sign-in popup opens
+   */
+  static beginLink(provider: Provider): void {
+    this.write({ ...this.getProfile(), pending_link: provider });
+  }
+
+  static cancelLink(): void {
+    const { pending_link, ...profile } = this.read();
+    this.write(profile);
+  }
+
+  /**
+   * Add the identity behind the provider's stored token to the profile,
+   * replacing a different account previously linked for that provider
+   */
+  static link(provider: Provider): LinkedIdentity {
+    const identity = readIdentity(provider);
+    if (!identity) {
+      throw new Error(
+        `Could not read the ${getProvider(provider).label} identity from its token.`
+      );
+    }
+
+    const { pending_link, ...profile } = this.read();
+    const identities = [
+      ...profile.identities.filter(
+        (candidate) => candidate.provider !== provider
+      ),
+      identity,
+    ];
+    this.write({
+      identities,
+      acting: actingAfterSignIn(profile, provider),
+      owner_sub: profile.owner_sub ?? identity.sub,
+    });
+    console.log("Identity linked:", provider);
+    return identity;
+  }
+
+  /**
+   * Remove a linked identity and its token. The last identity cannot be
+   * unlinked; if the acting identity goes, the remaining one takes over.
+   */
+  static unlink(provider: Provider): void {
+    const profile = this.getProfile();
+    const identities = profile.identities.filter(
+      (identity) => identity.provider !== provider
+    );
+    if (identities.length === 0) {
+      throw new Error("The only linked identity cannot be unlinked.");
+    }
+
+    TokenStorage.removeToken(provider);
+    this.write({
+      ...profile,
+      identities,
+      acting:
+        profile.acting === provider ? identities[0].provider : profile.acting,
+    });
+    console.log("Identity unlinked:", provider);
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.PROFILE_KEY);
+  }
+}
+
+/**
+ * Ownership hash of the profile. It comes from the profile's original sub,
+ * so it stays the same whichever linked provider the user signed in with.
+ * Throws with a user-facing message when no identity is known.
+ */
+export async function getCurrentOwnership(): Promise<string> {
+  const ownerSub = IdentityLinks.getOwnerSub();
+  if (!ownerSub) {
+    throw new Error("No valid authentication token found. Please login again.");
+  }
+  return calculateOwnership(ownerSub);
+}
@@ -0,0 +1,323 @@
+import { TokenData, Provider } from "@/lib/types";
+import { config } from "@/lib/config";
+import { resolveOidcEndpoints } from "@/lib/providers/oidc-discovery";
+import { getProvider, getProviderConfig } from "@/lib/providers/registry";
+
+export type JwtCheckName = "signature" | "iss" | "aud" | "exp" | "iat" | "nonce";
+
+export interface JwtCheck {
+  name: JwtCheckName;
+  status: "pass" | "fail" | "skipped";
+  detail: string;
+}
+
+export interface IdTokenVerification {
+  // Signature, iss, aud and exp checks passed and no other check failed
+  verified: boolean;
+  checks: JwtCheck[];
+  alg?: string;
+  kid?: string;
+  // Why verification could not run at all, e.g. no JWKS for the provider
+  error?: string;
+  verified_at: number;
+}
+
+// Checks that must pass, not just be skipped, for a token to be verified
+const REQUIRED_CHECKS: JwtCheckName[] = ["signature", "iss", "aud", "exp"];
+
+interface JwtParts {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signedData: Uint8Array;
+  signature: Uint8Array;
+}
+
+interface JwksEntry {
+  keys: JsonWebKey[];
+  fetched_at: number;
+}
+
+// WebCrypto parameters per JWS algorithm. HMAC and "none" are never
+// accepted for ID tokens signed by a provider.
+const ALGORITHMS: Record<
+  string,
+  { kty: "RSA" | "EC"; import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | RsaPssParams | EcdsaParams }
+> = {
+  RS256: { kty: "RSA", import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verify: { name: "RSASSA-PKCS1-v1_5" } },
+  RS384: { kty: "RSA", import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" }, verify: { name: "RSASSA-PKCS1-v1_5" } },
+  RS512: { kty: "RSA", import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" }, verify: { name: "RSASSA-PKCS1-v1_5" } },
+  PS256: { kty: "RSA", import: { name: "RSA-PSS", hash: "SHA-256" }, verify: { name: "RSA-PSS", saltLength: 32 } },
+  PS384: { kty: "RSA", import: { name: "RSA-PSS", hash: "SHA-384" }, verify: { name: "RSA-PSS", saltLength: 48 } },
+  PS512: { kty: "RSA", import: { name: "RSA-PSS", hash: "SHA-512" }, verify: { name: "RSA-PSS", saltLength: 64 } },
+  ES256: { kty: "EC", import: { name: "ECDSA", namedCurve: "P-256" }, verify: { name: "ECDSA", hash: "SHA-256" } },
+  ES384: { kty: "EC", import: { name: "ECDSA", namedCurve: "P-384" }, verify: { name: "ECDSA", hash: "SHA-384" } },
+  ES512: { kty: "EC", import: { name: "ECDSA", namedCurve: "P-521" }, verify: { name: "ECDSA", hash: "SHA-512" } },
+};
+
+const jwksCache = new Map<string, JwksEntry>();
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function parseJwt(token: string): JwtParts {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Not a signed JWT");
+  }
+  const decodeJson = (part: string) =>
+    JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+
+  return {
+    header: decodeJson(parts[0]),
+    payload: decodeJson(parts[1]),
+    signedData: new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+    signature: base64UrlDecode(parts[2]),
+  };
+}
+
+async function fetchJwks(jwksUrl: string): Promise<JwksEntry> {
+  console.log("Fetching JWKS:", jwksUrl);
+  const response = await fetch(jwksUrl, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(
+      `JWKS request failed: ${response.status} ${response.statusText}`.trim()
+    );
+  }
+  const jwks = await response.json();
+  if (!Array.isArray(jwks?.keys)) {
+    throw new Error("JWKS response has no keys");
+  }
+
+  const entry = { keys: jwks.keys, fetched_at: Date.now() };
+  jwksCache.set(jwksUrl, entry);
+  return entry;
+}
+
+/**
+ * Keys for a JWKS URL, from the cache while it is fresh. When the token's kid
+ * is not among them the provider may have rotated its keys, so the set is
+ * fetched again, at most once per minimum refetch interval.
+ */
+async function getSigningKeys(
+  jwksUrl: string,
+  kid?: string
+): Promise<JsonWebKey[]> {
+  const { jwksCacheMs, jwksMinRefetchMs } = config.tokenVerification;
+  let entry = jwksCache.get(jwksUrl);
+
+  if (!entry || Date.now() - entry.fetched_at > jwksCacheMs) {
+    entry = await fetchJwks(jwksUrl);
+  }
+
+  const hasKid = (keys: JsonWebKey[]) =>
+    keys.some((key) => (key as { kid?: string }).kid === kid);
+  if (kid && !hasKid(entry.keys) && Date.now() - entry.fetched_at > jwksMinRefetchMs) {
+    console.log("Signing key not in cached JWKS, fetching again:", kid);
+    entry = await fetchJwks(jwksUrl);
+  }
+  return entry.keys;
+}
+
+async function verifySignature(
+  parts: JwtParts,
+  jwksUrl: string
+): Promise<JwtCheck> {
+  const alg = parts.header.alg;
+  const algorithm = ALGORITHMS[alg];
+  if (!algorithm) {
+    return { name: "signature", status: "fail", detail: `Algorithm ${alg} is not accepted` };
+  }
+
+  const kid: string | undefined = parts.header.kid;
+  const candidates = (await getSigningKeys(jwksUrl, kid)).filter((key) => {
+    const { kid: keyId, use } = key as { kid?: string; use?: string };
+    return (
+      key.kty === algorithm.kty &&
+      use !== "enc" &&
+      (!kid || keyId === kid)
+    );
+  });
+  if (candidates.length === 0) {
+    return {
+      name: "signature",
+      status: "fail",
+      detail: kid ? `No ${algorithm.kty} key with kid ${kid} in the JWKS` : `No ${algorithm.kty} key in the JWKS`,
+    };
+  }
+
+  for (const jwk of candidates) {
+    // Only the key material, so that alg, use and key_ops on the JWK cannot
+    // conflict with the algorithm from the header
+    const material: JsonWebKey =
+      jwk.kty === "RSA"
+        ? { kty: jwk.kty, n: jwk.n, e: jwk.e }
+        : { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+    try {
+      const key = await crypto.subtle.importKey("jwk", material, algorithm.import, false, ["verify"]);
+      if (await crypto.subtle.verify(algorithm.verify, key, parts.signature, parts.signedData)) {
+        return { name: "signature", status: "pass", detail: `${alg} signature verified` };
+      }
+    } catch (error) {
+      console.warn("Could not verify with JWKS key:", error);
+    }
+  }
+  return { name: "signature", status: "fail", detail: "Signature does not match the provider's keys" };
+}
+
+function checkClaims(
+  payload: Record<string, any>,
+  expected: { issuer?: string; clientId?: string; nonce?: string }
+): JwtCheck[] {
+  const { clockSkewSec } = config.tokenVerification;
+  const now = Math.floor(Date.now() / 1000);
+  const trimSlash = (url: string) => url.replace(/\/+$/, "");
+  const checks: JwtCheck[] = [];
+
+  if (!expected.issuer) {
+    checks.push({ name: "iss", status: "skipped", detail: "No issuer configured" });
+  } else if (typeof payload.iss === "string" && trimSlash(payload.iss) === trimSlash(expected.issuer)) {
+    checks.push({ name: "iss", status: "pass", detail: payload.iss });
+  } else {
+    checks.push({ name: "iss", status: "fail", detail: `Issued by ${payload.iss ?? "nobody"}, expected ${expected.issuer}` });
+  }
+
+  const audiences: unknown[] = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!expected.clientId) {
+    checks.push({ name: "aud", status: "skipped", detail: "No client ID configured" });
+  } else if (!audiences.includes(expected.clientId)) {
+    checks.push({ name: "aud", status: "fail", detail: `Issued for ${audiences.join(", ") || "nobody"}` });
+  } else if (audiences.length > 1 && payload.azp !== expected.clientId) {
+    checks.push({ name: "aud", status: "fail", detail: `Authorized party is ${payload.azp ?? "missing"}` });
+  } else {
+    checks.push({ name: "aud", status: "pass", detail: expected.clientId });
+  }
+
+  if (typeof payload.exp !== "number") {
+    checks.push({ name: "exp", status: "fail", detail: "No expiry" });
+  } else if (payload.exp + clockSkewSec < now) {
+    checks.push({ name: "exp", status: "fail", detail: `Expired ${new Date(payload.exp * 1000).toLocaleString()}` });
+  } else {
+    checks.push({ name: "exp", status: "pass", detail: `Expires ${new Date(payload.exp * 1000).toLocaleString()}` });
+  }
+
+  if (typeof payload.iat !== "number") {
+    checks.push({ name: "iat", status: "fail", detail: "No issue time" });
+  } else if (payload.iat - clockSkewSec > now) {
+    checks.push({ name: "iat", status: "fail", detail: "Issued in the future" });
+  } else {
+    checks.push({ name: "iat", status: "pass", detail: `Issued ${new Date(payload.iat * 1000).toLocaleString()}` });
+  }
+
+  if (expected.nonce) {
+    checks.push(
+      payload.nonce === expected.nonce
+        ? { name: "nonce", status: "pass", detail: "Matches the sign-in request" }
+        : { name: "nonce", status: "fail", detail: "Does not match the sign-in request" }
+    );
+  } else {
+    checks.push({ name: "nonce", status: "skipped", detail: "No nonce recorded for this token" });
+  }
+
+  return checks;
+}
+
+/**
+ * Verify a token's ID token: its signature against the provider's JWKS and
+ * its iss, aud, exp, iat and nonce claims. The nonce defaults to the one
+ * recorded when the token was obtained. Never throws; problems are reported
+ * in the result.
+ */
+export async function verifyIdToken(
+  token: TokenData,
+  options: { nonce?: string } = {}
+): Promise<IdTokenVerification> {
+  const result = (
+    fields: Omit<IdTokenVerification, "verified" | "verified_at">
+  ): IdTokenVerification => {
+    const passed = (name: JwtCheckName) =>
+      fields.checks.some((check) => check.name === name && check.status === "pass");
+    return {
+      ...fields,
+      verified:
+        REQUIRED_CHECKS.every(passed) &&
+        fields.checks.every((check) => check.status !== "fail"),
+      verified_at: Date.now(),
+    };
+  };
+
+  if (!token.id_token || !token.provider) {
+    return result({ checks: [], error: "No ID token" });
+  }
+
+  let parts: JwtParts;
+  try {
+    parts = parseJwt(token.id_token);
+  } catch (error) {
+    return result({ checks: [], error: error instanceof Error ? error.message : "Malformed ID token" });
+  }
+
+  const provider: Provider = token.provider;
+  const entry = getProviderConfig(provider);
+  const claims = checkClaims(parts.payload, {
+    issuer: entry.issuerUrl,
+    clientId: entry.clientId,
+    nonce: options.nonce ?? token.nonce,
+  });
+  const fields = { alg: parts.header.alg, kid: parts.header.kid };
+
+  try {
+    const { jwksUrl } =
+      entry.issuerUrl || entry.jwksUrl
+        ? await resolveOidcEndpoints(entry)
+        : { jwksUrl: undefined };
+    if (!jwksUrl) {
+      throw new Error(`${getProvider(provider).label} publishes no JWKS`);
+    }
+    const signature = await verifySignature(parts, jwksUrl);
+    return result({ ...fields, checks: [signature, ...claims] });
+  } catch (error) {
+    console.error("ID token verification failed:", error);
+    return result({
+      ...fields,
+      checks: [
+        { name: "signature", status: "fail", detail: "Could not be checked" },
+        ...claims,
+      ],
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Verify a token from a sign-in callback before it is stored or a session
+ * starts. Throws with a user-facing message when the signature does not
+ * check out or the nonce is not the one sent with the sign-in request.
+ */
+export async function verifySignInToken(
+  token: TokenData,
+  nonce: string
+): Promise<IdTokenVerification> {
+  const verification = await verifyIdToken(token, { nonce });
+  const rejected = verification.checks.filter(
+    (check) =>
+      (check.name === "signature" || check.name === "nonce") &&
+      check.status !== "pass"
+  );
+  if (verification.error && rejected.length === 0) {
+    rejected.push({ name: "signature", status: "fail", detail: verification.error });
+  }
+  if (rejected.length > 0) {
+    const label = token.provider ? getProvider(token.provider).label : "The";
+    throw new Error(
+      `${label} sign-in was rejected (${rejected
+        .map((check) => `${check.name}: ${check.detail}`)
+        .join("; ")}). Please sign in again.`
+    );
+  }
+  return verification;
+}
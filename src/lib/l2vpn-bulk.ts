@@ -0,0 +1,387 @@
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { L2VPN, L2VPNRequest, QosMetrics } from "@/lib/types";
+import { L2VPNSchemaIssue, validateL2VPNRequest } from "@/lib/l2vpn-schema";
+import { parseScheduleTime } from "@/lib/scheduling";
+import {
+  checkEndpointVlan,
+  collectVlanUsage,
+  findVlanConflicts,
+} from "@/lib/vlan-allocation";
+
+export type BulkFormat = "json" | "yaml" | "csv";
+
+export const BULK_FORMATS: Record<BulkFormat, { extension: string; mimeType: string }> = {
+  json: { extension: "json", mimeType: "application/json" },
+  yaml: { extension: "yaml", mimeType: "application/yaml" },
+  csv: { extension: "csv", mimeType: "text/csv" },
+};
+
+// One row per endpoint; rows sharing a group form one L2VPN. Rows without a
+// group are grouped by name.
+export const CSV_COLUMNS = [
+  "group",
+  "name",
+  "description",
+  "port_id",
+  "vlan",
+  "start_time",
+  "end_time",
+  "min_bw",
+  "min_bw_strict",
+  "max_delay",
+  "max_delay_strict",
+  "max_number_oxps",
+  "max_number_oxps_strict",
+  "notifications",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+type CsvRecord = Partial<Record<CsvColumn, string>>;
+
+const QOS_KEYS = ["min_bw", "max_delay", "max_number_oxps"] as const;
+
+export interface BulkImportEntry {
+  // Position of the entry in the file, starting at 0
+  index: number;
+  // Where the entry came from, e.g. "entry 3" or "CSV rows 4, 5"
+  source: string;
+  request: L2VPNRequest | null;
+  issues: L2VPNSchemaIssue[];
+}
+
+export interface BulkImportCheck {
+  // Blocking: the row is not submitted
+  errors: string[];
+  // Informational: the controller gets the final say
+  warnings: string[];
+}
+
+export function detectBulkFormat(fileName: string): BulkFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "json") return "json";
+  if (extension === "yaml" || extension === "yml") return "yaml";
+  if (extension === "csv") return "csv";
+  return null;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV ends inside a quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseCsvBoolean(value: string | undefined): boolean | undefined {
+  if (!value?.trim()) return undefined;
+  return ["true", "yes", "1"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Turn the rows of one L2VPN into the request shape. L2VPN-level columns are
+ * taken from the first row that fills them in.
+ */
+function csvRecordsToRequest(records: CsvRecord[]): Record<string, unknown> {
+  const first = (column: CsvColumn) =>
+    records.map((record) => record[column]?.trim()).find((value) => value);
+
+  const qos: Record<string, unknown> = {};
+  for (const key of QOS_KEYS) {
+    const value = first(key);
+    if (value !== undefined) {
+      qos[key] = { value, strict: parseCsvBoolean(first(`${key}_strict`)) ?? false };
+    }
+  }
+
+  const startTime = first("start_time");
+  const endTime = first("end_time");
+  const description = first("description");
+  const notifications = first("notifications");
+
+  return {
+    name: first("name") ?? "",
+    endpoints: records
+      .filter((record) => record.port_id?.trim())
+      .map((record) => ({
+        port_id: record.port_id!.trim(),
+        vlan: record.vlan?.trim() || "any",
+      })),
+    ...(description && { description }),
+    ...((startTime || endTime) && {
+      scheduling: {
+        ...(startTime && { start_time: startTime }),
+        ...(endTime && { end_time: endTime }),
+      },
+    }),
+    ...(Object.keys(qos).length > 0 && { qos_metrics: qos }),
+    ...(notifications && {
+      notifications: notifications
+        .split(/[;\s]+/)
+        .filter(Boolean)
+        .map((email) => ({ email })),
+    }),
+  };
+}
+
+function parseCsvDocument(text: string): Array<{ source: string; raw: unknown }> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = ["name", "port_id"].filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`CSV header is missing required column(s): ${missing.join(", ")}`);
+  }
+
+  // Group rows by group (or name), keeping the order of first appearance
+  const groups = new Map<string, { rows: number[]; records: CsvRecord[] }>();
+  rows.forEach((cells, rowIndex) => {
+    const record: CsvRecord = {};
+    columns.forEach((column, i) => {
+      if ((CSV_COLUMNS as readonly string[]).includes(column)) {
+        record[column as CsvColumn] = cells[i] ?? "";
+      }
+    });
+
+    // Prefixed so that a group and a name with the same text stay apart
+    const groupKey = record.group?.trim()
+      ? `group:${record.group.trim()}`
+      : `name:${record.name?.trim() ?? ""}`;
+    if (!groups.has(groupKey)) groups.set(groupKey, { rows: [], records: [] });
+    const group = groups.get(groupKey)!;
+    // +2: the header is row 1 and spreadsheets count from 1
+    group.rows.push(rowIndex + 2);
+    group.records.push(record);
+  });
+
+  return Array.from(groups.values()).map((group) => ({
+    source:
+      group.rows.length === 1
+        ? `CSV row ${group.rows[0]}`
+        : `CSV rows ${group.rows.join(", ")}`,
+    raw: csvRecordsToRequest(group.records),
+  }));
+}
+
+/**
+ * A document may hold an array of requests, an {l2vpns: [...]} wrapper, or a
+ * single request
+ */
+function documentEntries(document: unknown): unknown[] {
+  if (Array.isArray(document)) return document;
+  if (document && typeof document === "object") {
+    const wrapped = (document as Record<string, unknown>).l2vpns;
+    if (Array.isArray(wrapped)) return wrapped;
+    return [document];
+  }
+  throw new Error("Expected a list of L2VPN definitions");
+}
+
+/**
+ * Parse and validate an import file. Every entry is returned, valid or not,
+ * so the caller can show a dry run before submitting anything. Throws when
+ * the file itself cannot be read in the given format.
+ */
+export function parseBulkImport(text: string, format: BulkFormat): BulkImportEntry[] {
+  let entries: Array<{ source: string; raw: unknown }>;
+
+  if (format === "csv") {
+    entries = parseCsvDocument(text);
+  } else {
+    let document: unknown;
+    try {
+      document = format === "json" ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new Error(`Invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+    }
+    entries = documentEntries(document).map((raw, index) => ({
+      source: `entry ${index + 1}`,
+      raw,
+    }));
+  }
+
+  return entries.map(({ source, raw }, index) => {
+    const { request, issues } = validateL2VPNRequest(raw, source);
+    return { index, source, request, issues };
+  });
+}
+
+/**
+ * Dry run of an import against the current topology and the user's L2VPNs.
+ * Rows are planned in file order, so VLANs claimed by an earlier row count
+ * as taken for the rows after it.
+ */
+export function checkBulkImport(
+  entries: BulkImportEntry[],
+  ports: Array<{ id: string; vlan_range?: unknown }>,
+  existingL2VPNs: L2VPN[]
+): BulkImportCheck[] {
+  const portsById = new Map(ports.map((port) => [port.id, port]));
+  const planned = [...existingL2VPNs];
+
+  return entries.map((entry) => {
+    if (!entry.request) {
+      return {
+        errors: entry.issues.map((issue) => `${issue.path}: ${issue.message}`),
+        warnings: [],
+      };
+    }
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const usage = collectVlanUsage(planned);
+
+    entry.request.endpoints.forEach((endpoint, index) => {
+      const port = portsById.get(endpoint.port_id);
+      if (!port) {
+        warnings.push(`Endpoint ${index + 1}: port is not in the current topology`);
+        return;
+      }
+      const check = checkEndpointVlan(endpoint, port.vlan_range, usage.get(endpoint.port_id));
+      if (check.error) errors.push(`Endpoint ${index + 1}: ${check.error}`);
+    });
+    findVlanConflicts(entry.request.endpoints).forEach((conflict) => {
+      errors.push(`Endpoint ${conflict.index + 1}: ${conflict.message}`);
+    });
+
+    if (errors.length === 0) {
+      planned.push({
+        ...entry.request,
+        service_id: `import:${entry.index}`,
+        status: "unknown",
+      });
+    }
+    return { errors, warnings };
+  });
+}
+
+/**
+ * The creation payload of an existing L2VPN, so exported files can be
+ * imported again as-is. A start time that has passed is left out: the
+ * L2VPN is already active, and a re-import starts it right away.
+ */
+export function toL2VPNRequest(l2vpn: L2VPN): L2VPNRequest {
+  const scheduledStart = parseScheduleTime(l2vpn.scheduling?.start_time);
+  const startTime =
+    scheduledStart && scheduledStart.getTime() > Date.now()
+      ? l2vpn.scheduling!.start_time
+      : undefined;
+
+  return {
+    name: l2vpn.name,
+    endpoints: l2vpn.endpoints.map(({ port_id, vlan }) => ({ port_id, vlan })),
+    ...(l2vpn.description && { description: l2vpn.description }),
+    ...(l2vpn.scheduling &&
+      (startTime || l2vpn.scheduling.end_time) && {
+        scheduling: {
+          ...(startTime && { start_time: startTime }),
+          ...(l2vpn.scheduling.end_time && { end_time: l2vpn.scheduling.end_time }),
+        },
+      }),
+    ...(l2vpn.qos_metrics &&
+      Object.keys(l2vpn.qos_metrics).length > 0 && {
+        qos_metrics: Object.fromEntries(
+          QOS_KEYS.filter((key) => l2vpn.qos_metrics?.[key]).map((key) => [
+            key,
+            { value: l2vpn.qos_metrics![key]!.value, strict: l2vpn.qos_metrics![key]!.strict },
+          ])
+        ) as QosMetrics,
+      }),
+    ...(l2vpn.notifications &&
+      l2vpn.notifications.length > 0 && {
+        notifications: l2vpn.notifications.map(({ email }) => ({ email })),
+      }),
+  };
+}
+
+function requestsToCsv(requests: L2VPNRequest[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+
+  requests.forEach((request, requestIndex) => {
+    request.endpoints.forEach((endpoint, index) => {
+      const qos = request.qos_metrics ?? {};
+      // L2VPN-level columns are written on the first endpoint row only
+      const record: CsvRecord =
+        index === 0
+          ? {
+              description: request.description,
+              start_time: request.scheduling?.start_time,
+              end_time: request.scheduling?.end_time,
+              ...Object.fromEntries(
+                QOS_KEYS.flatMap((key) =>
+                  qos[key]
+                    ? [
+                        [key, String(qos[key]!.value)],
+                        [`${key}_strict`, String(qos[key]!.strict)],
+                      ]
+                    : []
+                )
+              ),
+              notifications: request.notifications?.map(({ email }) => email).join(";"),
+            }
+          : {};
+
+      // Explicit groups keep L2VPNs that share a name apart on re-import
+      record.group = String(requestIndex + 1);
+      record.name = request.name;
+      record.port_id = endpoint.port_id;
+      record.vlan = endpoint.vlan;
+      lines.push(CSV_COLUMNS.map((column) => csvField(record[column] ?? "")).join(","));
+    });
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function serializeBulkExport(requests: L2VPNRequest[], format: BulkFormat): string {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(requests, null, 2)}\n`;
+    case "yaml":
+      return stringifyYaml(requests);
+    case "csv":
+      return requestsToCsv(requests);
+  }
+}
@@ -0,0 +1,41 @@
+import { L2VPN, L2VPNHistoryEvent } from "@/lib/types";
+
+/**
+ * Timeline entries that can be read off the L2VPN record itself
+ */
+export function deriveRecordEvents(l2vpn: L2VPN): L2VPNHistoryEvent[] {
+  const events: L2VPNHistoryEvent[] = [];
+
+  if (l2vpn.creation_date) {
+    events.push({ timestamp: l2vpn.creation_date, event: "Created" });
+  }
+  if (l2vpn.scheduling?.start_time) {
+    events.push({ timestamp: l2vpn.scheduling.start_time, event: "Scheduled start" });
+  }
+  if (l2vpn.last_modified && l2vpn.last_modified !== l2vpn.creation_date) {
+    events.push({
+      timestamp: l2vpn.last_modified,
+      event: "Last modified",
+      status: l2vpn.status,
+      ...(l2vpn.state && { details: `State: ${l2vpn.state}` }),
+    });
+  }
+  if (l2vpn.scheduling?.end_time) {
+    events.push({ timestamp: l2vpn.scheduling.end_time, event: "Scheduled end" });
+  }
+  if (l2vpn.archived_date) {
+    events.push({ timestamp: l2vpn.archived_date, event: "Archived" });
+  }
+
+  return events;
+}
+
+/**
+ * Lifecycle timeline of an L2VPN, oldest first. The controller has no history
+ * endpoint, so it is built from the record's dates alone.
+ */
+export function buildLifecycleTimeline(l2vpn: L2VPN): L2VPNHistoryEvent[] {
+  return deriveRecordEvents(l2vpn).sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
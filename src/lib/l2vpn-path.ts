@@ -0,0 +1,83 @@
+import { L2VPN, TopologyResponse } from "@/lib/types";
+import { parseSdxUrn } from "@/lib/sdx-urn";
+
+export type PathHopKind = "link" | "port" | "node" | "unknown";
+
+export interface PathHop {
+  id: string;
+  kind: PathHopKind;
+  // OXP domain taken from the URN, e.g. "ampath.net"
+  domain?: string;
+  vlan?: string;
+  // Operational status from the topology, when the element is known there
+  status?: string;
+}
+
+function describeUrn(id: string): Pick<PathHop, "kind" | "domain"> {
+  const urn = parseSdxUrn(id);
+  return urn ? { kind: urn.kind, domain: urn.domain } : { kind: "unknown" };
+}
+
+function hopFromEntry(entry: unknown): PathHop | null {
+  if (typeof entry === "string") {
+    return { id: entry, ...describeUrn(entry) };
+  }
+  if (!entry || typeof entry !== "object") return null;
+
+  // Controllers report either link URNs or {port_id, vlan} pairs per hop
+  const record = entry as Record<string, unknown>;
+  const id = record.id ?? record.link ?? record.port_id ?? record.port;
+  if (typeof id !== "string") return null;
+
+  return {
+    id,
+    ...describeUrn(id),
+    ...(record.vlan !== undefined && { vlan: String(record.vlan) }),
+  };
+}
+
+/**
+ * Flatten the current_path reported for an L2VPN into ordered hops.
+ * Nested arrays (one list per hop) are flattened; unrecognised entries are dropped.
+ */
+export function extractPathHops(
+  l2vpn: L2VPN,
+  topology?: TopologyResponse | null
+): PathHop[] {
+  const hops = (l2vpn.current_path ?? [])
+    .flat()
+    .map(hopFromEntry)
+    .filter((hop): hop is PathHop => hop !== null);
+
+  if (!topology) return hops;
+
+  const linkStatus = new Map(
+    topology.links.map((link) => [link.id, link.status ?? link.state])
+  );
+  const portStatus = new Map<string, string | undefined>();
+  topology.nodes.forEach((node) =>
+    node.ports?.forEach((port: any) =>
+      portStatus.set(port.id, port.status ?? port.state)
+    )
+  );
+
+  return hops.map((hop) => {
+    const status =
+      hop.kind === "link" ? linkStatus.get(hop.id) : portStatus.get(hop.id);
+    return status ? { ...hop, status } : hop;
+  });
+}
+
+/**
+ * OXP domains traversed by the path, in order of first appearance.
+ * Falls back to the endpoint domains when no path has been computed.
+ */
+export function pathDomains(l2vpn: L2VPN, hops = extractPathHops(l2vpn)): string[] {
+  const sources: Array<{ domain?: string }> =
+    hops.length > 0 ? hops : l2vpn.endpoints.map((ep) => describeUrn(ep.port_id));
+  const domains: string[] = [];
+  sources.forEach(({ domain }) => {
+    if (domain && !domains.includes(domain)) domains.push(domain);
+  });
+  return domains;
+}
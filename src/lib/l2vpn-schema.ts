@@ -0,0 +1,367 @@
+import * as z from "zod";
+import {
+  L2VPN,
+  L2VPNEndpoint,
+  L2VPNMutationResponse,
+  L2VPNRequest,
+  L2VPNStatus,
+} from "@/lib/types";
+import { parseVlanRequest } from "@/lib/vlan-allocation";
+import { toSdxTimestamp, validateSchedule } from "@/lib/scheduling";
+import { SDX_URN_FORMATS, toPortUrn } from "@/lib/sdx-urn";
+
+const KNOWN_STATUSES: L2VPNStatus[] = [
+  "up",
+  "down",
+  "error",
+  "under provisioning",
+  "maintenance",
+];
+
+// Zod schemas for the SDX L2VPN API (sdx-controller /l2vpn/1.0)
+const endpointSchema = z.preprocess(
+  (value) => {
+    // Older controllers returned bare port URNs or used "port" instead of "port_id"
+    if (typeof value === "string") return { port_id: value };
+    if (value && typeof value === "object" && !("port_id" in value) && "port" in value) {
+      const { port, ...rest } = value as Record<string, unknown>;
+      return { ...rest, port_id: port };
+    }
+    return value;
+  },
+  z
+    .object({
+      port_id: z.string().min(1, "port_id must not be empty"),
+      vlan: z
+        .union([z.string(), z.number()])
+        .transform((vlan) => String(vlan))
+        .optional(),
+    })
+    .passthrough()
+);
+
+const qosMetricSchema = z.object({
+  value: z.coerce.number(),
+  strict: z.boolean().optional().default(false),
+});
+
+const qosMetricsSchema = z
+  .object({
+    min_bw: qosMetricSchema.optional(),
+    max_delay: qosMetricSchema.optional(),
+    max_number_oxps: qosMetricSchema.optional(),
+  })
+  .passthrough();
+
+const schedulingSchema = z
+  .object({
+    start_time: z.string().optional(),
+    end_time: z.string().optional(),
+  })
+  .passthrough();
+
+const l2vpnSchema = z
+  .object({
+    service_id: z.string().min(1, "service_id must not be empty"),
+    name: z.string().optional(),
+    endpoints: z.array(endpointSchema),
+    description: z.string().optional(),
+    status: z.string().optional(),
+    state: z.string().optional(),
+    scheduling: schedulingSchema.optional(),
+    qos_metrics: qosMetricsSchema.optional(),
+    notifications: z.array(z.object({ email: z.string() })).optional(),
+    ownership: z.string().optional(),
+    creation_date: z.string().optional(),
+    archived_date: z.string().optional(),
+    last_modified: z.string().optional(),
+    current_path: z.array(z.unknown()).optional(),
+    counters_location: z.string().optional(),
+  })
+  .passthrough();
+
+const mutationResponseSchema = z
+  .object({
+    service_id: z.string().optional(),
+    status: z.string().optional(),
+    reason: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .passthrough();
+
+// Body accepted by POST /l2vpn/1.0, with the limits enforced by NewL2VPNModal
+const requestEndpointSchema = z.object({
+  // Short <domain>:<node>:<port> IDs are accepted and sent as full URNs
+  port_id: z
+    .string()
+    .min(1, "port_id must not be empty")
+    .transform((value, ctx) => {
+      const urn = toPortUrn(value);
+      if (!urn) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `port_id must be a port URN (${SDX_URN_FORMATS.port})`,
+        });
+        return z.NEVER;
+      }
+      return urn;
+    }),
+  vlan: z
+    .union([z.string(), z.number()])
+    .transform((vlan) => String(vlan).trim())
+    .superRefine((vlan, ctx) => {
+      try {
+        parseVlanRequest(vlan);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    }),
+});
+
+const requestQosMetricSchema = (max: number) =>
+  z.object({
+    value: z.coerce.number().min(0).max(max),
+    strict: z.boolean().optional().default(false),
+  });
+
+const l2vpnRequestSchema = z.object({
+  name: z
+    .string()
+    .min(1, "name is required")
+    .max(50, "name must be 50 characters or less"),
+  endpoints: z
+    .array(requestEndpointSchema)
+    .min(2, "at least 2 endpoints are required"),
+  description: z
+    .string()
+    .max(255, "description must be 255 characters or less")
+    .optional(),
+  scheduling: z
+    .object({
+      start_time: z.string().optional(),
+      end_time: z.string().optional(),
+    })
+    .superRefine((scheduling, ctx) => {
+      const errors = validateSchedule(scheduling.start_time, scheduling.end_time);
+      for (const [field, message] of Object.entries(errors)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+      }
+    })
+    .transform((scheduling) => ({
+      ...(scheduling.start_time && { start_time: toSdxTimestamp(scheduling.start_time) }),
+      ...(scheduling.end_time && { end_time: toSdxTimestamp(scheduling.end_time) }),
+    }))
+    .optional(),
+  qos_metrics: z
+    .object({
+      min_bw: requestQosMetricSchema(100).optional(),
+      max_delay: requestQosMetricSchema(1000).optional(),
+      max_number_oxps: requestQosMetricSchema(100).optional(),
+    })
+    .optional(),
+  notifications: z
+    .array(z.object({ email: z.string().email("invalid email address") }))
+    .max(10, "at most 10 notification emails are allowed")
+    .optional(),
+});
+
+export interface L2VPNSchemaIssue {
+  context: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when an SDX response cannot be mapped onto the L2VPN model at all
+ */
+export class L2VPNSchemaError extends Error {
+  issues: L2VPNSchemaIssue[];
+
+  constructor(message: string, issues: L2VPNSchemaIssue[]) {
+    super(message);
+    this.name = "L2VPNSchemaError";
+    this.issues = issues;
+  }
+}
+
+function toIssues(context: string, error: z.ZodError): L2VPNSchemaIssue[] {
+  return error.issues.map((issue) => ({
+    context,
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }));
+}
+
+export function formatSchemaIssues(issues: L2VPNSchemaIssue[]): string {
+  return issues
+    .map((issue) => `${issue.context} › ${issue.path}: ${issue.message}`)
+    .join("\n");
+}
+
+function reportDrift(issues: L2VPNSchemaIssue[]) {
+  if (issues.length === 0) return;
+  console.warn(
+    `L2VPN schema drift detected (${issues.length} issue(s)):\n${formatSchemaIssues(issues)}`
+  );
+}
+
+function normalizeStatus(
+  status: string | undefined,
+  context: string,
+  issues: L2VPNSchemaIssue[]
+): L2VPNStatus {
+  if (!status) return "unknown";
+  const lower = status.toLowerCase() as L2VPNStatus;
+  if (KNOWN_STATUSES.includes(lower)) return lower;
+
+  issues.push({
+    context,
+    path: "status",
+    message: `Unrecognized status "${status}"`,
+  });
+  return "unknown";
+}
+
+function parseEntry(
+  raw: unknown,
+  fallbackId: string | undefined,
+  issues: L2VPNSchemaIssue[]
+): L2VPN | null {
+  const withId =
+    raw && typeof raw === "object" && fallbackId && !("service_id" in raw)
+      ? { ...raw, service_id: fallbackId }
+      : raw;
+  const serviceId =
+    typeof withId === "object" && withId !== null && "service_id" in withId
+      ? withId.service_id
+      : undefined;
+  const context = `L2VPN ${fallbackId ?? serviceId ?? "(unknown)"}`;
+
+  const result = l2vpnSchema.safeParse(withId);
+  if (!result.success) {
+    issues.push(...toIssues(context, result.error));
+    return null;
+  }
+
+  const data = result.data;
+  const endpoints: L2VPNEndpoint[] = data.endpoints.map((endpoint) => ({
+    port_id: endpoint.port_id,
+    vlan: endpoint.vlan ?? "any",
+  }));
+
+  return {
+    ...data,
+    name: data.name ?? "",
+    endpoints,
+    status: normalizeStatus(data.status, context, issues),
+  };
+}
+
+/**
+ * Normalize a single L2VPN object returned by the SDX controller
+ */
+export function normalizeL2VPN(raw: unknown, fallbackId?: string): L2VPN {
+  const issues: L2VPNSchemaIssue[] = [];
+  const l2vpn = parseEntry(raw, fallbackId, issues);
+  reportDrift(issues);
+
+  if (!l2vpn) {
+    throw new L2VPNSchemaError(
+      `Unexpected L2VPN response format:\n${formatSchemaIssues(issues)}`,
+      issues
+    );
+  }
+  return l2vpn;
+}
+
+/**
+ * Normalize the L2VPN list response. The SDX controller returns an object keyed
+ * by service_id; older deployments returned an array or wrapped it in
+ * {l2vpns} / {data}. Entries that fail validation are reported and skipped.
+ */
+export function normalizeL2VPNList(data: unknown): {
+  l2vpns: L2VPN[];
+  issues: L2VPNSchemaIssue[];
+} {
+  let entries: Array<[string | undefined, unknown]>;
+
+  if (Array.isArray(data)) {
+    entries = data.map((entry) => [undefined, entry]);
+  } else if (data && typeof data === "object") {
+    const wrapped =
+      (data as Record<string, unknown>).l2vpns ??
+      (data as Record<string, unknown>).data;
+    if (wrapped !== undefined) {
+      return normalizeL2VPNList(wrapped);
+    }
+    entries = Object.entries(data);
+  } else {
+    throw new L2VPNSchemaError("Unexpected L2VPN list response format", [
+      {
+        context: "L2VPN list",
+        path: "(root)",
+        message: `Expected an array or object, received ${data === null ? "null" : typeof data}`,
+      },
+    ]);
+  }
+
+  const issues: L2VPNSchemaIssue[] = [];
+  const l2vpns = entries
+    .map(([key, entry]) => parseEntry(entry, key, issues))
+    .filter((l2vpn): l2vpn is L2VPN => l2vpn !== null);
+
+  reportDrift(issues);
+  return { l2vpns, issues };
+}
+
+/**
+ * Normalize GET /l2vpn/1.0/{service_id}. The controller wraps the record in an
+ * object keyed by service_id; a bare record is accepted as well.
+ */
+export function normalizeL2VPNDetail(data: unknown, serviceId: string): L2VPN {
+  if (data && typeof data === "object" && "service_id" in data) {
+    return normalizeL2VPN(data);
+  }
+
+  const { l2vpns, issues } = normalizeL2VPNList(data);
+  const l2vpn = l2vpns.find((entry) => entry.service_id === serviceId);
+  if (!l2vpn) {
+    throw new L2VPNSchemaError(
+      `L2VPN ${serviceId} missing from response`,
+      issues
+    );
+  }
+  return l2vpn;
+}
+
+/**
+ * Validate the body returned by L2VPN create/update/delete calls
+ */
+export function normalizeMutationResponse(data: unknown): L2VPNMutationResponse {
+  const result = mutationResponseSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = toIssues("L2VPN mutation response", result.error);
+    reportDrift(issues);
+    throw new L2VPNSchemaError(
+      `Unexpected L2VPN response format:\n${formatSchemaIssues(issues)}`,
+      issues
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Validate an L2VPN creation request from an untrusted source (e.g. an
+ * import file). Ownership is dropped: it is always derived from the
+ * signed-in user when the request is submitted.
+ */
+export function validateL2VPNRequest(
+  raw: unknown,
+  context: string
+): { request: L2VPNRequest | null; issues: L2VPNSchemaIssue[] } {
+  const result = l2vpnRequestSchema.safeParse(raw);
+  if (!result.success) {
+    return { request: null, issues: toIssues(context, result.error) };
+  }
+  return { request: result.data, issues: [] };
+}
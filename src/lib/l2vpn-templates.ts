@@ -0,0 +1,113 @@
+// Named templates and the auto-saved draft of the New L2VPN form. Both live in
+// localStorage under the user's ownership hash, so they follow the identity
+// across re-logins and are not shown to another user of the same browser.
+
+const TEMPLATES_KEY_PREFIX = "sdx_l2vpn_templates.";
+const DRAFT_KEY_PREFIX = "sdx_l2vpn_draft.";
+
+export const MAX_L2VPN_TEMPLATES = 20;
+
+export interface L2VPNTemplate<T> {
+  id: string;
+  name: string;
+  values: T;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface L2VPNDraft<T> {
+  values: T;
+  saved_at: number;
+}
+
+function readJson<T>(key: string): T | null {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    localStorage.removeItem(key);
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Templates of one user, most recently updated first
+ */
+export function listTemplates<T>(ownership: string): L2VPNTemplate<T>[] {
+  const templates = readJson<L2VPNTemplate<T>[]>(TEMPLATES_KEY_PREFIX + ownership);
+  if (!Array.isArray(templates)) return [];
+  return [...templates].sort((a, b) => b.updated_at - a.updated_at);
+}
+
+/**
+ * Save values under a template name. A template with the same name
+ * (case-insensitive) is overwritten.
+ */
+export function saveTemplate<T>(
+  ownership: string,
+  name: string,
+  values: T
+): L2VPNTemplate<T> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Template name is required");
+  }
+
+  const templates = listTemplates<T>(ownership);
+  const existing = templates.find(
+    (template) => template.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (!existing && templates.length >= MAX_L2VPN_TEMPLATES) {
+    throw new Error(
+      `You can keep up to ${MAX_L2VPN_TEMPLATES} templates. Delete one first.`
+    );
+  }
+
+  const now = Date.now();
+  const template: L2VPNTemplate<T> = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: trimmed,
+    values,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+
+  const updated = [
+    template,
+    ...templates.filter((entry) => entry.id !== template.id),
+  ];
+  if (!writeJson(TEMPLATES_KEY_PREFIX + ownership, updated)) {
+    throw new Error("Browser storage is full or unavailable");
+  }
+  return template;
+}
+
+export function deleteTemplate(ownership: string, id: string) {
+  const templates = listTemplates(ownership).filter((entry) => entry.id !== id);
+  writeJson(TEMPLATES_KEY_PREFIX + ownership, templates);
+}
+
+export function loadDraft<T>(ownership: string): L2VPNDraft<T> | null {
+  const draft = readJson<L2VPNDraft<T>>(DRAFT_KEY_PREFIX + ownership);
+  return draft?.values ? draft : null;
+}
+
+export function saveDraft<T>(ownership: string, values: T) {
+  writeJson(DRAFT_KEY_PREFIX + ownership, { values, saved_at: Date.now() });
+}
+
+export function clearDraft(ownership: string) {
+  localStorage.removeItem(DRAFT_KEY_PREFIX + ownership);
+}
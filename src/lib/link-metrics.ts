@@ -0,0 +1,51 @@
+import { TopologyLink } from "@/lib/types";
+
+// Link metrics as numbers. The SDX controller reports them on each link of
+// the topology; values it leaves out or sends as text that is not a number
+// become null.
+export interface LinkMetrics {
+  bandwidth: number | null;
+  residual_bandwidth: number | null;
+  latency: number | null;
+  packet_loss: number | null;
+  availability: number | null;
+}
+
+export interface LinkMetricSample extends LinkMetrics {
+  link_id: string;
+  // captured_at of the topology snapshot the sample was taken from
+  captured_at: number;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+export function getLinkMetrics(link: TopologyLink): LinkMetrics {
+  return {
+    bandwidth: toNumber(link.bandwidth),
+    residual_bandwidth: toNumber(link.residual_bandwidth),
+    latency: toNumber(link.latency),
+    packet_loss: toNumber(link.packet_loss),
+    availability: toNumber(link.availability),
+  };
+}
+
+/**
+ * Share of the link's bandwidth in use, in percent. Null when either side
+ * is unknown or the link reports no capacity.
+ */
+export function getUtilization(metrics: LinkMetrics): number | null {
+  const { bandwidth, residual_bandwidth } = metrics;
+  if (bandwidth === null || residual_bandwidth === null || bandwidth <= 0) {
+    return null;
+  }
+  const used = ((bandwidth - residual_bandwidth) / bandwidth) * 100;
+  return Math.min(100, Math.max(0, used));
+}
+
+export function formatMetric(value: number | null, suffix = ""): string {
+  return value === null ? "—" : `${Math.round(value * 100) / 100}${suffix}`;
+}
@@ -0,0 +1,247 @@
+// Image export of the Leaflet map as it is on screen. Tiles, vector layers
+// and node markers are read back from the map's DOM, so the picture matches
+// the current view, theme and highlighting.
+
+import L from "leaflet";
+
+interface TileImage {
+  src: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  opacity: number;
+}
+
+export interface MapCapture {
+  width: number;
+  height: number;
+  background: string;
+  tiles: TileImage[];
+  // SVG markup for everything drawn above the tiles
+  overlay: string;
+}
+
+export interface RenderedMap<T> {
+  result: T;
+  // Tiles left out because they failed to load or the tile server does not
+  // allow cross-origin use
+  missingTiles: number;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function svgDocument(width: number, height: number, body: string): string {
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" ` +
+    `xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    body +
+    `</svg>`
+  );
+}
+
+function relativeRect(element: Element, origin: DOMRect) {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: rect.left - origin.left,
+    y: rect.top - origin.top,
+    width: rect.width,
+    height: rect.height,
+  };
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${src}`));
+    image.src = src;
+  });
+}
+
+// Node markers are HTML divIcons; redraw each as an SVG circle
+function markerMarkup(container: HTMLElement, origin: DOMRect): string {
+  return Array.from(
+    container.querySelectorAll<HTMLElement>(
+      ".leaflet-marker-pane .custom-node-marker"
+    )
+  )
+    .map((marker) => {
+      const dot = marker.firstElementChild as HTMLElement | null;
+      if (!dot) return "";
+      const style = getComputedStyle(dot);
+      const rect = relativeRect(dot, origin);
+      const border = parseFloat(style.borderTopWidth) || 0;
+      const cx = rect.x + rect.width / 2;
+      const cy = rect.y + rect.height / 2;
+      const opacity = marker.style.opacity || "1";
+      const label = dot.textContent?.trim() ?? "";
+      return (
+        `<g opacity="${opacity}">` +
+        `<circle cx="${cx}" cy="${cy}" r="${rect.width / 2 - border / 2}" ` +
+        `fill="${style.backgroundColor}" stroke="${style.borderTopColor}" ` +
+        `stroke-width="${border}"/>` +
+        (label
+          ? `<text x="${cx}" y="${cy}" dy="0.35em" text-anchor="middle" ` +
+            `font-family="sans-serif" font-size="10" font-weight="700" ` +
+            `fill="#ffffff">${escapeXml(label)}</text>`
+          : "") +
+        `</g>`
+      );
+    })
+    .join("");
+}
+
+/**
+ * Snapshot what the map currently shows. Call it while the map is at rest:
+ * positions are read from the DOM and would be off mid-animation.
+ */
+export function captureMap(map: L.Map, background: string): MapCapture {
+  const container = map.getContainer();
+  const origin = container.getBoundingClientRect();
+  const { x: width, y: height } = map.getSize();
+
+  const tiles = Array.from(
+    container.querySelectorAll<HTMLImageElement>(
+      ".leaflet-tile-pane img.leaflet-tile-loaded"
+    )
+  )
+    .map((tile) => ({
+      src: tile.src,
+      ...relativeRect(tile, origin),
+      opacity: parseFloat(getComputedStyle(tile).opacity) || 1,
+    }))
+    .filter(
+      (tile) =>
+        tile.x < width &&
+        tile.y < height &&
+        tile.x + tile.width > 0 &&
+        tile.y + tile.height > 0
+    );
+
+  // Leaflet draws all vector layers into one SVG in the overlay pane
+  let vectors = "";
+  const overlaySvg = container.querySelector(".leaflet-overlay-pane svg");
+  if (overlaySvg) {
+    const rect = relativeRect(overlaySvg, origin);
+    const clone = overlaySvg.cloneNode(true) as SVGSVGElement;
+    clone.removeAttribute("style");
+    clone.setAttribute("x", String(rect.x));
+    clone.setAttribute("y", String(rect.y));
+    clone.setAttribute("width", String(rect.width));
+    clone.setAttribute("height", String(rect.height));
+    vectors = new XMLSerializer().serializeToString(clone);
+  }
+
+  const attribution = container
+    .querySelector(".leaflet-control-attribution")
+    ?.textContent?.trim();
+  const credit = attribution
+    ? `<text x="${width - 6}" y="${height - 6}" text-anchor="end" ` +
+      `font-family="sans-serif" font-size="10" fill="#6b7280">` +
+      `${escapeXml(attribution)}</text>`
+    : "";
+
+  return {
+    width,
+    height,
+    background,
+    tiles,
+    overlay: vectors + markerMarkup(container, origin) + credit,
+  };
+}
+
+export async function renderMapPng(
+  capture: MapCapture
+): Promise<RenderedMap<Blob>> {
+  const scale = window.devicePixelRatio || 1;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(capture.width * scale);
+  canvas.height = Math.round(capture.height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available in this browser");
+  context.scale(scale, scale);
+  context.fillStyle = capture.background;
+  context.fillRect(0, 0, capture.width, capture.height);
+
+  let missingTiles = 0;
+  const images = await Promise.all(
+    capture.tiles.map((tile) =>
+      loadImage(tile.src).catch(() => {
+        missingTiles++;
+        return null;
+      })
+    )
+  );
+  capture.tiles.forEach((tile, index) => {
+    const image = images[index];
+    if (!image) return;
+    context.globalAlpha = tile.opacity;
+    context.drawImage(image, tile.x, tile.y, tile.width, tile.height);
+  });
+  context.globalAlpha = 1;
+
+  const overlayUrl = URL.createObjectURL(
+    new Blob([svgDocument(capture.width, capture.height, capture.overlay)], {
+      type: "image/svg+xml",
+    })
+  );
+  try {
+    const overlay = await loadImage(overlayUrl);
+    context.drawImage(overlay, 0, 0, capture.width, capture.height);
+  } finally {
+    URL.revokeObjectURL(overlayUrl);
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  if (!blob) throw new Error("The map could not be encoded as PNG");
+  return { result: blob, missingTiles };
+}
+
+/**
+ * Standalone SVG of the view. Tiles are embedded as data URLs so the file
+ * opens offline.
+ */
+export async function renderMapSvg(
+  capture: MapCapture
+): Promise<RenderedMap<string>> {
+  let missingTiles = 0;
+  const tiles = await Promise.all(
+    capture.tiles.map(async (tile) => {
+      try {
+        const image = await loadImage(tile.src);
+        const canvas = document.createElement("canvas");
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        canvas.getContext("2d")?.drawImage(image, 0, 0);
+        return (
+          `<image href="${canvas.toDataURL("image/png")}" ` +
+          `x="${tile.x}" y="${tile.y}" width="${tile.width}" ` +
+          `height="${tile.height}" opacity="${tile.opacity}"/>`
+        );
+      } catch {
+        missingTiles++;
+        return "";
+      }
+    })
+  );
+
+  const body =
+    `<rect width="100%" height="100%" fill="${capture.background}"/>` +
+    tiles.join("") +
+    capture.overlay;
+  return {
+    result: svgDocument(capture.width, capture.height, body),
+    missingTiles,
+  };
+}
@@ -0,0 +1,188 @@
+// Geometry for drawing the processed topology on the map: curved paths that
+// keep parallel links apart, great-circle arcs for long-haul links, and
+// spider positions that fan out nodes sharing a location.
+
+import { ProcessedTopology } from "@/lib/topology-processor";
+
+export type LatLngTuple = [number, number];
+
+const EARTH_RADIUS_KM = 6371;
+// Links longer than this follow the great circle instead of a straight line
+const GREAT_CIRCLE_MIN_KM = 3000;
+const GREAT_CIRCLE_STEP_KM = 250;
+const CURVE_SEGMENTS = 24;
+// Bow of each parallel link, as a share of the link's length
+const PARALLEL_SPACING = 0.12;
+const SPIDER_CIRCLE_MAX = 8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export function distanceKm(from: LatLngTuple, to: LatLngTuple): number {
+  const [lat1, lng1] = from.map(toRadians);
+  const [lat2, lng2] = to.map(toRadians);
+  const a =
+    Math.sin((lat2 - lat1) / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin((lng2 - lng1) / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Points along the great circle between two locations. Longitudes are kept
+ * continuous, so a path across the antimeridian is not drawn the long way
+ * round.
+ */
+export function greatCirclePoints(
+  from: LatLngTuple,
+  to: LatLngTuple,
+  segments: number
+): LatLngTuple[] {
+  const [lat1, lng1] = from.map(toRadians);
+  const [lat2, lng2] = to.map(toRadians);
+  const angle = distanceKm(from, to) / EARTH_RADIUS_KM;
+  if (angle === 0) return [from, to];
+
+  const points: LatLngTuple[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const a = Math.sin((1 - t) * angle) / Math.sin(angle);
+    const b = Math.sin(t * angle) / Math.sin(angle);
+    const x =
+      a * Math.cos(lat1) * Math.cos(lng1) + b * Math.cos(lat2) * Math.cos(lng2);
+    const y =
+      a * Math.cos(lat1) * Math.sin(lng1) + b * Math.cos(lat2) * Math.sin(lng2);
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+    points.push([
+      toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+      toDegrees(Math.atan2(y, x)),
+    ]);
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const delta = points[i][1] - points[i - 1][1];
+    if (delta > 180) points[i][1] -= 360;
+    else if (delta < -180) points[i][1] += 360;
+  }
+  return points;
+}
+
+/**
+ * Push a path sideways by `offset` times its length, most at the middle and
+ * not at all at the ends. Positive offsets bow to the left of travel.
+ */
+function bowPath(points: LatLngTuple[], offset: number): LatLngTuple[] {
+  if (offset === 0 || points.length < 2) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  // Work in a plane where a degree of longitude is shrunk to its true width
+  const scale = Math.cos(toRadians((first[0] + last[0]) / 2)) || 1;
+  const dx = (last[1] - first[1]) * scale;
+  const dy = last[0] - first[0];
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return points;
+
+  // Unit normal to the left of the from -> to direction
+  const nx = -dy / length;
+  const ny = dx / length;
+
+  return points.map(([lat, lng], i) => {
+    const bulge =
+      Math.sin((Math.PI * i) / (points.length - 1)) * offset * length;
+    return [lat + ny * bulge, lng + (nx * bulge) / scale];
+  });
+}
+
+/**
+ * Straight or great-circle path between two locations, bowed by `offset`
+ */
+export function linkPath(
+  from: LatLngTuple,
+  to: LatLngTuple,
+  offset = 0
+): LatLngTuple[] {
+  const km = distanceKm(from, to);
+  let points: LatLngTuple[];
+
+  if (km >= GREAT_CIRCLE_MIN_KM) {
+    points = greatCirclePoints(from, to, Math.ceil(km / GREAT_CIRCLE_STEP_KM));
+  } else if (offset !== 0) {
+    points = Array.from({ length: CURVE_SEGMENTS + 1 }, (_, i) => {
+      const t = i / CURVE_SEGMENTS;
+      return [
+        from[0] + (to[0] - from[0]) * t,
+        from[1] + (to[1] - from[1]) * t,
+      ] as LatLngTuple;
+    });
+  } else {
+    return [from, to];
+  }
+  return bowPath(points, offset);
+}
+
+/**
+ * Map path of every link segment, keyed by `${linkName}|${linkId}` like the
+ * map's polylines. Segments between the same pair of locations are spread
+ * symmetrically so each one can be clicked.
+ */
+export function layoutLinkPaths(
+  processed: ProcessedTopology
+): Map<string, LatLngTuple[]> {
+  const groups = new Map<
+    string,
+    { key: string; from: LatLngTuple; to: LatLngTuple }[]
+  >();
+
+  processed.latlng_array.forEach((linkData) => {
+    Object.entries(linkData.latlngs).forEach(([linkId, [a, b]]) => {
+      const from: LatLngTuple = [a[0], a[1]];
+      const to: LatLngTuple = [b[0], b[1]];
+      // Same group whichever way round the link was reported
+      const ends = [from.join(","), to.join(",")].sort();
+      const groupKey = ends.join("|");
+      const group = groups.get(groupKey) ?? [];
+      group.push({ key: `${linkData.link}|${linkId}`, from, to });
+      groups.set(groupKey, group);
+    });
+  });
+
+  const paths = new Map<string, LatLngTuple[]>();
+  groups.forEach((segments) => {
+    const canonicalFrom = segments[0].from.join(",");
+    segments.forEach((segment, index) => {
+      let offset = (index - (segments.length - 1) / 2) * PARALLEL_SPACING;
+      // Keep the bow on the same side for links reported in reverse
+      if (segment.from.join(",") !== canonicalFrom) offset = -offset;
+      paths.set(segment.key, linkPath(segment.from, segment.to, offset));
+    });
+  });
+  return paths;
+}
+
+/**
+ * Screen offsets, in pixels from the shared location, for `count` nodes
+ * fanned out around it: a circle for a few, a spiral for more
+ */
+export function spiderOffsets(
+  count: number,
+  spacingPx = 28
+): [number, number][] {
+  if (count <= SPIDER_CIRCLE_MAX) {
+    const radius = (spacingPx * (2 + count)) / (2 * Math.PI);
+    return Array.from({ length: count }, (_, i) => {
+      const angle = (2 * Math.PI * i) / count - Math.PI / 2;
+      return [Math.cos(angle) * radius, Math.sin(angle) * radius];
+    });
+  }
+
+  // Archimedean spiral with roughly `spacingPx` between neighbours
+  const offsets: [number, number][] = [];
+  let angle = 0;
+  let radius = spacingPx * 0.4;
+  for (let i = 0; i < count; i++) {
+    angle += spacingPx / radius + i * 0.0005;
+    offsets.push([Math.cos(angle) * radius, Math.sin(angle) * radius]);
+    radius += (2 * Math.PI * 5) / angle;
+  }
+  return offsets;
+}
@@ -0,0 +1,499 @@
+import { QosMetric, QosMetrics, TopologyLink } from "@/lib/types";
+import { ProcessedTopology } from "@/lib/topology-processor";
+import { getUrnDomain } from "@/lib/sdx-urn";
+import { isLinkUp } from "@/lib/topology-diff";
+
+// Latency assumed for links that do not report one (ms)
+const DEFAULT_LATENCY_MS = 1;
+// Cost added per percentage point of unavailability
+const AVAILABILITY_WEIGHT = 0.5;
+// Cost added for scarce residual bandwidth: weight / Gbps
+const BANDWIDTH_WEIGHT = 10;
+
+export interface CandidateHop {
+  link_id: string;
+  from_node: string;
+  to_node: string;
+  latency?: number;
+  residual_bandwidth?: number;
+  availability?: number;
+  status?: string;
+}
+
+export interface PathFeasibility {
+  feasible: boolean;
+  hops: CandidateHop[];
+  // Switches visited, in order (multipoint requests list each branch in turn)
+  nodes: string[];
+  // OXP domains traversed, in order of first appearance
+  domains: string[];
+  estimated_delay_ms: number | null;
+  // Smallest residual bandwidth on the path (Gbps); null when unknown
+  bottleneck_bw: number | null;
+  // Flexible constraints the path does not meet, and missing metrics
+  warnings: string[];
+  // Why no acceptable path exists
+  reasons: string[];
+}
+
+interface Edge {
+  to: string;
+  link: TopologyLink;
+  // Percentage, normalized for the topology's scale
+  availability?: number;
+  cost: number;
+}
+
+interface SearchOptions {
+  minBw?: number;
+  maxOxps?: number;
+  includeDown: boolean;
+  // Minimise delay only, ignoring availability and bandwidth preferences
+  delayOnly: boolean;
+}
+
+interface Branch {
+  hops: CandidateHop[];
+  nodes: string[];
+}
+
+function nodeDomain(nodeId: string): string {
+  return getUrnDomain(nodeId) ?? nodeId;
+}
+
+// Empty number inputs reach us as NaN
+function activeMetric(metric?: QosMetric): QosMetric | undefined {
+  return metric && Number.isFinite(metric.value) && metric.value > 0
+    ? metric
+    : undefined;
+}
+
+/**
+ * Some OXPs report availability as a fraction, others as a percentage. The
+ * scale is decided once for the topology: a value of exactly 1 is 100% among
+ * fractions but 1% among percentages.
+ */
+function availabilityScale(processed: ProcessedTopology): number {
+  const isPercent = Object.values(processed.links_array).some((links) =>
+    (links as TopologyLink[]).some((link) => (link.availability ?? 0) > 1)
+  );
+  return isPercent ? 1 : 100;
+}
+
+function normalizeAvailability(
+  availability: number | undefined,
+  scale: number
+): number | undefined {
+  if (availability === undefined || availability === null) return undefined;
+  return availability * scale;
+}
+
+function linkCost(
+  link: TopologyLink,
+  availability: number | undefined,
+  delayOnly: boolean
+): number {
+  const latency = link.latency ?? DEFAULT_LATENCY_MS;
+  if (delayOnly) return latency;
+
+  availability = availability ?? 100;
+  const residual = link.residual_bandwidth;
+  const bandwidthPenalty =
+    residual === undefined ? 0 : BANDWIDTH_WEIGHT / Math.max(residual, 0.1);
+
+  return latency + AVAILABILITY_WEIGHT * (100 - availability) + bandwidthPenalty;
+}
+
+function indexPorts(processed: ProcessedTopology): Map<string, string> {
+  const portToNode = new Map<string, string>();
+  Object.values(processed.nodes_array).forEach((location) =>
+    location.sub_nodes.forEach((subNode) =>
+      subNode.ports.forEach((port) => portToNode.set(port.id, subNode.id))
+    )
+  );
+  return portToNode;
+}
+
+function buildGraph(
+  processed: ProcessedTopology,
+  portToNode: Map<string, string>,
+  options: SearchOptions
+): Map<string, Edge[]> {
+  const graph = new Map<string, Edge[]>();
+  const scale = availabilityScale(processed);
+  const addEdge = (from: string, edge: Edge) => {
+    if (!graph.has(from)) graph.set(from, []);
+    graph.get(from)!.push(edge);
+  };
+
+  Object.values(processed.links_array).forEach((links) =>
+    (links as TopologyLink[]).forEach((link) => {
+      const [portA, portB] = link.ports ?? [];
+      const nodeA = portToNode.get(portA);
+      const nodeB = portToNode.get(portB);
+      if (!nodeA || !nodeB || nodeA === nodeB) return;
+
+      if (!options.includeDown && !isLinkUp(link)) return;
+      if (
+        options.minBw !== undefined &&
+        link.residual_bandwidth !== undefined &&
+        link.residual_bandwidth < options.minBw
+      ) {
+        return;
+      }
+
+      const availability = normalizeAvailability(link.availability, scale);
+      const cost = linkCost(link, availability, options.delayOnly);
+      addEdge(nodeA, { to: nodeB, link, availability, cost });
+      addEdge(nodeB, { to: nodeA, link, availability, cost });
+    })
+  );
+
+  return graph;
+}
+
+/**
+ * Dijkstra over (node, OXPs used) states so an OXP limit can be enforced.
+ * OXPs are counted as domain changes along the path, which equals the number
+ * of distinct domains for any path that does not re-enter a domain.
+ */
+function shortestPath(
+  graph: Map<string, Edge[]>,
+  source: string,
+  target: string,
+  maxOxps?: number
+): Branch | null {
+  if (source === target) return { hops: [], nodes: [source] };
+
+  type State = { node: string; oxps: number; cost: number };
+  const key = (node: string, oxps: number) => `${node}|${oxps}`;
+  const best = new Map<string, number>();
+  const previous = new Map<string, { state: string; edge: Edge; from: string }>();
+  const queue: State[] = [{ node: source, oxps: 1, cost: 0 }];
+  best.set(key(source, 1), 0);
+
+  while (queue.length > 0) {
+    // Topologies are small (tens of switches), a sorted array is enough
+    queue.sort((a, b) => a.cost - b.cost);
+    const current = queue.shift()!;
+    const currentKey = key(current.node, current.oxps);
+    if (current.cost > (best.get(currentKey) ?? Infinity)) continue;
+
+    if (current.node === target) {
+      const hops: CandidateHop[] = [];
+      const nodes = [target];
+      let cursor = currentKey;
+      while (previous.has(cursor)) {
+        const step = previous.get(cursor)!;
+        const link = step.edge.link;
+        hops.unshift({
+          link_id: link.id,
+          from_node: step.from,
+          to_node: step.edge.to,
+          latency: link.latency,
+          residual_bandwidth: link.residual_bandwidth,
+          availability: step.edge.availability,
+          status: link.status,
+        });
+        nodes.unshift(step.from);
+        cursor = step.state;
+      }
+      return { hops, nodes };
+    }
+
+    for (const edge of graph.get(current.node) ?? []) {
+      const oxps =
+        current.oxps + (nodeDomain(edge.to) !== nodeDomain(current.node) ? 1 : 0);
+      if (maxOxps !== undefined && oxps > maxOxps) continue;
+
+      const cost = current.cost + edge.cost;
+      const nextKey = key(edge.to, oxps);
+      if (cost >= (best.get(nextKey) ?? Infinity)) continue;
+
+      best.set(nextKey, cost);
+      previous.set(nextKey, { state: currentKey, edge, from: current.node });
+      queue.push({ node: edge.to, oxps, cost });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Route every endpoint from the first one; multipoint requests become a star
+ */
+function routeEndpoints(
+  processed: ProcessedTopology,
+  portToNode: Map<string, string>,
+  endpointNodes: string[],
+  options: SearchOptions
+): Branch[] | null {
+  const graph = buildGraph(processed, portToNode, options);
+  const branches: Branch[] = [];
+
+  for (const target of endpointNodes.slice(1)) {
+    const branch = shortestPath(graph, endpointNodes[0], target, options.maxOxps);
+    if (!branch) return null;
+    branches.push(branch);
+  }
+  return branches;
+}
+
+function summarize(branches: Branch[]) {
+  const hops = branches.flatMap((branch) => branch.hops);
+  const nodes = branches.flatMap((branch, index) =>
+    index === 0 ? branch.nodes : branch.nodes.slice(1)
+  );
+
+  const domains: string[] = [];
+  nodes.forEach((node) => {
+    const domain = nodeDomain(node);
+    if (!domains.includes(domain)) domains.push(domain);
+  });
+
+  // Branches run in parallel, so the request sees the slowest one
+  const delays = branches.map((branch) =>
+    branch.hops.reduce(
+      (total, hop) => total + (hop.latency ?? DEFAULT_LATENCY_MS),
+      0
+    )
+  );
+  const residuals = hops
+    .map((hop) => hop.residual_bandwidth)
+    .filter((value): value is number => value !== undefined);
+
+  return {
+    hops,
+    nodes,
+    domains,
+    estimated_delay_ms: delays.length > 0 ? Math.max(...delays) : 0,
+    bottleneck_bw: residuals.length > 0 ? Math.min(...residuals) : null,
+    missingLatency: hops.some((hop) => hop.latency === undefined),
+  };
+}
+
+function infeasible(reasons: string[], warnings: string[] = []): PathFeasibility {
+  return {
+    feasible: false,
+    hops: [],
+    nodes: [],
+    domains: [],
+    estimated_delay_ms: null,
+    bottleneck_bw: null,
+    warnings,
+    reasons,
+  };
+}
+
+/**
+ * Pre-compute a candidate path for an L2VPN request over the processed
+ * topology and check it against the request's QoS constraints. Strict
+ * constraints prune the search; flexible ones are preferred and reported
+ * as warnings when they cannot be met. The SDX controller remains the
+ * authority — this only anticipates its answer from the topology we have.
+ */
+export function findL2VPNPath(
+  processed: ProcessedTopology,
+  endpointPortIds: string[],
+  qos: QosMetrics = {}
+): PathFeasibility {
+  const portToNode = indexPorts(processed);
+  const reasons: string[] = [];
+
+  const endpointNodes: string[] = [];
+  endpointPortIds.forEach((portId) => {
+    const node = portToNode.get(portId);
+    if (node) {
+      endpointNodes.push(node);
+    } else {
+      reasons.push(`Port ${portId} is not part of the displayed topology.`);
+    }
+  });
+  if (reasons.length > 0) return infeasible(reasons);
+  if (endpointNodes.length < 2) {
+    return infeasible(["At least two endpoints are required."]);
+  }
+
+  const minBw = activeMetric(qos.min_bw);
+  const maxDelay = activeMetric(qos.max_delay);
+  const maxOxps = activeMetric(qos.max_number_oxps);
+  const warnings: string[] = [];
+
+  const base: SearchOptions = {
+    minBw: minBw?.value,
+    maxOxps: maxOxps?.value,
+    includeDown: false,
+    delayOnly: false,
+  };
+
+  let branches = routeEndpoints(processed, portToNode, endpointNodes, base);
+
+  const bwWarning = `No path offers ${minBw?.value} Gbps of residual bandwidth; the best-effort path is shown (min_bw is flexible).`;
+  const oxpsWarning = `No path stays within ${maxOxps?.value} OXP(s); the shortest path is shown (max_number_oxps is flexible).`;
+
+  // Relax flexible constraints one at a time, recording what was given up
+  if (!branches && minBw && !minBw.strict) {
+    branches = routeEndpoints(processed, portToNode, endpointNodes, {
+      ...base,
+      minBw: undefined,
+    });
+    if (branches) {
+      base.minBw = undefined;
+      warnings.push(bwWarning);
+    }
+  }
+  if (!branches && maxOxps && !maxOxps.strict) {
+    branches = routeEndpoints(processed, portToNode, endpointNodes, {
+      ...base,
+      maxOxps: undefined,
+    });
+    if (branches) {
+      base.maxOxps = undefined;
+      warnings.push(oxpsWarning);
+    }
+  }
+
+  // Then all of them together
+  const strictOnly: SearchOptions = {
+    ...base,
+    minBw: minBw?.strict ? minBw.value : undefined,
+    maxOxps: maxOxps?.strict ? maxOxps.value : undefined,
+  };
+  if (!branches && minBw && !minBw.strict && maxOxps && !maxOxps.strict) {
+    branches = routeEndpoints(processed, portToNode, endpointNodes, strictOnly);
+    if (branches) {
+      base.minBw = undefined;
+      base.maxOxps = undefined;
+      warnings.push(bwWarning, oxpsWarning);
+    }
+  }
+
+  if (!branches) {
+    // Flexible constraints were given up above; only strict ones can block
+    return infeasible(
+      diagnose(
+        processed,
+        portToNode,
+        endpointNodes,
+        strictOnly,
+        minBw?.strict ? minBw : undefined,
+        maxOxps?.strict ? maxOxps : undefined
+      ),
+      warnings
+    );
+  }
+
+  let summary = summarize(branches);
+
+  if (maxDelay && summary.estimated_delay_ms! > maxDelay.value) {
+    // The preferred path trades delay for availability/bandwidth; try the fastest one
+    const fastest = routeEndpoints(processed, portToNode, endpointNodes, {
+      ...base,
+      delayOnly: true,
+    });
+    let fastestSummary = fastest ? summarize(fastest) : null;
+
+    // A strict delay bound outranks flexible bandwidth and OXP preferences
+    const relaxed: SearchOptions = {
+      ...base,
+      minBw: minBw?.strict ? minBw.value : undefined,
+      maxOxps: maxOxps?.strict ? maxOxps.value : undefined,
+      delayOnly: true,
+    };
+    const canRelax =
+      relaxed.minBw !== base.minBw || relaxed.maxOxps !== base.maxOxps;
+    if (
+      maxDelay.strict &&
+      canRelax &&
+      (!fastestSummary || fastestSummary.estimated_delay_ms! > maxDelay.value)
+    ) {
+      const relaxedBranches = routeEndpoints(
+        processed,
+        portToNode,
+        endpointNodes,
+        relaxed
+      );
+      const relaxedSummary = relaxedBranches ? summarize(relaxedBranches) : null;
+      if (relaxedSummary && relaxedSummary.estimated_delay_ms! <= maxDelay.value) {
+        fastestSummary = relaxedSummary;
+        warnings.push(
+          "Flexible min_bw / max_number_oxps preferences were dropped to meet the strict max_delay."
+        );
+      }
+    }
+
+    if (fastestSummary && fastestSummary.estimated_delay_ms! <= maxDelay.value) {
+      summary = fastestSummary;
+    } else if (maxDelay.strict) {
+      return infeasible(
+        [
+          `The lowest-delay path takes about ${(fastestSummary ?? summary).estimated_delay_ms!.toFixed(1)} ms, above the strict max_delay of ${maxDelay.value} ms.`,
+        ],
+        warnings
+      );
+    } else {
+      warnings.push(
+        `Estimated delay ${summary.estimated_delay_ms!.toFixed(1)} ms exceeds max_delay ${maxDelay.value} ms (flexible).`
+      );
+    }
+  }
+
+  if (summary.missingLatency) {
+    warnings.push(
+      `Some links do not report latency; ${DEFAULT_LATENCY_MS} ms was assumed for each.`
+    );
+  }
+  if (minBw && summary.bottleneck_bw === null && summary.hops.length > 0) {
+    warnings.push("Residual bandwidth is not reported on this path; min_bw could not be checked.");
+  }
+
+  return {
+    feasible: true,
+    hops: summary.hops,
+    nodes: summary.nodes,
+    domains: summary.domains,
+    estimated_delay_ms: summary.estimated_delay_ms,
+    bottleneck_bw: summary.bottleneck_bw,
+    warnings,
+    reasons: [],
+  };
+}
+
+/**
+ * Work out which constraint blocks the request by lifting them in turn
+ */
+function diagnose(
+  processed: ProcessedTopology,
+  portToNode: Map<string, string>,
+  endpointNodes: string[],
+  options: SearchOptions,
+  minBw?: QosMetric,
+  maxOxps?: QosMetric
+): string[] {
+  const reachable = (overrides: Partial<SearchOptions>) =>
+    routeEndpoints(processed, portToNode, endpointNodes, {
+      ...options,
+      ...overrides,
+    }) !== null;
+
+  const reasons: string[] = [];
+
+  if (minBw && reachable({ minBw: undefined })) {
+    reasons.push(
+      `No path has ${minBw.value} Gbps of residual bandwidth on every link (strict min_bw).`
+    );
+  }
+  if (maxOxps && reachable({ maxOxps: undefined })) {
+    reasons.push(
+      `Every path crosses more than ${maxOxps.value} OXP(s) (strict max_number_oxps).`
+    );
+  }
+  if (reasons.length === 0 && reachable({ includeDown: true, minBw: undefined, maxOxps: undefined })) {
+    reasons.push("The endpoints are only connected through links that are currently down.");
+  }
+  if (reasons.length === 0) {
+    reasons.push("The endpoints are not connected in the displayed topology.");
+  }
+
+  return reasons;
+}
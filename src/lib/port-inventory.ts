@@ -0,0 +1,84 @@
+// Flat list of every port in the topology, with its VLAN headroom and the
+// user's L2VPNs that use it, for the port inventory browser.
+
+import { L2VPN, TopologyResponse } from "@/lib/types";
+import { getUrnDomain, toShortId } from "@/lib/sdx-urn";
+import { isPortDown } from "@/lib/topology-diff";
+import {
+  VLAN_MAX,
+  VLAN_MIN,
+  VlanInterval,
+  collectVlanUsage,
+  freeVlans,
+  parseVlanRanges,
+} from "@/lib/vlan-allocation";
+
+export interface InventoryPort {
+  id: string;
+  name: string;
+  domain: string | null;
+  node_id: string;
+  node_name: string;
+  type?: string;
+  status?: string;
+  state?: string;
+  down: boolean;
+  // Advertised in services.l2vpn_ptp.vlan_range, as the modal reads it
+  vlan_range: unknown;
+  free_vlans: VlanInterval[];
+  free_vlan_count: number;
+  // Share of the advertised VLANs held by the user's L2VPNs, in percent
+  vlan_utilization: number;
+  // The user's L2VPNs with an endpoint on this port
+  l2vpns: L2VPN[];
+}
+
+export const countVlans = (intervals: VlanInterval[]) =>
+  intervals.reduce((total, [start, end]) => total + end - start + 1, 0);
+
+export function buildPortInventory(
+  topology: TopologyResponse,
+  l2vpns: L2VPN[]
+): InventoryPort[] {
+  const usage = collectVlanUsage(l2vpns);
+  const byServiceId = new Map(
+    l2vpns.map((l2vpn) => [l2vpn.service_id, l2vpn])
+  );
+  const nodes = Array.isArray(topology?.nodes) ? topology.nodes : [];
+
+  return nodes.flatMap((node) =>
+    (node.ports ?? [])
+      .filter((port) => port?.id)
+      .map((port) => {
+        const vlanRange = port.services?.l2vpn_ptp?.vlan_range;
+        const portUsage = usage.get(port.id);
+        const free = freeVlans(vlanRange, portUsage);
+        // freeVlans treats an empty range as the whole VLAN space
+        const advertised = parseVlanRanges(vlanRange);
+        const total =
+          advertised.length > 0
+            ? countVlans(advertised)
+            : VLAN_MAX - VLAN_MIN + 1;
+        const freeCount = countVlans(free);
+
+        return {
+          id: port.id,
+          name: port.name || toShortId(port.id),
+          domain: getUrnDomain(port.id) ?? getUrnDomain(node.id),
+          node_id: node.id,
+          node_name: node.name || toShortId(node.id),
+          type: port.type,
+          status: port.status,
+          state: port.state,
+          down: isPortDown(port),
+          vlan_range: vlanRange,
+          free_vlans: free,
+          free_vlan_count: freeCount,
+          vlan_utilization: ((total - freeCount) / total) * 100,
+          l2vpns: (portUsage?.services ?? [])
+            .map((serviceId) => byServiceId.get(serviceId))
+            .filter((l2vpn): l2vpn is L2VPN => l2vpn !== undefined),
+        };
+      })
+  );
+}
@@ -1,6 +1,7 @@
 import { config } from "@/lib/config";
 import { TokenData } from "@/lib/types";
 import { TokenStorage } from "@/lib/token-storage";
+import type { ProviderPluginFactory } from "@/lib/providers/registry";
 
 export class FabricProvider {
   authenticate = async (): Promise<TokenData> => {
@@ -17,7 +18,7 @@ export class FabricProvider {
     console.log("CILogon token found, proceeding with FABRIC authentication...");
 
     // Call FABRIC API to create token using CILogon token
-    const response = await fetch(`${config.fabric.cmBase}${config.fabric.createPath}`, {
+    const response = await fetch(`${config.connections.fabric.cmBase}${config.connections.fabric.createPath}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -26,8 +27,8 @@ export class FabricProvider {
       },
       mode: 'cors',
       body: JSON.stringify({
-        project_id: config.fabric.projectId,
-        project_name: config.fabric.projectName,
+        project_id: config.connections.fabric.projectId,
+        project_name: config.connections.fabric.projectName,
       }),
     });
 
@@ -58,7 +59,7 @@ export class FabricProvider {
       throw new Error('No refresh token available');
     }
 
-    const response = await fetch(`${config.fabric.cmBase}${config.fabric.refreshPath}`, {
+    const response = await fetch(`${config.connections.fabric.cmBase}${config.connections.fabric.refreshPath}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -67,7 +68,7 @@ export class FabricProvider {
       },
       mode: 'cors',
       body: JSON.stringify({
-        project_id: config.fabric.projectId,
+        project_id: config.connections.fabric.projectId,
       }),
     });
 
@@ -99,4 +100,18 @@ export class FabricProvider {
     const provider = new FabricProvider();
     return provider.refreshToken();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * FABRIC tokens are created from a CILogon token, so users never sign in
+ * with FABRIC and its tokens carry no identity of their own
+ */
+export const createFabricPlugin: ProviderPluginFactory = (id, entry) => ({
+  id,
+  label: entry.label,
+  description: entry.description,
+  signIn: false,
+  refresh: () => FabricProvider.refreshToken(),
+  supportsRefresh: false,
+  mapClaims: () => null,
+});
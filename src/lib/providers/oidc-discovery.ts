@@ -0,0 +1,136 @@
+import { ProviderConfig } from '@/lib/config';
+
+// The parts of an OpenID Provider Metadata document the app uses
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri?: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+// Endpoints and request settings for one provider, after discovery
+export interface OidcEndpoints {
+  authUrl: string;
+  tokenUrl: string;
+  refreshUrl: string;
+  jwksUrl?: string;
+  scope: string;
+  pkce: boolean;
+}
+
+const DEFAULT_SCOPE = 'openid email profile';
+
+// One request per issuer and page load; failures are retried on next use
+const documents = new Map<string, Promise<OidcDiscoveryDocument>>();
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+async function fetchDocument(issuerUrl: string): Promise<OidcDiscoveryDocument> {
+  const url = `${trimSlash(issuerUrl)}/.well-known/openid-configuration`;
+  console.log('Fetching OIDC discovery document:', url);
+
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`.trim());
+  }
+
+  const document = await response.json();
+  if (!document?.authorization_endpoint || !document?.token_endpoint) {
+    throw new Error('Discovery document has no authorization or token endpoint');
+  }
+  // The issuer must identify itself as the URL it was discovered from,
+  // otherwise tokens would be accepted from a different issuer
+  if (trimSlash(String(document.issuer ?? '')) !== trimSlash(issuerUrl)) {
+    throw new Error(`Discovery document is for issuer ${document.issuer}`);
+  }
+  return document;
+}
+
+/**
+ * OpenID Provider Metadata for an issuer, from its
+ * /.well-known/openid-configuration
+ */
+export function discoverIssuer(issuerUrl: string): Promise<OidcDiscoveryDocument> {
+  const key = trimSlash(issuerUrl);
+  let document = documents.get(key);
+  if (!document) {
+    document = fetchDocument(issuerUrl).catch((error) => {
+      documents.delete(key);
+      throw error;
+    });
+    documents.set(key, document);
+  }
+  return document;
+}
+
+/**
+ * Requested scopes the issuer supports. Scopes it does not list are dropped
+ * rather than failing the sign-in; openid is always kept.
+ */
+function negotiateScope(requested: string, supported?: string[]): string {
+  if (!supported?.length) return requested;
+
+  const scopes = requested.split(/\s+/).filter(Boolean);
+  const accepted = scopes.filter((scope) => scope === 'openid' || supported.includes(scope));
+  const dropped = scopes.filter((scope) => !accepted.includes(scope));
+  if (dropped.length > 0) {
+    console.warn('Scopes not supported by the issuer, not requested:', dropped);
+  }
+  return accepted.join(' ');
+}
+
+/**
+ * Use PKCE unless the entry turns it off. Issuers that list their methods
+ * without S256 get no PKCE; plain is never used since it does not protect the
+ * code. Issuers that do not list methods at all get S256.
+ */
+function negotiatePkce(entry: ProviderConfig, methods?: string[]): boolean {
+  if (entry.usePkce === false) return false;
+  if (!methods || methods.includes('S256')) return true;
+
+  console.warn(`${entry.label} does not support PKCE with S256, signing in without it`);
+  return false;
+}
+
+/**
+ * Endpoints for a provider entry. Endpoints set in the entry win, e.g. a
+ * token URL pointing at a proxy; the rest come from the issuer's discovery
+ * document. Entries that set every endpoint they need are not discovered.
+ */
+export async function resolveOidcEndpoints(entry: ProviderConfig): Promise<OidcEndpoints> {
+  const configured = !!entry.authUrl && !!entry.tokenUrl && !!entry.jwksUrl;
+  let document: OidcDiscoveryDocument | undefined;
+
+  if (entry.issuerUrl && !configured) {
+    try {
+      document = await discoverIssuer(entry.issuerUrl);
+    } catch (error) {
+      console.error(`${entry.label} discovery failed:`, error);
+      if (!entry.authUrl || !entry.tokenUrl) {
+        throw new Error(
+          `Could not discover the ${entry.label} endpoints from ${entry.issuerUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  }
+
+  const authUrl = entry.authUrl || document?.authorization_endpoint;
+  const tokenUrl = entry.tokenUrl || document?.token_endpoint;
+  if (!authUrl || !tokenUrl) {
+    throw new Error(`${entry.label} has no issuerUrl or authUrl and tokenUrl configured`);
+  }
+
+  return {
+    authUrl,
+    tokenUrl,
+    // Refreshes go to the issuer itself, even when code exchange is proxied
+    refreshUrl: entry.refreshUrl || document?.token_endpoint || tokenUrl,
+    jwksUrl: entry.jwksUrl || document?.jwks_uri,
+    scope: negotiateScope(entry.scope ?? DEFAULT_SCOPE, document?.scopes_supported),
+    pkce: negotiatePkce(entry, document?.code_challenge_methods_supported),
+  };
+}
@@ -0,0 +1,206 @@
+import { Provider, ProviderConfig, config } from "@/lib/config";
+import { TokenData, TokenResponse } from "@/lib/types";
+import { TokenStorage, decodeJWT } from "@/lib/token-storage";
+import { authenticateWithPopup } from "@/lib/auth-popup";
+import { AuthTransactions, codeChallenge } from "@/lib/auth-transactions";
+import { verifySignInToken } from "@/lib/jwt-verification";
+import { resolveOidcEndpoints } from "@/lib/providers/oidc-discovery";
+import type {
+  IdentityClaims,
+  IdentityProviderPlugin,
+} from "@/lib/providers/registry";
+
+function clientId(entry: ProviderConfig): string {
+  if (!entry.clientId) throw new Error(`${entry.label} has no clientId configured`);
+  return entry.clientId;
+}
+
+/**
+ * Token response to stored TokenData. The ID token is sent as the API bearer
+ * token; providers without one fall back to the access token.
+ */
+export function toTokenData(
+  provider: Provider,
+  tokenResponse: TokenResponse,
+  previousRefreshToken?: string
+): TokenData {
+  return {
+    id_token: tokenResponse.id_token || tokenResponse.access_token,
+    refresh_token: tokenResponse.refresh_token || previousRefreshToken, // Keep existing if not provided
+    expires_in: tokenResponse.expires_in || 3600,
+    issued_at: Math.floor(Date.now() / 1000),
+    provider,
+  };
+}
+
+/**
+ * Identity from the ID token, using the claim names configured for the
+ * provider
+ */
+export function mapIdTokenClaims(token: TokenData, entry: ProviderConfig): IdentityClaims | null {
+  const claims = token.id_token ? decodeJWT(token.id_token) : null;
+  const names = { sub: 'sub', name: 'name', email: 'email', ...entry.claims };
+  const sub = claims?.[names.sub];
+  if (!sub) return null;
+
+  return {
+    sub: String(sub),
+    issuer: claims.iss,
+    name:
+      claims[names.name] ||
+      [claims.given_name, claims.family_name].filter(Boolean).join(' ') ||
+      undefined,
+    email: claims[names.email] || claims.mail,
+  };
+}
+
+/**
+ * Plugin for any OAuth 2.0 / OpenID Connect provider using the authorization
+ * code flow, driven entirely by its config entry. Endpoints, scopes and PKCE
+ * support the entry leaves out are discovered from its issuerUrl.
+ */
+export function createOidcProvider(id: Provider, entry: ProviderConfig): IdentityProviderPlugin {
+  const callbackPath = `/auth/callback/${id}`;
+  const redirectUri = () =>
+    entry.redirectUri ?? `${config.getBaseUrl()}${config.getAppPath()}${callbackPath}`;
+
+  const requestToken = async (url: string, params: URLSearchParams): Promise<TokenResponse> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: params,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${response.status} ${response.statusText} ${error}`.trim());
+    }
+    return response.json();
+  };
+
+  // Authorization URL for a new sign-in attempt, and the attempt's state
+  const authorize = async (): Promise<{ url: string; state: string }> => {
+    const endpoints = await resolveOidcEndpoints(entry);
+    const transaction = AuthTransactions.begin(id, { pkce: endpoints.pkce });
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId(entry),
+      redirect_uri: redirectUri(),
+      scope: endpoints.scope,
+      state: transaction.state,
+      nonce: transaction.nonce,
+    });
+
+    if (transaction.code_verifier) {
+      params.set('code_challenge', await codeChallenge(transaction.code_verifier));
+      params.set('code_challenge_method', 'S256');
+    }
+
+    return { url: `${endpoints.authUrl}?${params}`, state: transaction.state };
+  };
+
+  const plugin: IdentityProviderPlugin = {
+    id,
+    label: entry.label,
+    description: entry.description,
+    signIn: entry.signIn,
+    login: entry.login ?? 'redirect',
+    supportsRefresh: entry.supportsRefresh ?? false,
+    callbackPath,
+
+    async buildAuthUrl() {
+      return (await authorize()).url;
+    },
+
+    async startPopup() {
+      const { url, state } = await authorize();
+      let result;
+      try {
+        result = await authenticateWithPopup({ url, state });
+      } catch (error) {
+        AuthTransactions.discard(state);
+        throw error;
+      }
+      if (result.error) {
+        AuthTransactions.discard(state);
+        throw new Error(result.error_description || result.error);
+      }
+      if (!result.code || !result.state) {
+        throw new Error(`No authorization code received from ${entry.label}`);
+      }
+      return plugin.exchangeCode!(result.code, result.state);
+    },
+
+    async exchangeCode(code, state) {
+      const { code_verifier: verifier, nonce } = AuthTransactions.consume(id, state);
+
+      const params = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri(),
+        client_id: clientId(entry),
+      });
+      if (verifier) params.set('code_verifier', verifier);
+      if (entry.clientSecret) params.set('client_secret', entry.clientSecret);
+
+      let tokenData: TokenData;
+      try {
+        const { tokenUrl } = await resolveOidcEndpoints(entry);
+        const tokenResponse = await requestToken(tokenUrl, params);
+        tokenData = { ...toTokenData(id, tokenResponse), nonce };
+      } catch (error) {
+        throw new Error(`${entry.label} token exchange failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      // A token with a bad signature or another attempt's nonce is never stored
+      await verifySignInToken(tokenData, nonce);
+      TokenStorage.setToken(id, tokenData);
+      return tokenData;
+    },
+
+    async refresh(token) {
+      if (!token.refresh_token) {
+        throw new Error(`${entry.label} refresh token not available. Manual re-authentication required.`);
+      }
+
+      const params = new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: token.refresh_token,
+        client_id: entry.refreshClientId ?? clientId(entry),
+      });
+
+      try {
+        const { refreshUrl } = await resolveOidcEndpoints(entry);
+        const tokenResponse = await requestToken(refreshUrl, params);
+        const tokenData = toTokenData(id, tokenResponse, token.refresh_token);
+        TokenStorage.setToken(id, tokenData);
+        return tokenData;
+      } catch (error) {
+        throw new Error(`${entry.label} token refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    mapClaims: (token) => mapIdTokenClaims(token, entry),
+  };
+
+  if (entry.logoutUrl) {
+    const logoutUrl = entry.logoutUrl;
+    plugin.logout = async () => {
+      // The provider answers without CORS headers; the request still ends
+      // its session cookie
+      await fetch(logoutUrl, {
+        method: 'GET',
+        credentials: 'include',
+        mode: 'no-cors',
+      }).catch(() => {
+        console.log(`${entry.label} logout request completed (may have CORS error, but that's expected)`);
+      });
+    };
+  }
+
+  return plugin;
+}
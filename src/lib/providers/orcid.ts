@@ -2,147 +2,82 @@ import { config } from "@/lib/config";
 import { TokenData, TokenResponse } from "@/lib/types";
 import { TokenStorage } from "@/lib/token-storage";
 import { authenticateWithPopup } from "@/lib/auth-popup";
-
-function generateCodeVerifier(): string {
-  const array = new Uint8Array(32);
-  crypto.getRandomValues(array);
-  return btoa(String.fromCharCode(...array))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
-}
-
-async function generateCodeChallenge(verifier: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(verifier);
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  return btoa(String.fromCharCode(...new Uint8Array(hash)))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
-}
+import { AuthTransactions } from "@/lib/auth-transactions";
+import { verifySignInToken } from "@/lib/jwt-verification";
+import { createOidcProvider } from "@/lib/providers/oidc";
+import type { ProviderPluginFactory } from "@/lib/providers/registry";
 
 export class ORCIDProvider {
-  // Generate auth URL for ORCID OAuth flow
-  async getAuthUrl(): Promise<string> {
-    const state = crypto.randomUUID();
-
-    // Store state for validation (no PKCE needed with client_secret flow)
-    sessionStorage.setItem('orcid_state', state);
+  // Generate auth URL for ORCID OAuth flow, for a new sign-in attempt
+  private authorize(): { url: string; state: string } {
+    // No PKCE needed with client_secret flow
+    const transaction = AuthTransactions.begin('orcid');
 
     const params = new URLSearchParams({
       response_type: 'code',
-      client_id: config.orcid.clientId,
-      redirect_uri: config.orcid.redirectUri,
-      scope: config.orcid.scope,
-      state,
+      client_id: config.identityProviders.orcid.clientId,
+      redirect_uri: config.identityProviders.orcid.redirectUri,
+      scope: config.identityProviders.orcid.scope,
+      state: transaction.state,
+      nonce: transaction.nonce,
     });
 
-    return `${config.orcid.authUrl}?${params}`;
+    return { url: `${config.identityProviders.orcid.authUrl}?${params}`, state: transaction.state };
+  }
+
+  async getAuthUrl(): Promise<string> {
+    return this.authorize().url;
   }
 
   async startAuthenticationPopup(): Promise<TokenData> {
-    const authUrl = await this.getAuthUrl();
+    const { url, state } = this.authorize();
     
     console.log('Opening ORCID authentication window...');
     
-    // Open the actual ORCID OAuth URL in a new window
-    const popup = window.open(
-      authUrl,
-      'orcid_auth',
-      'width=900,height=700,scrollbars=yes,resizable=yes,status=yes,location=yes,toolbar=yes,menubar=yes'
-    );
-
-    if (!popup) {
-      throw new Error('Popup blocked. Please allow popups for this site and try again.');
+    let result;
+    try {
+      result = await authenticateWithPopup({
+        url,
+        state,
+        width: 900,
+        height: 700,
+      });
+    } catch (error) {
+      AuthTransactions.discard(state);
+      throw error;
     }
 
-    // Focus the popup window
-    popup.focus();
-
-    // Return a promise that resolves when authentication completes
-    return new Promise((resolve, reject) => {
-      // Listen for messages from the popup
-      const messageHandler = (event: MessageEvent) => {
-        // Be more permissive with origins for authentication flow
-        console.log('Received ORCID message from origin:', event.origin, 'with data:', event.data);
-        
-        if (event.data?.type === 'ORCID_AUTH_SUCCESS') {
-          window.removeEventListener('message', messageHandler);
-          clearInterval(checkClosed);
-          popup.close();
-          
-          const { code, state } = event.data;
-          this.exchangeCodeForToken(code, state)
-            .then(resolve)
-            .catch(reject);
-        } else if (event.data?.type === 'ORCID_AUTH_ERROR') {
-          window.removeEventListener('message', messageHandler);
-          clearInterval(checkClosed);
-          popup.close();
-          reject(new Error(event.data.error || 'Authentication failed'));
-        }
-      };
-      
-      window.addEventListener('message', messageHandler);
-      
-      // Check if popup is closed every second
-      const checkClosed = setInterval(() => {
-        if (popup.closed) {
-          clearInterval(checkClosed);
-          window.removeEventListener('message', messageHandler);
-          reject(new Error('Authentication window was closed before completion'));
-        }
-      }, 1000);
-
-      // Timeout after 10 minutes
-      setTimeout(() => {
-        clearInterval(checkClosed);
-        window.removeEventListener('message', messageHandler);
-        if (!popup.closed) {
-          popup.close();
-        }
-        reject(new Error('Authentication timeout. Please try again.'));
-      }, 600000);
-    });
+    if (result.error) {
+      AuthTransactions.discard(state);
+      throw new Error(result.error_description || result.error || 'Authentication failed');
+    }
+    if (!result.code || !result.state) {
+      throw new Error('No authorization code received from ORCID');
+    }
+    return this.exchangeCodeForToken(result.code, result.state);
   }
 
   async exchangeCodeForToken(code: string, state: string): Promise<TokenData> {
     console.log('ORCID exchangeCodeForToken called with:', { code, state });
     
-    const storedState = sessionStorage.getItem('orcid_state');
-    const codeVerifier = sessionStorage.getItem('orcid_code_verifier');
-    
-    console.log('ORCID stored values:', { storedState, codeVerifier: !!codeVerifier });
-
-    if (!storedState || storedState !== state) {
-      console.error('ORCID state mismatch:', { storedState, receivedState: state });
-      throw new Error('Invalid state parameter');
-    }
-
-    if (!codeVerifier) {
-      console.error('ORCID code verifier not found in sessionStorage');
-      throw new Error('Code verifier not found');
-    }
-
-    // Clean up session storage
-    sessionStorage.removeItem('orcid_state');
-    sessionStorage.removeItem('orcid_code_verifier');
+    // Throws with a user-facing message for unknown, expired or replayed states
+    const { code_verifier: codeVerifier, nonce } = AuthTransactions.consume('orcid', state);
 
     // Prepare token exchange request
     const params = new URLSearchParams({
       grant_type: 'authorization_code',
       code: code,
-      client_id: config.orcid.clientId,
-      redirect_uri: config.orcid.redirectUri,
-      code_verifier: codeVerifier,
+      client_id: config.identityProviders.orcid.clientId,
+      redirect_uri: config.identityProviders.orcid.redirectUri,
     });
+    if (codeVerifier) params.set('code_verifier', codeVerifier);
 
+    let tokenData: TokenData;
     try {
-      console.log('ORCID making token request to:', config.orcid.tokenUrl);
+      console.log('ORCID making token request to:', config.identityProviders.orcid.tokenUrl);
       console.log('ORCID request params:', params.toString());
       
-      const response = await fetch(config.orcid.tokenUrl, {
+      const response = await fetch(config.identityProviders.orcid.tokenUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -161,42 +96,28 @@ export class ORCIDProvider {
       const tokenResponse = await response.json();
       console.log('ORCID token response:', tokenResponse);
       
-      // ORCID doesn't provide id_token, so we create a minimal JWT-like structure
-      // using the access_token if it's a JWT, or create a basic token
-      let idToken = tokenResponse.id_token;
-      if (!idToken && tokenResponse.access_token) {
-        // Check if access_token is a JWT (has 3 parts separated by dots)
-        if (tokenResponse.access_token.split('.').length === 3) {
-          idToken = tokenResponse.access_token;
-        } else {
-          // Create a minimal JWT-like token for ORCID
-          const header = btoa(JSON.stringify({ alg: "none", typ: "JWT" }));
-          const payload = btoa(JSON.stringify({
-            iss: "https://orcid.org",
-            sub: "orcid-user",
-            aud: config.orcid.clientId,
-            exp: Math.floor(Date.now() / 1000) + (tokenResponse.expires_in || 3600),
-            iat: Math.floor(Date.now() / 1000),
-            access_token: tokenResponse.access_token
-          }));
-          idToken = `${header}.${payload}.`;
-        }
+      // Signing in needs a real ID token; ORCID only issues one for the openid scope
+      if (!tokenResponse.id_token) {
+        throw new Error('ORCID returned no ID token; the openid scope is required');
       }
 
-      const tokenData: TokenData = {
-        id_token: idToken,
+      tokenData = {
+        id_token: tokenResponse.id_token,
         refresh_token: tokenResponse.refresh_token,
         expires_in: tokenResponse.expires_in || 3600,
         issued_at: Math.floor(Date.now() / 1000),
         provider: 'orcid',
+        nonce,
       };
-
-      TokenStorage.setToken('orcid', tokenData);
-      return tokenData;
     } catch (error) {
       console.error('ORCID token exchange error:', error);
       throw new Error(`Failed to exchange code for token: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    // A token with a bad signature or another attempt's nonce is never stored
+    await verifySignInToken(tokenData, nonce);
+    TokenStorage.setToken('orcid', tokenData);
+    return tokenData;
   }
 
   // Static methods for backward compatibility and easier usage
@@ -214,4 +135,15 @@ export class ORCIDProvider {
     const provider = new ORCIDProvider();
     return provider.startAuthenticationPopup();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * ORCID uses the generic OIDC plugin's refresh, claims and logout, and its
+ * own sign-in, which rejects a token response without an ID token
+ */
+export const createORCIDPlugin: ProviderPluginFactory = (id, entry) => ({
+  ...createOidcProvider(id, entry),
+  buildAuthUrl: () => ORCIDProvider.initiateLogin(),
+  startPopup: () => ORCIDProvider.startAuthenticationPopup(),
+  exchangeCode: (code, state) => ORCIDProvider.handleCallback(code, state),
+});
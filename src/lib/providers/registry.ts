@@ -0,0 +1,106 @@
+import { Provider, ProviderConfig, config } from "@/lib/config";
+import { TokenData } from "@/lib/types";
+import { createOidcProvider } from "@/lib/providers/oidc";
+import { createORCIDPlugin } from "@/lib/providers/orcid";
+import { createFabricPlugin } from "@/lib/providers/fabric";
+
+// Who a token belongs to, in provider-neutral terms
+export interface IdentityClaims {
+  sub: string;
+  issuer?: string;
+  name?: string;
+  email?: string;
+}
+
+/**
+ * What the app needs from an identity provider. Everything provider
+ * specific lives behind this interface; the rest of the app looks providers
+ * up here instead of switching on their names.
+ */
+export interface IdentityProviderPlugin {
+  id: Provider;
+  label: string;
+  description?: string;
+  signIn: boolean;
+  // How users sign in; unset for providers they do not sign in with
+  login?: "redirect" | "popup";
+  // App route the provider redirects back to, without the app path
+  callbackPath?: string;
+  // Authorization URL for a new sign-in. State, nonce and PKCE verifier are
+  // kept for the callback as an auth transaction (see auth-transactions.ts).
+  buildAuthUrl?(): Promise<string>;
+  // Sign in in a popup window and store the token
+  startPopup?(): Promise<TokenData>;
+  // Exchange the code the callback received and store the token
+  exchangeCode?(code: string, state: string): Promise<TokenData>;
+  // Renew and store the token
+  refresh(token: TokenData): Promise<TokenData>;
+  // Whether the token is refreshed in the background before it expires
+  supportsRefresh: boolean;
+  // End the session at the provider, where it offers a way to
+  logout?(): Promise<void>;
+  mapClaims(token: TokenData): IdentityClaims | null;
+}
+
+export type ProviderPluginFactory = (
+  id: Provider,
+  entry: ProviderConfig
+) => IdentityProviderPlugin;
+
+const PLUGIN_TYPES: Record<ProviderConfig["type"], ProviderPluginFactory> = {
+  oidc: createOidcProvider,
+  orcid: createORCIDPlugin,
+  fabric: createFabricPlugin,
+};
+
+let plugins: Map<Provider, IdentityProviderPlugin> | null = null;
+
+// Built on first use so that provider modules are fully loaded by then
+function registry(): Map<Provider, IdentityProviderPlugin> {
+  if (!plugins) {
+    const entries = Object.entries(config.identityProviders) as [
+      Provider,
+      ProviderConfig
+    ][];
+    plugins = new Map(
+      entries.map(([id, entry]) => [id, PLUGIN_TYPES[entry.type](id, entry)])
+    );
+  }
+  return plugins;
+}
+
+export function isProvider(value: unknown): value is Provider {
+  return typeof value === "string" && registry().has(value as Provider);
+}
+
+export function getProviderConfig(id: Provider): ProviderConfig {
+  return config.identityProviders[id] as ProviderConfig;
+}
+
+export function getProvider(id: Provider): IdentityProviderPlugin {
+  const plugin = registry().get(id);
+  if (!plugin) throw new Error(`Unknown identity provider: ${id}`);
+  return plugin;
+}
+
+/**
+ * Registered providers in config order; by default only those users sign
+ * in with
+ */
+export function listProviders(
+  { signIn = true }: { signIn?: boolean } = {}
+): IdentityProviderPlugin[] {
+  return Array.from(registry().values()).filter(
+    (plugin) => !signIn || plugin.signIn
+  );
+}
+
+export function findProviderByCallbackPath(
+  path: string
+): IdentityProviderPlugin | null {
+  const normalized = path.replace(/\/+$/, "");
+  return (
+    listProviders().find((plugin) => plugin.callbackPath === normalized) ??
+    null
+  );
+}
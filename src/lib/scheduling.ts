@@ -0,0 +1,142 @@
+import { L2VPN } from "@/lib/types";
+
+// How date-times are shown and entered. Values are always stored and sent
+// to the SDX API as UTC ISO-8601 strings.
+export type TimeZoneMode = "local" | "utc";
+
+export type ScheduleState = "scheduled" | "active" | "expired";
+
+export interface ScheduleWindow {
+  start: Date | null;
+  end: Date | null;
+}
+
+export interface ScheduleErrors {
+  start_time?: string;
+  end_time?: string;
+}
+
+// Leeway for a start time picked "now" that is a few seconds old on submit
+const PAST_START_GRACE_MS = 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export function parseScheduleTime(value: string | undefined | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Serialize for the SDX API: UTC, second precision, "Z" suffix
+ * (e.g. 2026-10-20T14:30:00Z)
+ */
+export function toSdxTimestamp(value: Date | string): string {
+  const date = typeof value === "string" ? new Date(value) : value;
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Calendar day (as the local-midnight Date the day picker uses) and HH:mm
+ * time of an instant, as seen in the given mode
+ */
+export function splitDateTime(
+  date: Date,
+  mode: TimeZoneMode
+): { day: Date; time: string } {
+  if (mode === "utc") {
+    return {
+      day: new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+      time: `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`,
+    };
+  }
+  return {
+    day: new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+    time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+  };
+}
+
+/**
+ * Inverse of splitDateTime: the instant for a picked day and HH:mm time
+ */
+export function combineDateTime(day: Date, time: string, mode: TimeZoneMode): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const h = isNaN(hours) ? 0 : hours;
+  const m = isNaN(minutes) ? 0 : minutes;
+
+  if (mode === "utc") {
+    return new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), h, m));
+  }
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m);
+}
+
+export function formatScheduleTime(
+  value: Date | string | null | undefined,
+  mode: TimeZoneMode
+): string {
+  const date = value instanceof Date ? value : parseScheduleTime(value);
+  if (!date) return "—";
+
+  if (mode === "utc") {
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())} UTC`;
+  }
+  return date.toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+/**
+ * Problems with a requested scheduling window. Both ends are optional:
+ * no start means "now", no end means "until deleted".
+ */
+export function validateSchedule(
+  startTime: string | undefined,
+  endTime: string | undefined,
+  now: Date = new Date()
+): ScheduleErrors {
+  const errors: ScheduleErrors = {};
+  const start = parseScheduleTime(startTime);
+  const end = parseScheduleTime(endTime);
+
+  if (startTime && !start) errors.start_time = "Invalid start time";
+  if (endTime && !end) errors.end_time = "Invalid end time";
+
+  if (start && start.getTime() < now.getTime() - PAST_START_GRACE_MS) {
+    errors.start_time = "Start time must be in the future";
+  }
+  if (end && end.getTime() <= now.getTime()) {
+    errors.end_time = "End time must be in the future";
+  } else if (start && end && end.getTime() <= start.getTime()) {
+    errors.end_time = "End time must be after the start time";
+  }
+  return errors;
+}
+
+/**
+ * When an L2VPN is (or was) provisioned. Without a scheduled start it has
+ * been active since creation; an archived L2VPN ended when it was archived.
+ */
+export function scheduleWindow(l2vpn: L2VPN): ScheduleWindow {
+  return {
+    start:
+      parseScheduleTime(l2vpn.scheduling?.start_time) ??
+      parseScheduleTime(l2vpn.creation_date),
+    end:
+      parseScheduleTime(l2vpn.scheduling?.end_time) ??
+      parseScheduleTime(l2vpn.archived_date),
+  };
+}
+
+export function scheduleState(l2vpn: L2VPN, now: Date = new Date()): ScheduleState {
+  if (l2vpn.archived_date) return "expired";
+
+  const { start, end } = scheduleWindow(l2vpn);
+  if (end && end.getTime() <= now.getTime()) return "expired";
+  if (start && start.getTime() > now.getTime()) return "scheduled";
+  return "active";
+}
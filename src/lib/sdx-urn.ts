@@ -0,0 +1,115 @@
+// SDX identifiers are URNs naming an element and the OXP domain that owns it:
+//
+//   urn:sdx:node:<domain>:<node>
+//   urn:sdx:port:<domain>:<node>:<port>
+//   urn:sdx:link:<domain>:<link>
+//
+// The UI shows ports by their short form, <domain>:<node>:<port>. Requests to
+// the SDX API must always carry the full URN; use toPortUrn to get one.
+
+export type SdxUrnKind = "node" | "port" | "link";
+
+export interface SdxUrn {
+  kind: SdxUrnKind;
+  // OXP domain, e.g. "ampath.net"
+  domain: string;
+  // Node name, for node and port URNs
+  node?: string;
+  // Port name, for port URNs. May itself contain ":".
+  port?: string;
+  // Link name, for link URNs
+  link?: string;
+}
+
+const URN_PREFIX = "urn:sdx:";
+
+export const SDX_URN_FORMATS: Record<SdxUrnKind, string> = {
+  node: "urn:sdx:node:<domain>:<node>",
+  port: "urn:sdx:port:<domain>:<node>:<port>",
+  link: "urn:sdx:link:<domain>:<link>",
+};
+
+function isKind(value: string): value is SdxUrnKind {
+  return value === "node" || value === "port" || value === "link";
+}
+
+/**
+ * Split an SDX URN into its components. Returns null for anything that is not
+ * a well-formed node, port or link URN.
+ */
+export function parseSdxUrn(value: unknown): SdxUrn | null {
+  if (typeof value !== "string") return null;
+
+  const [scheme, nid, kind, domain, ...rest] = value.trim().split(":");
+  if (scheme?.toLowerCase() !== "urn" || nid?.toLowerCase() !== "sdx") {
+    return null;
+  }
+  if (!kind || !isKind(kind) || !domain) return null;
+
+  switch (kind) {
+    case "node":
+      if (rest.length !== 1 || !rest[0]) return null;
+      return { kind, domain, node: rest[0] };
+    case "port": {
+      const [node, ...port] = rest;
+      if (!node || port.length === 0 || port.some((part) => !part)) {
+        return null;
+      }
+      return { kind, domain, node, port: port.join(":") };
+    }
+    case "link":
+      if (rest.length === 0 || rest.some((part) => !part)) return null;
+      return { kind, domain, link: rest.join(":") };
+  }
+}
+
+export function isSdxUrn(value: unknown, kind?: SdxUrnKind): boolean {
+  const urn = parseSdxUrn(value);
+  return urn !== null && (kind === undefined || urn.kind === kind);
+}
+
+/**
+ * Inverse of parseSdxUrn
+ */
+export function formatSdxUrn(urn: SdxUrn): string {
+  switch (urn.kind) {
+    case "node":
+      return `${URN_PREFIX}node:${urn.domain}:${urn.node}`;
+    case "port":
+      return `${URN_PREFIX}port:${urn.domain}:${urn.node}:${urn.port}`;
+    case "link":
+      return `${URN_PREFIX}link:${urn.domain}:${urn.link}`;
+  }
+}
+
+/**
+ * OXP domain of an SDX URN, or null when it is not one
+ */
+export function getUrnDomain(value: string): string | null {
+  return parseSdxUrn(value)?.domain ?? null;
+}
+
+/**
+ * Full port URN for either a full URN or the short <domain>:<node>:<port>
+ * form. Returns null when the value is neither.
+ */
+export function toPortUrn(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const full = trimmed.toLowerCase().startsWith(URN_PREFIX)
+    ? trimmed
+    : `${URN_PREFIX}port:${trimmed}`;
+  const urn = parseSdxUrn(full);
+  return urn?.kind === "port" ? formatSdxUrn(urn) : null;
+}
+
+/**
+ * Display form of a URN without the urn:sdx:<kind>: prefix, e.g.
+ * "ampath.net:Ampath3:50". Values that are not SDX URNs are returned as is.
+ */
+export function toShortId(value: string): string {
+  const urn = parseSdxUrn(value);
+  if (!urn) return value;
+  return formatSdxUrn(urn).slice(`${URN_PREFIX}${urn.kind}:`.length);
+}
@@ -1,4 +1,6 @@
 import { TokenStorage } from "@/lib/token-storage";
+import { IdentityLinks } from "@/lib/identity-links";
+import { getProvider, listProviders } from "@/lib/providers/registry";
 import { Provider, config } from "@/lib/config";
 
 export interface UserSession {
@@ -125,6 +127,7 @@ export class SessionManager {
     };
 
     localStorage.setItem(this.SESSION_KEY, JSON.stringify(session));
+    IdentityLinks.signIn(provider);
     console.log("Session created for provider:", provider);
   }
 
@@ -140,7 +143,9 @@ export class SessionManager {
   }
 
   /**
-   * Clear session and all tokens
+   * Clear session and all tokens. Linked identities are kept, so signing in
+   * again with any of them keeps the same acting identity; logout() clears
+   * them as well.
    */
   static clearSession(): void {
     localStorage.removeItem(this.SESSION_KEY);
@@ -157,42 +162,18 @@ export class SessionManager {
     const session = this.getSession();
     const provider = session.provider;
 
-    // Clear local session and tokens first
+    // Clear local session, tokens and linked identities first
     this.clearSession();
-
-    // Handle provider-specific logout
-    if (provider === "orcid") {
-      // For ORCID, we'll make a request to their logout endpoint and then redirect
-      const logoutUrl = config.orcid.logoutUrl;
-      const postLogoutRedirect = config.orcid.postLogoutRedirectUri;
-
-      console.log("Destroying ORCID session and redirecting to homepage");
-
-      // Make a request to ORCID logout endpoint in the background
-      fetch(logoutUrl, {
-        method: "GET",
-        credentials: "include",
-        mode: "no-cors",
-      })
-        .catch(() => {
-          // Ignore any errors from the logout request
-          console.log(
-            "ORCID logout request completed (may have CORS error, but that's expected)"
-          );
-        })
-        .finally(() => {
-          // Always redirect to homepage regardless of logout request result
-          window.location.href = postLogoutRedirect;
-        });
-    } else if (provider === "cilogon") {
-      // CILogon logout - could be implemented later if needed
-      console.log("CILogon logout - local session cleared");
-      // Redirect to homepage for non-ORCID providers
-      window.location.href = config.orcid.postLogoutRedirectUri;
-    } else {
-      // Default case - redirect to homepage
-      window.location.href = config.orcid.postLogoutRedirectUri;
-    }
+    IdentityLinks.clear();
+
+    // End the provider session where the provider supports it, then always
+    // redirect to the homepage
+    const providerLogout = provider ? getProvider(provider).logout?.() : undefined;
+    Promise.resolve(providerLogout)
+      .catch((error) => console.warn(`${provider} logout failed:`, error))
+      .finally(() => {
+        window.location.href = config.postLogoutRedirectUri;
+      });
   }
 
   /**
@@ -210,19 +191,14 @@ export class SessionManager {
    * Check if user has any valid tokens
    */
   private static hasValidTokens(): boolean {
-    const cilogon = TokenStorage.getToken("cilogon");
-    const orcid = TokenStorage.getToken("orcid");
-
-    console.log("Token check - CILogon:", cilogon ? "exists" : "missing");
-    console.log("Token check - ORCID:", orcid ? "exists" : "missing");
-
-    const hasValidCilogon = cilogon && TokenStorage.isTokenValid(cilogon);
-    const hasValidOrcid = orcid && TokenStorage.isTokenValid(orcid);
-
-    console.log("Valid tokens - CILogon:", hasValidCilogon);
-    console.log("Valid tokens - ORCID:", hasValidOrcid);
-
-    return !!(hasValidCilogon || hasValidOrcid);
+    const valid = listProviders().filter(({ id }) => {
+      const token = TokenStorage.getToken(id);
+      console.log(`Token check - ${id}:`, token ? "exists" : "missing");
+      return !!token && TokenStorage.isTokenValid(token);
+    });
+
+    console.log("Valid tokens:", valid.map(({ id }) => id));
+    return valid.length > 0;
   }
 
   /**
@@ -234,11 +210,10 @@ export class SessionManager {
 
     // If session doesn't have provider info, try to determine from tokens
     if (!session.provider) {
-      const cilogon = TokenStorage.getToken("cilogon");
-      const orcid = TokenStorage.getToken("orcid");
-
-      if (cilogon && TokenStorage.isTokenValid(cilogon)) return "cilogon";
-      if (orcid && TokenStorage.isTokenValid(orcid)) return "orcid";
+      const valid = listProviders().find(({ id }) =>
+        TokenStorage.isTokenValid(TokenStorage.getToken(id))
+      );
+      if (valid) return valid.id;
     }
 
     return session.provider || null;
@@ -0,0 +1,86 @@
+import { TokenData, Provider } from "@/lib/types";
+import { TokenStorage } from "@/lib/token-storage";
+import { getProvider, listProviders } from "@/lib/providers/registry";
+
+// One refresh per provider at a time, shared by every caller
+const inFlightRefreshes = new Map<Provider, Promise<TokenData>>();
+
+/**
+ * Refresh the stored token for a provider using its refresh_token.
+ * Concurrent callers for the same provider share a single request.
+ */
+export function refreshProviderToken(provider: Provider): Promise<TokenData> {
+  const existing = inFlightRefreshes.get(provider);
+  if (existing) return existing;
+
+  const refresh = (async () => {
+    const token = TokenStorage.getToken(provider);
+    const plugin = getProvider(provider);
+    if (!token) {
+      throw new Error(`${plugin.label} token not available. Manual re-authentication required.`);
+    }
+    return plugin.refresh(token);
+  })().finally(() => {
+    inFlightRefreshes.delete(provider);
+  });
+
+  inFlightRefreshes.set(provider, refresh);
+  return refresh;
+}
+
+let sessionRefresh: Promise<boolean> | null = null;
+
+/**
+ * Try to restore a usable session after the backend rejected our token.
+ * The preferred provider is tried first, then any other provider that still
+ * holds a refresh token. Concurrent callers share one attempt.
+ */
+export function refreshSession(preferred?: Provider): Promise<boolean> {
+  if (sessionRefresh) return sessionRefresh;
+
+  sessionRefresh = (async () => {
+    const candidates: Provider[] = preferred ? [preferred] : [];
+    for (const { id: provider } of listProviders()) {
+      if (!candidates.includes(provider) && TokenStorage.getToken(provider)?.refresh_token) {
+        candidates.push(provider);
+      }
+    }
+
+    for (const provider of candidates) {
+      try {
+        await refreshProviderToken(provider);
+        return true;
+      } catch (error) {
+        console.warn(`Silent ${provider} token refresh failed:`, error);
+      }
+    }
+    return false;
+  })().finally(() => {
+    sessionRefresh = null;
+  });
+
+  return sessionRefresh;
+}
+
+export const SESSION_EXPIRED_EVENT = 'sdx:session-expired';
+
+export interface SessionExpiredDetail {
+  provider?: Provider;
+  reason: string;
+}
+
+/**
+ * Announce that the session could not be recovered and the user must sign in again
+ */
+export function notifySessionExpired(detail: SessionExpiredDetail) {
+  window.dispatchEvent(new CustomEvent<SessionExpiredDetail>(SESSION_EXPIRED_EVENT, { detail }));
+}
+
+/**
+ * Subscribe to session expiry; returns an unsubscribe function
+ */
+export function onSessionExpired(listener: (detail: SessionExpiredDetail) => void): () => void {
+  const handler = (event: Event) => listener((event as CustomEvent<SessionExpiredDetail>).detail);
+  window.addEventListener(SESSION_EXPIRED_EVENT, handler);
+  return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handler);
+}
@@ -1,14 +1,13 @@
-import { TokenData, TokenClaims } from "@/lib/types";
+import { TokenData, Provider } from "@/lib/types";
+import { config } from "@/lib/config";
+import type { IdTokenVerification } from "@/lib/jwt-verification";
 
-const TOKEN_KEYS = {
-  cilogon: "auth.cilogon",
-  orcid: "auth.orcid"
-} as const;
+const tokenKey = (provider: Provider) => `auth.${provider}`;
 
 export class TokenStorage {
-  static getToken(provider: keyof typeof TOKEN_KEYS): TokenData | null {
+  static getToken(provider: Provider): TokenData | null {
     try {
-      const key = TOKEN_KEYS[provider];
+      const key = tokenKey(provider);
       const stored = localStorage.getItem(key);
       if (!stored) return null;
       return JSON.parse(stored);
@@ -17,20 +16,20 @@ export class TokenStorage {
     }
   }
 
-  static setToken(provider: keyof typeof TOKEN_KEYS, token: TokenData): void {
-    const key = TOKEN_KEYS[provider];
+  static setToken(provider: Provider, token: TokenData): void {
+    const key = tokenKey(provider);
     console.log(`TokenStorage.setToken(${provider}):`, { key, token });
     localStorage.setItem(key, JSON.stringify(token));
     console.log(`TokenStorage.setToken(${provider}) completed`);
   }
 
-  static removeToken(provider: keyof typeof TOKEN_KEYS): void {
-    localStorage.removeItem(TOKEN_KEYS[provider]);
+  static removeToken(provider: Provider): void {
+    localStorage.removeItem(tokenKey(provider));
   }
 
   static clearAllTokens(): void {
-    Object.values(TOKEN_KEYS).forEach(key => {
-      localStorage.removeItem(key);
+    (Object.keys(config.identityProviders) as Provider[]).forEach(provider => {
+      localStorage.removeItem(tokenKey(provider));
     });
   }
 
@@ -119,9 +118,14 @@ export function decodeJWT(token: string): any {
 }
 
 /**
- * Check if email validation can be skipped based on JWT claims
+ * Check if email validation can be skipped based on JWT claims. The claims
+ * are only trusted once the ID token has been verified (see
+ * jwt-verification.ts).
  */
-export function canSkipEmailValidation(token: TokenData): {
+export function canSkipEmailValidation(
+  token: TokenData,
+  verification: IdTokenVerification | null
+): {
   canSkip: boolean;
   email?: string;
   eppn?: string;
@@ -141,7 +145,17 @@ export function canSkipEmailValidation(token: TokenData): {
   const eppn = claims.eppn;
   const idp_name = claims.idp_name;
 
-  console.log('Email verification check:', { email, eppn, idp_name });
+  console.log('Email verification check:', { email, eppn, idp_name, verified: verification?.verified });
+
+  if (!verification?.verified) {
+    return {
+      canSkip: false,
+      email,
+      eppn,
+      idp_name,
+      reason: `ID token not verified${verification?.error ? `: ${verification.error}` : ''}`
+    };
+  }
 
   // Skip email validation if both eppn and email are present
   // eppn is only provided by institutional SAML providers (InCommon/eduGAIN)
@@ -198,4 +212,4 @@ export async function calculateOwnership(sub: string): Promise<string> {
   const trimmedOutput = base64Encoded.substring(0, 16);
 
   return trimmedOutput;
-}
\ No newline at end of file
+}
@@ -0,0 +1,176 @@
+import { TopologyLink, TopologyNode, TopologyResponse } from "@/lib/types";
+
+export type TopologyChangeKind =
+  | "link_down"
+  | "link_up"
+  | "link_added"
+  | "link_removed"
+  | "port_down"
+  | "port_up"
+  | "node_added"
+  | "node_removed";
+
+export interface TopologyChange {
+  // Unique per detection, for React keys and de-duplication
+  id: string;
+  kind: TopologyChangeKind;
+  // URN of the link, port or node that changed
+  subject: string;
+  label: string;
+  detail?: string;
+  detected_at: string;
+  // metadata.version of the snapshot that introduced the change
+  version?: string;
+}
+
+// Changes that make something unavailable, shown as warnings
+export const DEGRADING_CHANGES: TopologyChangeKind[] = [
+  "link_down",
+  "link_removed",
+  "port_down",
+  "node_removed",
+];
+
+export const CHANGE_LABELS: Record<TopologyChangeKind, string> = {
+  link_down: "Link down",
+  link_up: "Link back up",
+  link_added: "Link added",
+  link_removed: "Link removed",
+  port_down: "Port down",
+  port_up: "Port back up",
+  node_added: "Node added",
+  node_removed: "Node removed",
+};
+
+/**
+ * Two snapshots are the same when the controller reports the same version
+ * and timestamp. Without metadata every snapshot is diffed.
+ */
+export function isSameSnapshot(
+  previous: TopologyResponse,
+  next: TopologyResponse
+): boolean {
+  const a = previous.metadata;
+  const b = next.metadata;
+  if (!a?.version || !b?.version) return false;
+  return a.version === b.version && a.timestamp === b.timestamp;
+}
+
+// Same rule the map uses for its "ports down" badge
+export function isPortDown(port: any): boolean {
+  return (
+    (port?.status !== "up" && port?.state === "enabled") ||
+    port?.state === "disabled"
+  );
+}
+
+// Shared by the diff, the graph views and the path finder. A link that
+// reports no status has not been seen down, so it counts as up.
+export function isLinkUp(link: TopologyLink): boolean {
+  return (link.status ?? "up") === "up" && link.state !== "disabled";
+}
+
+export function isLinkDown(link: TopologyLink): boolean {
+  return !isLinkUp(link);
+}
+
+function portLabel(port: any, node: TopologyNode): string {
+  return `${port.name || port.id} (${node.name || node.id})`;
+}
+
+function stateText(item: { status?: string; state?: string }): string {
+  return [item.status, item.state].filter(Boolean).join(" / ") || "unknown";
+}
+
+/**
+ * What changed between two topology snapshots: links going down or coming
+ * back, ports flipping state, and nodes or links appearing or disappearing
+ */
+export function diffTopology(
+  previous: TopologyResponse,
+  next: TopologyResponse,
+  detectedAt: Date = new Date()
+): TopologyChange[] {
+  const changes: TopologyChange[] = [];
+  const detected_at = detectedAt.toISOString();
+  const version = next.metadata?.version;
+  const add = (
+    kind: TopologyChangeKind,
+    subject: string,
+    label: string,
+    detail?: string
+  ) => {
+    changes.push({
+      id: `${detected_at}:${kind}:${subject}`,
+      kind,
+      subject,
+      label,
+      ...(detail && { detail }),
+      detected_at,
+      ...(version && { version }),
+    });
+  };
+
+  // Nodes and their ports
+  const previousNodes = new Map(previous.nodes.map((node) => [node.id, node]));
+  const nextNodes = new Map(next.nodes.map((node) => [node.id, node]));
+
+  nextNodes.forEach((node, id) => {
+    const before = previousNodes.get(id);
+    if (!before) {
+      add("node_added", id, node.name || id, `${node.ports?.length ?? 0} ports`);
+      return;
+    }
+
+    const previousPorts = new Map(
+      (before.ports ?? []).map((port: any) => [port.id, port])
+    );
+    (node.ports ?? []).forEach((port: any) => {
+      const old = previousPorts.get(port.id);
+      if (!old) return;
+      const wasDown = isPortDown(old);
+      const isDown = isPortDown(port);
+      if (wasDown !== isDown) {
+        add(
+          isDown ? "port_down" : "port_up",
+          port.id,
+          portLabel(port, node),
+          `${stateText(old)} → ${stateText(port)}`
+        );
+      }
+    });
+  });
+
+  previousNodes.forEach((node, id) => {
+    if (!nextNodes.has(id)) add("node_removed", id, node.name || id);
+  });
+
+  // Links
+  const previousLinks = new Map(previous.links.map((link) => [link.id, link]));
+  const nextLinks = new Map(next.links.map((link) => [link.id, link]));
+
+  nextLinks.forEach((link, id) => {
+    const before = previousLinks.get(id);
+    const label = link.name || id;
+    if (!before) {
+      add("link_added", id, label, link.ports?.join(" ↔ "));
+      return;
+    }
+    const wasDown = isLinkDown(before);
+    const isDown = isLinkDown(link);
+    if (wasDown !== isDown) {
+      add(
+        isDown ? "link_down" : "link_up",
+        id,
+        label,
+        `${stateText(before)} → ${stateText(link)}`
+      );
+    }
+  });
+
+  previousLinks.forEach((link, id) => {
+    if (!nextLinks.has(id)) add("link_removed", id, link.name || id);
+  });
+
+  return changes;
+}
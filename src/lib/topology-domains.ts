@@ -0,0 +1,104 @@
+// OXP domains shown on the map. They are discovered from the node URNs of
+// the topology; the user's selection is kept in localStorage and mirrored
+// in the ?domains= query parameter so a filtered view can be shared.
+
+import { TopologyResponse } from "@/lib/types";
+import { config } from "@/lib/config";
+import { getUrnDomain } from "@/lib/sdx-urn";
+
+const DOMAIN_SELECTION_KEY = "sdx_topology_domains";
+const DOMAINS_QUERY_PARAM = "domains";
+
+export interface DomainSummary {
+  domain: string;
+  node_count: number;
+  port_count: number;
+  // Links with at least one end in the domain
+  link_count: number;
+}
+
+/**
+ * Domains present in a topology, with counts, sorted by name
+ */
+export function discoverDomains(topology: TopologyResponse): DomainSummary[] {
+  const summaries = new Map<string, DomainSummary>();
+  const summaryFor = (domain: string) => {
+    let summary = summaries.get(domain);
+    if (!summary) {
+      summary = { domain, node_count: 0, port_count: 0, link_count: 0 };
+      summaries.set(domain, summary);
+    }
+    return summary;
+  };
+
+  topology.nodes.forEach((node) => {
+    const domain = getUrnDomain(node.id);
+    if (!domain) return;
+    const summary = summaryFor(domain);
+    summary.node_count++;
+    summary.port_count += node.ports?.length ?? 0;
+  });
+
+  topology.links.forEach((link) => {
+    const domains = new Set(
+      (link.ports ?? [])
+        .map((port) => getUrnDomain(port))
+        .filter((domain): domain is string => domain !== null)
+    );
+    domains.forEach((domain) => summaryFor(domain).link_count++);
+  });
+
+  return [...summaries.values()].sort((a, b) =>
+    a.domain.localeCompare(b.domain)
+  );
+}
+
+function parseDomainList(value: string | null): string[] | null {
+  if (value === null) return null;
+  const domains = value
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+  return domains.length > 0 ? [...new Set(domains)] : null;
+}
+
+/**
+ * The selection to start with: the URL wins over the saved selection, which
+ * wins over the configured defaults
+ */
+export function loadDomainSelection(): string[] {
+  const fromUrl = parseDomainList(
+    new URLSearchParams(window.location.search).get(DOMAINS_QUERY_PARAM)
+  );
+  if (fromUrl) return fromUrl;
+
+  const stored = localStorage.getItem(DOMAIN_SELECTION_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed.filter((domain) => typeof domain === "string");
+      }
+    } catch {
+      localStorage.removeItem(DOMAIN_SELECTION_KEY);
+    }
+  }
+
+  return [...config.topology.allowedDomains];
+}
+
+/**
+ * Persist a selection and reflect it in the current URL without adding a
+ * history entry
+ */
+export function saveDomainSelection(domains: string[]) {
+  try {
+    localStorage.setItem(DOMAIN_SELECTION_KEY, JSON.stringify(domains));
+  } catch (error) {
+    console.warn(`Failed to persist ${DOMAIN_SELECTION_KEY}:`, error);
+  }
+
+  const url = new URL(window.location.href);
+  url.searchParams.set(DOMAINS_QUERY_PARAM, domains.join(","));
+  window.history.replaceState(window.history.state, "", url);
+}
@@ -0,0 +1,76 @@
+// GeoJSON of the processed topology: one Point per map location and one
+// LineString per link, so the export holds exactly what the map shows.
+
+import type { Feature, FeatureCollection, LineString, Point } from "geojson";
+import { ProcessedTopology } from "@/lib/topology-processor";
+import { isLinkDown, isPortDown } from "@/lib/topology-diff";
+import { getLinkMetrics, getUtilization } from "@/lib/link-metrics";
+import { LatLngTuple, linkPath } from "@/lib/map-layout";
+
+// GeoJSON positions are [longitude, latitude]
+const toPosition = ([lat, lng]: LatLngTuple) => [lng, lat];
+
+export function topologyToGeoJSON(
+  processed: ProcessedTopology
+): FeatureCollection<Point | LineString> {
+  const locations: Feature<Point>[] = Object.entries(
+    processed.nodes_array
+  ).map(([location, data]) => {
+    const ports = data.sub_nodes.flatMap((subNode) => subNode.ports);
+    return {
+      type: "Feature",
+      geometry: {
+        type: "Point",
+        coordinates: [data.longitude, data.latitude],
+      },
+      properties: {
+        kind: "location",
+        location,
+        node_count: data.sub_nodes.length,
+        nodes: data.sub_nodes.map((subNode) => ({
+          id: subNode.id,
+          name: subNode.name,
+          address: subNode.sub_node_name,
+        })),
+        port_count: ports.length,
+        ports_down: ports.filter(isPortDown).length,
+      },
+    };
+  });
+
+  const links: Feature<LineString>[] = processed.latlng_array.flatMap(
+    (linkData) =>
+      Object.entries(linkData.latlngs).map(([linkId, [from, to]]) => {
+        const link = processed.links_array[linkData.link]?.find(
+          (candidate) => candidate.id === linkId
+        );
+        const metrics = link ? getLinkMetrics(link) : null;
+        return {
+          type: "Feature",
+          // Long-haul links follow the great circle as on the map; the
+          // sideways offset that separates parallel links is left out
+          geometry: {
+            type: "LineString",
+            coordinates: linkPath(
+              [from[0], from[1]],
+              [to[0], to[1]]
+            ).map(toPosition),
+          },
+          properties: {
+            kind: "link",
+            id: linkId,
+            name: link?.name ?? null,
+            locations: linkData.link,
+            ports: link?.ports ?? [],
+            status: link?.status ?? null,
+            state: link?.state ?? null,
+            down: link ? isLinkDown(link) : null,
+            ...metrics,
+            utilization: metrics ? getUtilization(metrics) : null,
+          },
+        };
+      })
+  );
+
+  return { type: "FeatureCollection", features: [...locations, ...links] };
+}
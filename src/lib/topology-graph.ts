@@ -0,0 +1,182 @@
+// Logical view of the raw topology: every node, port and link, whether or
+// not it has a location. Elements the geographic map cannot draw are listed
+// with the reason instead of disappearing.
+
+import { TopologyResponse } from "@/lib/types";
+import { getUrnDomain, toShortId } from "@/lib/sdx-urn";
+import { isLinkDown, isPortDown } from "@/lib/topology-diff";
+
+export type GraphStatus = "up" | "down";
+
+export interface GraphNode {
+  id: string;
+  kind: "node" | "port";
+  label: string;
+  status: GraphStatus;
+  domain: string | null;
+  // For ports, the id of the node they belong to
+  parent?: string;
+  // For nodes: false when the map has no location to draw them at
+  located?: boolean;
+  // For nodes: how many of their ports are down
+  ports_down?: number;
+}
+
+export interface GraphEdge {
+  id: string;
+  // "attachment" ties a port to its node; "link" joins two ports
+  kind: "attachment" | "link";
+  source: string;
+  target: string;
+  status: GraphStatus;
+  label: string;
+}
+
+export interface DroppedElement {
+  kind: "node" | "link";
+  id: string;
+  label: string;
+  reason: string;
+  // False when the element could not be drawn in the graph either
+  in_graph: boolean;
+}
+
+export interface TopologyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  dropped: DroppedElement[];
+}
+
+/**
+ * Build the graph for a topology, applying the same domain filter as the
+ * map. Nodes and links hidden by the filter are left out silently; anything
+ * the map drops for other reasons is reported in `dropped`.
+ */
+export function buildTopologyGraph(
+  topology: TopologyResponse,
+  allowedDomains: string[] = []
+): TopologyGraph {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  const dropped: DroppedElement[] = [];
+
+  const allNodes = Array.isArray(topology.nodes) ? topology.nodes : [];
+  const allLinks = Array.isArray(topology.links) ? topology.links : [];
+
+  // Every port in the topology, so links to filtered-out nodes can be told
+  // apart from links to ports that do not exist
+  const portOwners = new Map<string, { nodeId: string; shown: boolean }>();
+  const unlocated = new Set<string>();
+
+  allNodes.forEach((node) => {
+    const domain = getUrnDomain(node.id);
+    const shown =
+      allowedDomains.length === 0 ||
+      (domain !== null && allowedDomains.includes(domain));
+    const ports = node.ports ?? [];
+    ports.forEach((port) => {
+      if (port?.id) portOwners.set(port.id, { nodeId: node.id, shown });
+    });
+    if (!shown) return;
+
+    const located = Boolean(node.location?.iso3166_2_lvl4);
+    if (!located) {
+      unlocated.add(node.id);
+      dropped.push({
+        kind: "node",
+        id: node.id,
+        label: node.name || toShortId(node.id),
+        reason: "No location.iso3166_2_lvl4, so it is not on the map",
+        in_graph: true,
+      });
+    }
+
+    const portsDown = ports.filter(isPortDown).length;
+    nodes.push({
+      id: node.id,
+      kind: "node",
+      label: node.name || toShortId(node.id),
+      status: portsDown > 0 ? "down" : "up",
+      domain,
+      located,
+      ports_down: portsDown,
+    });
+
+    ports.forEach((port) => {
+      if (!port?.id) return;
+      const status: GraphStatus = isPortDown(port) ? "down" : "up";
+      nodes.push({
+        id: port.id,
+        kind: "port",
+        label: port.name || toShortId(port.id),
+        status,
+        domain,
+        parent: node.id,
+      });
+      edges.push({
+        id: `${node.id}|${port.id}`,
+        kind: "attachment",
+        source: node.id,
+        target: port.id,
+        status,
+        label: port.name || toShortId(port.id),
+      });
+    });
+  });
+
+  allLinks.forEach((link) => {
+    const label = link.name || toShortId(link.id);
+    const ports = link.ports ?? [];
+    if (ports.length < 2) {
+      dropped.push({
+        kind: "link",
+        id: link.id,
+        label,
+        reason: `Has ${ports.length} port${ports.length === 1 ? "" : "s"}, needs two`,
+        in_graph: false,
+      });
+      return;
+    }
+
+    // The map only looks at the first two ports of a link
+    const ends = ports.slice(0, 2).map((port) => ({
+      port,
+      owner: portOwners.get(port),
+    }));
+    if (ends.some((end) => end.owner && !end.owner.shown)) return;
+
+    const missing = ends.find((end) => !end.owner);
+    if (missing) {
+      dropped.push({
+        kind: "link",
+        id: link.id,
+        label,
+        reason: `Port ${toShortId(missing.port)} is not on any node`,
+        in_graph: false,
+      });
+      return;
+    }
+
+    const unlocatedEnd = ends.find((end) => unlocated.has(end.owner!.nodeId));
+    if (unlocatedEnd) {
+      dropped.push({
+        kind: "link",
+        id: link.id,
+        label,
+        reason: `Node ${toShortId(unlocatedEnd.owner!.nodeId)} has no location`,
+        in_graph: true,
+      });
+    }
+
+    edges.push({
+      id: link.id,
+      kind: "link",
+      source: ends[0].port,
+      target: ends[1].port,
+      status: isLinkDown(link) ? "down" : "up",
+      label,
+    });
+  });
+
+  return { nodes, edges, dropped };
+}
@@ -0,0 +1,230 @@
+// Rolling history of topology snapshots in IndexedDB, so the map can be
+// replayed as it was at an earlier point in time. Summaries and full
+// snapshots live in separate stores: the timeline only needs the former.
+// Per-link metrics are split out as well, so a link's history can be read
+// without loading every snapshot.
+
+import { TopologyResponse } from "@/lib/types";
+import { config } from "@/lib/config";
+import { LinkMetricSample, getLinkMetrics } from "@/lib/link-metrics";
+import { isLinkDown, isPortDown, isSameSnapshot } from "@/lib/topology-diff";
+
+const DB_NAME = "sdx_topology_history";
+const DB_VERSION = 2;
+const SUMMARY_STORE = "summaries";
+const SNAPSHOT_STORE = "snapshots";
+const LINK_METRICS_STORE = "link_metrics";
+const ALL_STORES = [SUMMARY_STORE, SNAPSHOT_STORE, LINK_METRICS_STORE];
+
+export interface TopologySnapshotSummary {
+  // Milliseconds since the epoch; the key of both stores
+  captured_at: number;
+  version?: string;
+  timestamp?: string;
+  node_count: number;
+  link_count: number;
+  links_down: number;
+  ports_down: number;
+}
+
+interface StoredSnapshot {
+  captured_at: number;
+  topology: TopologyResponse;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: "captured_at" });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: "captured_at" });
+        }
+        if (!db.objectStoreNames.contains(LINK_METRICS_STORE)) {
+          db.createObjectStore(LINK_METRICS_STORE, {
+            keyPath: ["link_id", "captured_at"],
+          }).createIndex("captured_at", "captured_at");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function summarizeTopology(
+  topology: TopologyResponse,
+  capturedAt: number
+): TopologySnapshotSummary {
+  let portsDown = 0;
+  topology.nodes.forEach((node) => {
+    (node.ports ?? []).forEach((port: any) => {
+      if (isPortDown(port)) portsDown++;
+    });
+  });
+
+  return {
+    captured_at: capturedAt,
+    ...(topology.metadata?.version && { version: topology.metadata.version }),
+    ...(topology.metadata?.timestamp && {
+      timestamp: topology.metadata.timestamp,
+    }),
+    node_count: topology.nodes.length,
+    link_count: topology.links.length,
+    links_down: topology.links.filter(isLinkDown).length,
+    ports_down: portsDown,
+  };
+}
+
+/**
+ * Summaries of the stored snapshots, oldest first
+ */
+export async function listTopologySnapshots(): Promise<
+  TopologySnapshotSummary[]
+> {
+  const db = await openDatabase();
+  const store = db
+    .transaction(SUMMARY_STORE, "readonly")
+    .objectStore(SUMMARY_STORE);
+  return promisify(store.getAll() as IDBRequest<TopologySnapshotSummary[]>);
+}
+
+export async function loadTopologySnapshot(
+  capturedAt: number
+): Promise<TopologyResponse | null> {
+  const db = await openDatabase();
+  const store = db
+    .transaction(SNAPSHOT_STORE, "readonly")
+    .objectStore(SNAPSHOT_STORE);
+  const stored = await promisify(
+    store.get(capturedAt) as IDBRequest<StoredSnapshot | undefined>
+  );
+  return stored?.topology ?? null;
+}
+
+/**
+ * Store a snapshot unless it is the same as the latest one, then drop
+ * snapshots past the retention window or count. Returns the new summary,
+ * or null when nothing was stored.
+ */
+export async function recordTopologySnapshot(
+  topology: TopologyResponse,
+  capturedAt: number = Date.now()
+): Promise<TopologySnapshotSummary | null> {
+  const db = await openDatabase();
+
+  const latestCursor = await promisify(
+    db
+      .transaction(SNAPSHOT_STORE, "readonly")
+      .objectStore(SNAPSHOT_STORE)
+      .openCursor(null, "prev")
+  );
+  const latest = latestCursor?.value as StoredSnapshot | undefined;
+  if (latest && isSameSnapshot(latest.topology, topology)) return null;
+
+  const summary = summarizeTopology(topology, capturedAt);
+  const transaction = db.transaction(ALL_STORES, "readwrite");
+  transaction.objectStore(SUMMARY_STORE).put(summary);
+  transaction
+    .objectStore(SNAPSHOT_STORE)
+    .put({ captured_at: capturedAt, topology } satisfies StoredSnapshot);
+  const metricsStore = transaction.objectStore(LINK_METRICS_STORE);
+  topology.links.forEach((link) => {
+    metricsStore.put({
+      link_id: link.id,
+      captured_at: capturedAt,
+      ...getLinkMetrics(link),
+    } satisfies LinkMetricSample);
+  });
+  await transactionDone(transaction);
+
+  await pruneTopologyHistory(capturedAt);
+  return summary;
+}
+
+async function pruneTopologyHistory(now: number) {
+  const { retentionMs, maxSnapshots } = config.topology.history;
+  const db = await openDatabase();
+  const keys = (await promisify(
+    db
+      .transaction(SUMMARY_STORE, "readonly")
+      .objectStore(SUMMARY_STORE)
+      .getAllKeys()
+  )) as number[];
+
+  const overflow = Math.max(0, keys.length - maxSnapshots);
+  const expired = keys.filter(
+    (key, index) => index < overflow || key < now - retentionMs
+  );
+  if (expired.length === 0) return;
+
+  const transaction = db.transaction(ALL_STORES, "readwrite");
+  expired.forEach((key) => {
+    transaction.objectStore(SUMMARY_STORE).delete(key);
+    transaction.objectStore(SNAPSHOT_STORE).delete(key);
+  });
+  // Expired snapshots are always the oldest ones
+  const cutoff = IDBKeyRange.upperBound(expired[expired.length - 1]);
+  const cursorRequest = transaction
+    .objectStore(LINK_METRICS_STORE)
+    .index("captured_at")
+    .openCursor(cutoff);
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(transaction);
+}
+
+/**
+ * Recorded metrics of one link, oldest first
+ */
+export async function listLinkMetrics(
+  linkId: string
+): Promise<LinkMetricSample[]> {
+  const db = await openDatabase();
+  const store = db
+    .transaction(LINK_METRICS_STORE, "readonly")
+    .objectStore(LINK_METRICS_STORE);
+  const range = IDBKeyRange.bound([linkId, -Infinity], [linkId, Infinity]);
+  return promisify(store.getAll(range) as IDBRequest<LinkMetricSample[]>);
+}
+
+export async function clearTopologyHistory() {
+  const db = await openDatabase();
+  const transaction = db.transaction(ALL_STORES, "readwrite");
+  ALL_STORES.forEach((name) => transaction.objectStore(name).clear());
+  await transactionDone(transaction);
+}
@@ -1,5 +1,7 @@
-import { TopologyResponse, TopologyNode, TopologyLink } from "@/lib/types";
+import { TopologyResponse, TopologyNode, TopologyLink, L2VPN } from "@/lib/types";
 import { LatLngExpression } from 'leaflet';
+import { extractPathHops } from "@/lib/l2vpn-path";
+import { getUrnDomain } from "@/lib/sdx-urn";
 
 // Types matching the PHP processing structure
 export interface ProcessedSubNode {
@@ -7,6 +9,9 @@ export interface ProcessedSubNode {
   ports: any[];
   name: string;
   id: string;
+  // The node's own coordinates; the location group uses its first node's
+  latitude?: number;
+  longitude?: number;
 }
 
 export interface ProcessedLocationNode {
@@ -26,6 +31,21 @@ export interface ProcessedTopology {
   latlng_array: ProcessedLink[];
 }
 
+// An L2VPN resolved against the processed topology, for highlighting on the map
+export interface ResolvedL2VPNPath {
+  service_id: string;
+  name: string;
+  endpoint_locations: string[];
+  // Every location touched by the path, endpoints included
+  path_locations: string[];
+  // Topology link ids (keys of ProcessedLink.latlngs) traversed by the path
+  link_ids: string[];
+  // Endpoint ports that are not on any displayed location
+  unresolved_ports: string[];
+  // False when the controller has not reported a path yet
+  path_known: boolean;
+}
+
 /**
  * Find subnode by port ID - equivalent to PHP find_subnode_by_id()
  */
@@ -76,11 +96,12 @@ export function processTopologyData(
     links = [];
   }
   
-  // Filter nodes by allowed domains (equivalent to PHP filter)
+  // Filter nodes by the OXP domain in their URN
   // If no domains specified, show all nodes
   if (allowedDomains.length > 0) {
     nodes = nodes.filter(node => {
-      return allowedDomains.some(domain => node.id.includes(domain));
+      const domain = getUrnDomain(node.id);
+      return domain !== null && allowedDomains.includes(domain);
     });
   }
   // If allowedDomains is empty, keep all nodes (don't filter)
@@ -108,7 +129,9 @@ export function processTopologyData(
       sub_node_name: location.address || '',
       ports: ports,
       name: node.name,
-      id: node.id
+      id: node.id,
+      latitude: location.latitude,
+      longitude: location.longitude
     };
     
     nodesArray[locationKey].sub_nodes.push(tempArr);
@@ -151,6 +174,69 @@ export function processTopologyData(
   };
 }
 
+/**
+ * Resolve an L2VPN's endpoints and current_path onto map locations and links.
+ * Path hops may be link URNs or per-hop ports; a link counts as traversed when
+ * it is listed directly or both of its ports appear on the path.
+ */
+export function resolveL2VPNPath(
+  processed: ProcessedTopology,
+  l2vpn: L2VPN
+): ResolvedL2VPNPath {
+  const hops = extractPathHops(l2vpn);
+  const linkHops = new Set(hops.filter(hop => hop.kind === 'link').map(hop => hop.id));
+  const pathPorts = new Set([
+    ...hops.filter(hop => hop.kind !== 'link').map(hop => hop.id),
+    ...l2vpn.endpoints.map(endpoint => endpoint.port_id),
+  ]);
+
+  const endpointLocations: string[] = [];
+  const unresolvedPorts: string[] = [];
+  for (const endpoint of l2vpn.endpoints) {
+    const location = findSubnodeById(processed.nodes_array, endpoint.port_id).node;
+    if (!location) {
+      unresolvedPorts.push(endpoint.port_id);
+    } else if (!endpointLocations.includes(location)) {
+      endpointLocations.push(location);
+    }
+  }
+
+  const pathLocations = new Set(endpointLocations);
+  const linkIds: string[] = [];
+
+  for (const links of Object.values(processed.links_array)) {
+    for (const link of links as TopologyLink[]) {
+      const ports = link.ports || [];
+      const traversed =
+        linkHops.has(link.id) ||
+        (ports.length >= 2 && ports.every(port => pathPorts.has(port)));
+      if (!traversed) continue;
+
+      linkIds.push(link.id);
+      for (const port of ports) {
+        const location = findSubnodeById(processed.nodes_array, port).node;
+        if (location) pathLocations.add(location);
+      }
+    }
+  }
+
+  // Intra-location hops (e.g. a port on a transit switch) still mark their location
+  for (const port of pathPorts) {
+    const location = findSubnodeById(processed.nodes_array, port).node;
+    if (location) pathLocations.add(location);
+  }
+
+  return {
+    service_id: l2vpn.service_id,
+    name: l2vpn.name,
+    endpoint_locations: endpointLocations,
+    path_locations: [...pathLocations],
+    link_ids: linkIds,
+    unresolved_ports: unresolvedPorts,
+    path_known: hops.length > 0,
+  };
+}
+
 /**
  * Convert processed topology to simple map format for rendering
  */
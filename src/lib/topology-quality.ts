@@ -0,0 +1,221 @@
+// Validation of a topology as published by the OXPs. The processor skips
+// whatever it cannot draw; this pass reports it, so operators can fix their
+// topology descriptions.
+
+import { TopologyResponse } from "@/lib/types";
+import { formatSdxUrn, parseSdxUrn, toShortId } from "@/lib/sdx-urn";
+import { parseVlanRanges } from "@/lib/vlan-allocation";
+
+export type QualityCheck =
+  | "node_missing_coordinates"
+  | "link_unknown_port"
+  | "link_too_few_ports"
+  | "duplicate_id"
+  | "port_missing_vlan_range"
+  | "inconsistent_status";
+
+export type QualitySeverity = "error" | "warning";
+
+export const QUALITY_CHECKS: Record<
+  QualityCheck,
+  { label: string; severity: QualitySeverity }
+> = {
+  duplicate_id: { label: "Duplicate IDs", severity: "error" },
+  link_too_few_ports: {
+    label: "Links with fewer than two ports",
+    severity: "error",
+  },
+  link_unknown_port: {
+    label: "Links to unknown nodes or ports",
+    severity: "error",
+  },
+  node_missing_coordinates: {
+    label: "Nodes without coordinates",
+    severity: "warning",
+  },
+  port_missing_vlan_range: {
+    label: "Ports without a VLAN range",
+    severity: "warning",
+  },
+  inconsistent_status: {
+    label: "Inconsistent status and state",
+    severity: "warning",
+  },
+};
+
+export interface QualityIssue {
+  check: QualityCheck;
+  severity: QualitySeverity;
+  // URN of the node, port or link the issue is about
+  subject: string;
+  message: string;
+}
+
+export interface QualityReport {
+  generated_at: string;
+  topology_version?: string;
+  topology_timestamp?: string;
+  counts: { nodes: number; ports: number; links: number };
+  issues: QualityIssue[];
+}
+
+// Values defined by the SDX topology data model
+const KNOWN_STATUSES = ["up", "down", "error"];
+const KNOWN_STATES = ["enabled", "disabled", "maintenance"];
+
+function statusProblem(item: {
+  status?: unknown;
+  state?: unknown;
+}): string | null {
+  const { status, state } = item;
+  if (status === undefined && state === undefined) {
+    return "has no status or state";
+  }
+  if (status === undefined) return "has no status";
+  if (state === undefined) return "has no state";
+  if (typeof status !== "string" || !KNOWN_STATUSES.includes(status)) {
+    return `has unknown status "${String(status)}"`;
+  }
+  if (typeof state !== "string" || !KNOWN_STATES.includes(state)) {
+    return `has unknown state "${String(state)}"`;
+  }
+  if (status === "up" && state === "disabled") {
+    return 'is "up" but its state is "disabled"';
+  }
+  return null;
+}
+
+const isCoordinate = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Check a topology and list every problem found, errors first
+ */
+export function validateTopology(topology: TopologyResponse): QualityReport {
+  const issues: QualityIssue[] = [];
+  const report = (check: QualityCheck, subject: string, message: string) =>
+    issues.push({
+      check,
+      severity: QUALITY_CHECKS[check].severity,
+      subject,
+      message,
+    });
+
+  const nodes = Array.isArray(topology?.nodes) ? topology.nodes : [];
+  const links = Array.isArray(topology?.links) ? topology.links : [];
+
+  // How often each ID is used, by any kind of element
+  const idCounts = new Map<string, number>();
+  const countId = (id: string) =>
+    idCounts.set(id, (idCounts.get(id) ?? 0) + 1);
+  const nodeIds = new Set<string>();
+  const portIds = new Set<string>();
+  let portCount = 0;
+
+  nodes.forEach((node) => {
+    countId(node.id);
+    nodeIds.add(node.id);
+    const name = node.name || toShortId(node.id);
+
+    const location = node.location;
+    const missing = [
+      !isCoordinate(location?.latitude) && "latitude",
+      !isCoordinate(location?.longitude) && "longitude",
+      !location?.iso3166_2_lvl4 && "iso3166_2_lvl4",
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      report(
+        "node_missing_coordinates",
+        node.id,
+        `Node ${name} has no location ${missing.join(", ")}, so it is not on the map`
+      );
+    }
+
+    (node.ports ?? []).forEach((port) => {
+      portCount++;
+      if (!port?.id) return;
+      countId(port.id);
+      portIds.add(port.id);
+      const portName = port.name || toShortId(port.id);
+
+      const vlanRange = port.services?.l2vpn_ptp?.vlan_range;
+      if (parseVlanRanges(vlanRange).length === 0) {
+        report(
+          "port_missing_vlan_range",
+          port.id,
+          vlanRange === undefined
+            ? `Port ${portName} has no services.l2vpn_ptp.vlan_range`
+            : `Port ${portName} has a vlan_range with no usable VLANs`
+        );
+      }
+
+      const problem = statusProblem(port);
+      if (problem) {
+        report("inconsistent_status", port.id, `Port ${portName} ${problem}`);
+      }
+    });
+  });
+
+  links.forEach((link) => {
+    countId(link.id);
+    const name = link.name || toShortId(link.id);
+    const ports = link.ports ?? [];
+
+    if (ports.length < 2) {
+      report(
+        "link_too_few_ports",
+        link.id,
+        `Link ${name} has ${ports.length} port${ports.length === 1 ? "" : "s"}`
+      );
+    }
+
+    ports.forEach((portId) => {
+      if (portIds.has(portId)) return;
+      const urn = parseSdxUrn(portId);
+      if (urn?.kind !== "port") {
+        report(
+          "link_unknown_port",
+          link.id,
+          `Link ${name} refers to "${portId}", which is not a port URN`
+        );
+        return;
+      }
+      const nodeId = formatSdxUrn({
+        kind: "node",
+        domain: urn.domain,
+        node: urn.node,
+      });
+      report(
+        "link_unknown_port",
+        link.id,
+        nodeIds.has(nodeId)
+          ? `Link ${name} refers to port ${toShortId(portId)}, which node ${toShortId(nodeId)} does not list`
+          : `Link ${name} refers to port ${toShortId(portId)} on node ${toShortId(nodeId)}, which is not in the topology`
+      );
+    });
+
+    const problem = statusProblem(link);
+    if (problem) {
+      report("inconsistent_status", link.id, `Link ${name} ${problem}`);
+    }
+  });
+
+  idCounts.forEach((count, id) => {
+    if (count > 1) {
+      report("duplicate_id", id, `${toShortId(id)} is used ${count} times`);
+    }
+  });
+
+  issues.sort(
+    (a, b) =>
+      Number(a.severity === "warning") - Number(b.severity === "warning")
+  );
+
+  return {
+    generated_at: new Date().toISOString(),
+    topology_version: topology?.metadata?.version,
+    topology_timestamp: topology?.metadata?.timestamp,
+    counts: { nodes: nodes.length, ports: portCount, links: links.length },
+    issues,
+  };
+}
@@ -1,4 +1,6 @@
-export type Provider = "cilogon" | "orcid";
+import type { Provider } from "@/lib/config";
+
+export type { Provider };
 
 export interface TokenData {
   id_token?: string;
@@ -9,6 +11,8 @@ export interface TokenData {
   provider?: Provider;
   token_type?: string;
   scope?: string;
+  // Nonce sent with the sign-in that issued the ID token
+  nonce?: string;
 }
 
 export interface TokenClaims {
@@ -125,4 +129,90 @@ export interface ApiError {
   error: string;
   message?: string;
   details?: any;
-}
\ No newline at end of file
+}
+
+// L2VPN API types
+export type L2VPNStatus =
+  | "up"
+  | "down"
+  | "error"
+  | "under provisioning"
+  | "maintenance"
+  | "unknown";
+
+export type VlanSpec = "any" | "all" | "untagged" | string;
+
+export interface L2VPNEndpoint {
+  port_id: string;
+  vlan: VlanSpec;
+}
+
+export interface QosMetric {
+  value: number;
+  strict: boolean;
+}
+
+export interface QosMetrics {
+  min_bw?: QosMetric;
+  max_delay?: QosMetric;
+  max_number_oxps?: QosMetric;
+}
+
+export interface Scheduling {
+  start_time?: string;
+  end_time?: string;
+}
+
+export interface L2VPNNotification {
+  email: string;
+}
+
+export interface L2VPN {
+  service_id: string;
+  name: string;
+  endpoints: L2VPNEndpoint[];
+  status: L2VPNStatus;
+  description?: string;
+  state?: string;
+  scheduling?: Scheduling;
+  qos_metrics?: QosMetrics;
+  notifications?: L2VPNNotification[];
+  ownership?: string;
+  creation_date?: string;
+  archived_date?: string;
+  last_modified?: string;
+  current_path?: unknown[];
+  counters_location?: string;
+}
+
+// Payload accepted by POST /l2vpn/1.0
+export interface L2VPNRequest {
+  name: string;
+  endpoints: L2VPNEndpoint[];
+  description?: string;
+  scheduling?: Scheduling;
+  qos_metrics?: QosMetrics;
+  notifications?: L2VPNNotification[];
+  ownership?: string;
+}
+
+// Payload accepted by PATCH /l2vpn/1.0/{service_id}
+export interface L2VPNUpdate extends Partial<L2VPNRequest> {
+  service_id: string;
+}
+
+export interface L2VPNMutationResponse {
+  service_id?: string;
+  status?: string;
+  reason?: string;
+  description?: string;
+  [key: string]: unknown;
+}
+
+// Lifecycle timeline entry, read off the L2VPN record's dates
+export interface L2VPNHistoryEvent {
+  timestamp: string;
+  event: string;
+  status?: L2VPNStatus;
+  details?: string;
+}
@@ -0,0 +1,378 @@
+import { L2VPN, L2VPNEndpoint } from "@/lib/types";
+
+// Inclusive [start, end] VLAN interval
+export type VlanInterval = [number, number];
+
+export const VLAN_MIN = 1;
+export const VLAN_MAX = 4095;
+
+export type VlanRequest =
+  | { kind: "any" }
+  | { kind: "all" }
+  | { kind: "untagged" }
+  | { kind: "range"; interval: VlanInterval };
+
+export interface PortVlanUsage {
+  intervals: VlanInterval[];
+  // Service ids of the L2VPNs holding VLANs on this port
+  services: string[];
+  hasAll: boolean;
+  hasUntagged: boolean;
+}
+
+export interface VlanCheck {
+  valid: boolean;
+  error?: string;
+  // Free values close to the request, for one-click correction
+  suggestions: string[];
+}
+
+export interface VlanConflict {
+  index: number;
+  message: string;
+}
+
+/**
+ * Sort and merge overlapping or adjacent intervals
+ */
+function mergeIntervals(intervals: VlanInterval[]): VlanInterval[] {
+  const sorted = intervals
+    .filter(([start, end]) => start <= end)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: VlanInterval[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function parseIntervalText(text: string): VlanInterval | null {
+  const match = text.trim().match(/^(\d+)\s*(?:[-:]\s*(\d+))?$/);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2] !== undefined ? Number(match[2]) : start;
+  return [start, end];
+}
+
+/**
+ * Parse the vlan_range advertised on a port. OXPs publish it as
+ * [[start, end], ...], a single [start, end] pair, or "start-end" strings.
+ */
+export function parseVlanRanges(raw: unknown): VlanInterval[] {
+  if (raw === undefined || raw === null) return [];
+
+  const intervals: VlanInterval[] = [];
+  const add = (interval: VlanInterval | null) => {
+    if (!interval) return;
+    const start = Math.max(VLAN_MIN, interval[0]);
+    const end = Math.min(VLAN_MAX, interval[1]);
+    if (start <= end) intervals.push([start, end]);
+  };
+
+  if (typeof raw === "string") {
+    raw.split(",").forEach((part) => add(parseIntervalText(part)));
+  } else if (Array.isArray(raw)) {
+    if (
+      raw.length === 2 &&
+      typeof raw[0] === "number" &&
+      typeof raw[1] === "number"
+    ) {
+      add([raw[0], raw[1]]);
+    } else {
+      raw.forEach((entry) => {
+        if (typeof entry === "number") add([entry, entry]);
+        else if (Array.isArray(entry) && entry.length === 2) {
+          add([Number(entry[0]), Number(entry[1])]);
+        } else if (typeof entry === "string") add(parseIntervalText(entry));
+      });
+    }
+  }
+
+  return mergeIntervals(intervals);
+}
+
+export function formatVlanRanges(intervals: VlanInterval[]): string {
+  if (intervals.length === 0) return "none";
+  return intervals
+    .map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`))
+    .join(", ");
+}
+
+/**
+ * Remove the used intervals from the available ones
+ */
+export function subtractVlans(
+  available: VlanInterval[],
+  used: VlanInterval[]
+): VlanInterval[] {
+  const result: VlanInterval[] = [];
+  const blocked = mergeIntervals(used.map(([s, e]) => [s, e] as VlanInterval));
+
+  for (const [start, end] of mergeIntervals(available)) {
+    let cursor = start;
+    for (const [usedStart, usedEnd] of blocked) {
+      if (usedEnd < cursor || usedStart > end) continue;
+      if (usedStart > cursor) result.push([cursor, usedStart - 1]);
+      cursor = Math.max(cursor, usedEnd + 1);
+    }
+    if (cursor <= end) result.push([cursor, end]);
+  }
+  return result;
+}
+
+function contains(intervals: VlanInterval[], [start, end]: VlanInterval): boolean {
+  return intervals.some(([s, e]) => start >= s && end <= e);
+}
+
+function overlaps(a: VlanInterval, b: VlanInterval): boolean {
+  return a[0] <= b[1] && b[0] <= a[1];
+}
+
+/**
+ * Parse an endpoint VLAN as accepted by the SDX API:
+ * "any", "all", "untagged", "<id>" or "<start>:<end>"
+ */
+export function parseVlanRequest(vlan: string): VlanRequest {
+  const value = vlan.trim();
+  if (value === "any" || value === "all" || value === "untagged") {
+    return { kind: value };
+  }
+
+  const match = value.match(/^(\d+)(?::(\d+))?$/);
+  if (!match) {
+    throw new Error(
+      `"${vlan}" is not a VLAN ID or range (use e.g. "100" or "100:200")`
+    );
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] !== undefined ? Number(match[2]) : start;
+  if (start < VLAN_MIN || end > VLAN_MAX) {
+    throw new Error(`VLANs must be between ${VLAN_MIN} and ${VLAN_MAX}`);
+  }
+  if (start > end) {
+    throw new Error(`Range start ${start} is greater than its end ${end}`);
+  }
+  return { kind: "range", interval: [start, end] };
+}
+
+/**
+ * VLANs already held on each port by the user's L2VPNs. The L2VPN being
+ * edited is excluded so it does not conflict with itself.
+ */
+export function collectVlanUsage(
+  l2vpns: L2VPN[],
+  excludeServiceId?: string
+): Map<string, PortVlanUsage> {
+  const usage = new Map<string, PortVlanUsage>();
+
+  for (const l2vpn of l2vpns) {
+    if (l2vpn.service_id === excludeServiceId) continue;
+
+    for (const endpoint of l2vpn.endpoints) {
+      if (!usage.has(endpoint.port_id)) {
+        usage.set(endpoint.port_id, {
+          intervals: [],
+          services: [],
+          hasAll: false,
+          hasUntagged: false,
+        });
+      }
+      const entry = usage.get(endpoint.port_id)!;
+      if (!entry.services.includes(l2vpn.service_id)) {
+        entry.services.push(l2vpn.service_id);
+      }
+
+      try {
+        const request = parseVlanRequest(endpoint.vlan);
+        if (request.kind === "range") entry.intervals.push(request.interval);
+        if (request.kind === "all") entry.hasAll = true;
+        if (request.kind === "untagged") entry.hasUntagged = true;
+      } catch {
+        // The controller assigns "any" to a concrete VLAN; anything else is not ours to judge
+      }
+    }
+  }
+
+  usage.forEach((entry) => {
+    entry.intervals = mergeIntervals(entry.intervals);
+  });
+  return usage;
+}
+
+/**
+ * Free VLANs on a port: advertised range minus what existing L2VPNs hold.
+ * An empty advertised range is treated as the full 1-4095 space.
+ */
+export function freeVlans(
+  advertised: unknown,
+  usage?: PortVlanUsage
+): VlanInterval[] {
+  const available = parseVlanRanges(advertised);
+  const base = available.length > 0 ? available : [[VLAN_MIN, VLAN_MAX] as VlanInterval];
+  if (usage?.hasAll) return [];
+  return subtractVlans(base, usage?.intervals ?? []);
+}
+
+/**
+ * Up to `count` free VLAN values (or ranges of the requested width) nearest `near`
+ */
+export function suggestFreeVlans(
+  free: VlanInterval[],
+  width = 1,
+  near = VLAN_MIN,
+  count = 3
+): string[] {
+  const candidates: number[] = [];
+  for (const [start, end] of free) {
+    for (let vlan = start; vlan + width - 1 <= end; vlan++) {
+      candidates.push(vlan);
+      if (candidates.length > 4096) break;
+    }
+  }
+
+  return candidates
+    .sort((a, b) => Math.abs(a - near) - Math.abs(b - near) || a - b)
+    .slice(0, count)
+    .sort((a, b) => a - b)
+    .map((vlan) => (width === 1 ? `${vlan}` : `${vlan}:${vlan + width - 1}`));
+}
+
+/**
+ * Validate one endpoint's VLAN against what the port offers and what the
+ * user's existing L2VPNs already hold on it
+ */
+export function checkEndpointVlan(
+  endpoint: L2VPNEndpoint,
+  advertised: unknown,
+  usage?: PortVlanUsage
+): VlanCheck {
+  let request: VlanRequest;
+  try {
+    request = parseVlanRequest(endpoint.vlan);
+  } catch (error) {
+    return { valid: false, error: (error as Error).message, suggestions: [] };
+  }
+
+  const free = freeVlans(advertised, usage);
+
+  if (request.kind === "any") {
+    return free.length > 0
+      ? { valid: true, suggestions: [] }
+      : { valid: false, error: "No free VLANs remain on this port", suggestions: [] };
+  }
+
+  if (request.kind === "all") {
+    return usage && usage.services.length > 0
+      ? {
+          valid: false,
+          error: `"all" needs the whole port, but ${usage.services.length} existing L2VPN(s) use it`,
+          suggestions: [],
+        }
+      : { valid: true, suggestions: [] };
+  }
+
+  if (request.kind === "untagged") {
+    return usage?.hasUntagged || usage?.hasAll
+      ? {
+          valid: false,
+          error: "Untagged traffic on this port is already carried by another L2VPN",
+          suggestions: [],
+        }
+      : { valid: true, suggestions: [] };
+  }
+
+  const requested = request.interval;
+  const [start, end] = requested;
+  const width = end - start + 1;
+  if (contains(free, requested)) {
+    return { valid: true, suggestions: [] };
+  }
+
+  const inUse = usage?.intervals.some((interval) => overlaps(interval, requested));
+  const advertisedRanges = parseVlanRanges(advertised);
+  return {
+    valid: false,
+    error: inUse
+      ? `VLAN ${width === 1 ? start : `${start}:${end}`} is already used by one of your L2VPNs on this port`
+      : `VLAN ${width === 1 ? start : `${start}:${end}`} is outside the port's range (${formatVlanRanges(advertisedRanges)})`,
+    suggestions: suggestFreeVlans(free, width, start),
+  };
+}
+
+/**
+ * Conflicts between the endpoints of a single request
+ */
+export function findVlanConflicts(endpoints: L2VPNEndpoint[]): VlanConflict[] {
+  const conflicts: VlanConflict[] = [];
+  const parsed = endpoints.map((endpoint) => {
+    try {
+      return parseVlanRequest(endpoint.vlan);
+    } catch {
+      return null;
+    }
+  });
+
+  // "all" carries every frame, so every endpoint must use it
+  const allIndexes = parsed.flatMap((request, index) =>
+    request?.kind === "all" ? [index] : []
+  );
+  if (allIndexes.length > 0 && allIndexes.length < endpoints.length) {
+    parsed.forEach((request, index) => {
+      if (request && request.kind !== "all") {
+        conflicts.push({
+          index,
+          message: `Endpoint ${allIndexes[0] + 1} uses "all"; every endpoint must then use "all"`,
+        });
+      }
+    });
+  }
+
+  // VLAN ranges are translated one-to-one, so widths must match
+  const ranges = parsed.flatMap((request, index) =>
+    request?.kind === "range" && request.interval[0] !== request.interval[1]
+      ? [{ index, interval: request.interval }]
+      : []
+  );
+  if (ranges.length > 0) {
+    const [first] = ranges;
+    const width = first.interval[1] - first.interval[0];
+    parsed.forEach((request, index) => {
+      if (index === first.index || !request || request.kind === "all") return;
+      if (request.kind !== "range" || request.interval[1] - request.interval[0] !== width) {
+        conflicts.push({
+          index,
+          message: `Endpoint ${first.index + 1} uses a range of ${width + 1} VLANs; this endpoint must use a range of the same size`,
+        });
+      }
+    });
+  }
+
+  // Two endpoints on the same port cannot share VLANs
+  endpoints.forEach((endpoint, index) => {
+    for (let other = 0; other < index; other++) {
+      if (endpoints[other].port_id !== endpoint.port_id || !endpoint.port_id) continue;
+      const a = parsed[index];
+      const b = parsed[other];
+      const clash =
+        a?.kind === "all" ||
+        b?.kind === "all" ||
+        (a?.kind === "untagged" && b?.kind === "untagged") ||
+        (a?.kind === "range" && b?.kind === "range" && overlaps(a.interval, b.interval));
+      if (clash) {
+        conflicts.push({
+          index,
+          message: `Shares port and VLAN with endpoint ${other + 1}`,
+        });
+      }
+    }
+  });
+
+  return conflicts;
+}